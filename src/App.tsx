@@ -6,7 +6,9 @@ import { CombatScreen } from '@/components/screens/CombatScreen';
 import { RestScreen } from '@/components/screens/RestScreen';
 import { RewardScreen } from '@/components/screens/RewardScreen';
 import { EventScreen } from '@/components/screens/EventScreen';
+import { TreasureScreen } from '@/components/screens/TreasureScreen';
 import { DeckViewOverlay } from '@/components/screens/DeckView';
+import { SeedDisplay } from '@/components/game/SeedDisplay';
 import { useEffect } from 'react';
 
 // Screen router component
@@ -30,6 +32,8 @@ function ScreenRouter() {
       return <MerchantPlaceholder />;
     case 'EVENT':
       return <EventScreen />;
+    case 'TREASURE':
+      return <TreasureScreen />;
     case 'VICTORY':
       return <VictoryPlaceholder />;
     case 'DEFEAT':
@@ -61,12 +65,14 @@ function MerchantPlaceholder() {
 
 function VictoryPlaceholder() {
   const resetGame = useGameStore((s) => s.resetGame);
+  const seed = useGameStore((s) => s.seed);
   return (
     <div className="min-h-screen bg-black flex items-center justify-center">
       <div className="text-center">
         <span className="text-6xl block mb-4">🏆</span>
         <h1 className="text-5xl font-game text-yellow-500 mb-4">Victory!</h1>
-        <p className="text-gray-400 mb-8">You have conquered the spire!</p>
+        <p className="text-gray-400 mb-4">You have conquered the spire!</p>
+        <SeedDisplay seed={seed} className="justify-center mb-8" />
         <button 
           onClick={resetGame}
           className="btn btn-gold"
@@ -80,12 +86,14 @@ function VictoryPlaceholder() {
 
 function DefeatPlaceholder() {
   const resetGame = useGameStore((s) => s.resetGame);
+  const seed = useGameStore((s) => s.seed);
   return (
     <div className="min-h-screen bg-black flex items-center justify-center">
       <div className="text-center">
         <span className="text-6xl block mb-4">💀</span>
         <h1 className="text-5xl font-game text-red-500 mb-4">Defeated</h1>
-        <p className="text-gray-400 mb-8">Your journey ends here...</p>
+        <p className="text-gray-400 mb-4">Your journey ends here...</p>
+        <SeedDisplay seed={seed} className="justify-center mb-8" />
         <button 
           onClick={resetGame}
           className="btn btn-primary"
@@ -65,6 +65,7 @@ export function Card({
 
   // Get keywords
   const keywords: string[] = [];
+  if (card.unplayable) keywords.push('Unplayable');
   if (card.exhaust) keywords.push('Exhaust');
   if (card.retain) keywords.push('Retain');
   if (card.ethereal) keywords.push('Ethereal');
@@ -239,6 +240,7 @@ export function CardTooltip({ card }: { card: CardType }) {
       </div>
       <p className="text-gray-400 text-sm mb-2">{card.type} • {card.rarity}</p>
       <p className="text-gray-200 text-sm">{formatDescription()}</p>
+      {card.unplayable && <p className="text-yellow-400 text-xs mt-2 italic">Unplayable.</p>}
       {card.exhaust && <p className="text-yellow-400 text-xs mt-2 italic">Exhaust.</p>}
       {card.retain && <p className="text-yellow-400 text-xs mt-1 italic">Retain.</p>}
       {card.ethereal && <p className="text-yellow-400 text-xs mt-1 italic">Ethereal.</p>}
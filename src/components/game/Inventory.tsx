@@ -15,6 +15,7 @@ const relicRarityColors = {
   UNCOMMON: 'from-blue-800 to-blue-900 border-blue-500',
   RARE: 'from-yellow-700 to-yellow-800 border-yellow-500',
   SPECIAL: 'from-purple-700 to-purple-800 border-purple-500',
+  BOSS: 'from-red-800 to-red-900 border-red-500',
 };
 
 const sizeClasses = {
@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { clsx } from 'clsx';
+
+interface SeedDisplayProps {
+  seed: string;
+  className?: string;
+}
+
+type CopyState = 'idle' | 'copied' | 'failed';
+
+const copyLabels: Record<CopyState, string> = {
+  idle: '📋 Copy',
+  copied: '✓ Copied',
+  failed: '✖ Copy failed',
+};
+
+// The run's seed with a copy button, so a run can be shared and replayed
+export function SeedDisplay({ seed, className }: SeedDisplayProps) {
+  const [copyState, setCopyState] = useState<CopyState>('idle');
+
+  // Put the button back a moment after copying
+  useEffect(() => {
+    if (copyState === 'idle') return;
+    const timeout = setTimeout(() => setCopyState('idle'), 1500);
+    return () => clearTimeout(timeout);
+  }, [copyState]);
+
+  const handleCopy = () => {
+    if (!navigator.clipboard) {
+      setCopyState('failed');
+      return;
+    }
+    navigator.clipboard.writeText(seed).then(
+      () => setCopyState('copied'),
+      () => setCopyState('failed')
+    );
+  };
+
+  return (
+    <div className={clsx('flex items-center gap-2 text-sm', className)}>
+      <span className="text-gray-400">🌱 Seed:</span>
+      <span className="font-mono text-white select-all">{seed}</span>
+      <button
+        onClick={handleCopy}
+        className={clsx(
+          'px-2 py-0.5 rounded border text-xs transition-colors',
+          copyState === 'copied' && 'border-green-600 text-green-400',
+          copyState === 'failed' && 'border-red-600 text-red-400',
+          copyState === 'idle' && 'border-gray-600 text-gray-300 hover:border-gray-400 hover:text-white'
+        )}
+      >
+        {copyLabels[copyState]}
+      </button>
+    </div>
+  );
+}
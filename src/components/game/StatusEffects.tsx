@@ -1,5 +1,6 @@
 import { clsx } from 'clsx';
-import type { StatusEffects } from '@/types';
+import type { ActivePower, StatusDefinition, StatusEffects } from '@/types';
+import { getActiveStatuses } from '@/engine/statusEffects';
 
 interface StatusDisplayProps {
   effects: StatusEffects;
@@ -7,42 +8,19 @@ interface StatusDisplayProps {
   className?: string;
 }
 
-interface StatusInfo {
-  key: keyof StatusEffects;
-  icon: string;
-  name: string;
-  type: 'buff' | 'debuff' | 'neutral';
-  description: string;
-}
-
-const statusConfig: StatusInfo[] = [
-  // Buffs
-  { key: 'strength', icon: '⚔️', name: 'Might', type: 'buff', description: 'Deal additional damage with attacks' },
-  { key: 'dexterity', icon: '🏃', name: 'Agility', type: 'buff', description: 'Gain additional block from cards' },
-  { key: 'artifact', icon: '💎', name: 'Warding', type: 'buff', description: 'Negates next debuff applied' },
-  { key: 'platedArmor', icon: '🪨', name: 'Ore Plating', type: 'buff', description: 'Gain block at end of turn, reduced when hit' },
-  { key: 'thorns', icon: '⚡', name: 'Reactive', type: 'buff', description: 'Deal damage back when attacked' },
-  { key: 'ritual', icon: '🔥', name: 'Building Power', type: 'buff', description: 'Gain Might each turn' },
-  { key: 'intangible', icon: '👻', name: 'Phased', type: 'buff', description: 'All damage reduced to 1' },
-  // Debuffs
-  { key: 'weak', icon: '💫', name: 'Weakened', type: 'debuff', description: 'Deal 25% less damage' },
-  { key: 'vulnerable', icon: '🎯', name: 'Exposed', type: 'debuff', description: 'Take 50% more damage' },
-  { key: 'frail', icon: '💔', name: 'Brittle', type: 'debuff', description: 'Gain 25% less block' },
-  { key: 'poison', icon: '☠️', name: 'Corroded', type: 'debuff', description: 'Take damage at start of turn, then decreases' },
-];
-
+// Icons, names and tooltips come from the status registry (data/statuses/statuses.json)
 export function StatusDisplay({ effects, compact = false, className }: StatusDisplayProps) {
-  const activeEffects = statusConfig.filter(s => effects[s.key] !== 0);
+  const activeEffects = getActiveStatuses(effects);
 
   if (activeEffects.length === 0) return null;
 
   return (
     <div className={clsx('flex flex-wrap gap-1', className)}>
-      {activeEffects.map(status => (
+      {activeEffects.map(({ definition, stacks }) => (
         <StatusBadge
-          key={status.key}
-          status={status}
-          value={effects[status.key]}
+          key={definition.id}
+          status={definition}
+          value={stacks}
           compact={compact}
         />
       ))}
@@ -51,7 +29,7 @@ export function StatusDisplay({ effects, compact = false, className }: StatusDis
 }
 
 interface StatusBadgeProps {
-  status: StatusInfo;
+  status: StatusDefinition;
   value: number;
   compact?: boolean;
 }
@@ -87,6 +65,49 @@ export function StatusBadge({ status, value, compact }: StatusBadgeProps) {
   );
 }
 
+// Active powers (played Power cards), shown next to the status effects
+interface PowerDisplayProps {
+  powers: ActivePower[];
+  className?: string;
+}
+
+export function PowerDisplay({ powers, className }: PowerDisplayProps) {
+  if (powers.length === 0) return null;
+
+  return (
+    <div className={clsx('flex flex-wrap gap-1', className)}>
+      {powers.map(power => (
+        <PowerBadge key={power.id} power={power} />
+      ))}
+    </div>
+  );
+}
+
+function PowerBadge({ power }: { power: ActivePower }) {
+  let description = power.description;
+  power.effects.forEach((effect, i) => {
+    description = description.replace(`{${i}}`, String(effect.value));
+  });
+
+  return (
+    <div
+      className="status-badge status-buff group relative"
+      title={`${power.name}: ${description}`}
+    >
+      <span>✨</span>
+      <span className="text-xs">{power.name}</span>
+      {power.stacks > 1 && <span className="font-mono">×{power.stacks}</span>}
+
+      <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 hidden group-hover:block z-50">
+        <div className="bg-gray-900 border border-gray-600 rounded px-3 py-2 text-xs whitespace-nowrap shadow-xl">
+          <p className="font-semibold text-white">{power.name}</p>
+          <p className="text-gray-400">{description}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // Block display component
 interface BlockDisplayProps {
   block: number;
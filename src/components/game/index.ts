@@ -1,3 +1,4 @@
 export { Card, CardGrid, CardTooltip } from './Card';
 export { StatusDisplay, StatusBadge, BlockDisplay, PlayerStats } from './StatusEffects';
 export { RelicDisplay, RelicBar, PotionSlot, PotionBar, GoldDisplay } from './Inventory';
+export { SeedDisplay } from './SeedDisplay';
@@ -38,11 +38,13 @@ const characters: CharacterClass[] = [
 
 export function CharacterSelect() {
   const [selectedChar, setSelectedChar] = useState<CharacterClass | null>(null);
+  // Optional; the same seed and character replay the same run
+  const [seed, setSeed] = useState('');
   const { setScreen, startNewRun } = useGameStore();
 
   const handleStartRun = () => {
     if (selectedChar) {
-      startNewRun(selectedChar);
+      startNewRun(selectedChar, seed);
     }
   };
 
@@ -94,6 +96,20 @@ export function CharacterSelect() {
               </div>
             </div>
 
+            <div className="flex items-center justify-center gap-3 mb-6">
+              <label htmlFor="run-seed" className="text-gray-400 text-sm">🌱 Seed (optional)</label>
+              <input
+                id="run-seed"
+                type="text"
+                value={seed}
+                maxLength={20}
+                placeholder="random"
+                onChange={(e) => setSeed(e.target.value.replace(/[^a-z0-9-]/gi, ''))}
+                onKeyDown={(e) => e.key === 'Enter' && handleStartRun()}
+                className="w-56 px-3 py-2 rounded bg-black/60 border border-gray-600 focus:border-yellow-500 outline-none font-mono text-white"
+              />
+            </div>
+
             <Button variant="gold" size="lg" onClick={handleStartRun}>
               Begin Descent
             </Button>
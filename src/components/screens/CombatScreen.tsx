@@ -1,13 +1,13 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { clsx } from 'clsx';
 import { Button } from '@/components/ui/Button';
 import { Panel } from '@/components/ui/Panel';
 import { Card } from '@/components/game/Card';
-import { StatusDisplay, BlockDisplay } from '@/components/game/StatusEffects';
+import { StatusDisplay, BlockDisplay, PowerDisplay } from '@/components/game/StatusEffects';
 import { HpBar, EnergyDisplay } from '@/components/ui/ProgressBar';
 import { PotionBar, RelicBar, GoldDisplay } from '@/components/game/Inventory';
 import { useGameStore } from '@/stores/gameStore';
-import type { Card as CardType, Enemy, Player } from '@/types';
+import type { ActivePower, Card as CardType, Enemy, Player } from '@/types';
 
 export function CombatScreen() {
   const {
@@ -15,6 +15,8 @@ export function CombatScreen() {
     combat,
     playCard,
     endPlayerTurn,
+    undoCombatAction,
+    combatUndo,
     setShowDeckView
   } = useGameStore();
 
@@ -24,13 +26,16 @@ export function CombatScreen() {
   // Handle card selection (click)
   const handleCardClick = useCallback((card: CardType, index: number) => {
     if (!combat?.isPlayerTurn) return;
-    if (card.cost > player.energy && !card.isXCost) return;
+    if (card.unplayable || (card.cost > player.energy && !card.isXCost)) return;
 
     if (card.targetType === 'SINGLE_ENEMY') {
       setSelectedCardIndex(index);
-      // If only one enemy, auto-target
-      if (combat.enemies.length === 1) {
-        playCard(index, 0);
+      // If only one enemy is left, auto-target it
+      const aliveIndices = combat.enemies
+        .map((enemy, enemyIndex) => (enemy.currentHp > 0 && !enemy.escaped ? enemyIndex : -1))
+        .filter(enemyIndex => enemyIndex !== -1);
+      if (aliveIndices.length === 1) {
+        playCard(index, aliveIndices[0]);
         setSelectedCardIndex(null);
       }
     } else {
@@ -42,7 +47,7 @@ export function CombatScreen() {
   // Handle card drag start
   const handleCardDragStart = useCallback((index: number, card: CardType) => {
     if (!combat?.isPlayerTurn) return;
-    if (card.cost > player.energy && !card.isXCost) return;
+    if (card.unplayable || (card.cost > player.energy && !card.isXCost)) return;
 
     setDraggingCardIndex(index);
   }, [combat?.isPlayerTurn, player.energy]);
@@ -78,6 +83,21 @@ export function CombatScreen() {
     endPlayerTurn();
   }, [combat, endPlayerTurn]);
 
+  // Undo the last card play (Z or Ctrl+Z)
+  const handleUndo = useCallback(() => {
+    if (undoCombatAction()) {
+      setSelectedCardIndex(null);
+    }
+  }, [undoCombatAction]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'z') handleUndo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [handleUndo]);
+
   // Cancel targeting
   const handleCancelTarget = useCallback(() => {
     setSelectedCardIndex(null);
@@ -102,6 +122,7 @@ export function CombatScreen() {
       {/* Top Bar - Player Info */}
       <TopBar
         player={player}
+        powers={combat.powers}
         onShowDeck={() => setShowDeckView(true, 'DECK')}
         onShowDraw={() => setShowDeckView(true, 'DRAW')}
         onShowDiscard={() => setShowDeckView(true, 'DISCARD')}
@@ -113,7 +134,8 @@ export function CombatScreen() {
       <div className="flex-1 flex flex-col">
         {/* Enemy Area */}
         <div className="flex-1 flex items-center justify-center gap-8 p-8">
-          {combat.enemies.map((enemy, index) => (
+          {/* Dead and escaped enemies stay in the list so target indices remain stable */}
+          {combat.enemies.map((enemy, index) => enemy.currentHp > 0 && !enemy.escaped && (
             <EnemyDisplay
               key={`enemy-${index}`}
               enemy={enemy}
@@ -152,6 +174,15 @@ export function CombatScreen() {
             >
               End Turn
             </Button>
+
+            <Button
+              variant="secondary"
+              onClick={handleUndo}
+              disabled={combatUndo.length === 0}
+              title="Undo (Z)"
+            >
+              ↩️ Undo
+            </Button>
           </Panel>
         </div>
 
@@ -197,6 +228,7 @@ export function CombatScreen() {
 // Top Bar Component
 interface TopBarProps {
   player: Player;
+  powers: ActivePower[];
   onShowDeck: () => void;
   onShowDraw: () => void;
   onShowDiscard: () => void;
@@ -204,7 +236,7 @@ interface TopBarProps {
   discardCount: number;
 }
 
-function TopBar({ player, onShowDeck, onShowDraw, onShowDiscard, drawCount, discardCount }: TopBarProps) {
+function TopBar({ player, powers, onShowDeck, onShowDraw, onShowDiscard, drawCount, discardCount }: TopBarProps) {
   return (
     <div className="bg-panel-dark/90 backdrop-blur border-b border-gray-700 px-6 py-3">
       <div className="flex items-center justify-between">
@@ -222,6 +254,7 @@ function TopBar({ player, onShowDeck, onShowDraw, onShowDiscard, drawCount, disc
             <BlockDisplay block={player.block} size="md" />
           )}
           <StatusDisplay effects={player.statusEffects} compact />
+          <PowerDisplay powers={powers} />
         </div>
 
         {/* Center - Relics */}
@@ -348,6 +381,8 @@ function IntentDisplay({ intent }: { intent: Enemy['currentIntent'] }) {
     DEBUFF: '⬇️',
     UNKNOWN: '❓',
     STUN: '💫',
+    ESCAPE: '💨',
+    SLEEP: '💤',
   };
 
   return (
@@ -407,7 +442,7 @@ function HandDisplay({
   return (
     <div className="absolute bottom-0 left-1/2 -translate-x-1/2 flex items-end justify-center h-full pt-8">
       {hand.map((card, index) => {
-        const isPlayable = isPlayerTurn && (card.cost <= energy || card.isXCost);
+        const isPlayable = isPlayerTurn && !card.unplayable && (card.cost <= energy || card.isXCost);
         const isSelected = selectedIndex === index;
         const isDragging = draggingIndex === index;
         const canDrag = isPlayable && (card.targetType === 'SINGLE_ENEMY' || card.targetType === 'ALL_ENEMIES');
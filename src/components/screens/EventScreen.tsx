@@ -3,27 +3,11 @@ import { Button } from '@/components/ui/Button';
 import { Panel } from '@/components/ui/Panel';
 import { HpBar } from '@/components/ui/ProgressBar';
 import { useGameStore } from '@/stores/gameStore';
-import type { GameEvent, EventChoice, EventOutcome, Card, Relic, Potion, Enemy, StatusEffects } from '@/types';
+import { RNG } from '@/systems/RNG';
+import { createEmptyStatusEffects } from '@/engine/statusEffects';
+import type { GameEvent, EventChoice, EventOutcome, Card, Relic, Potion, Enemy } from '@/types';
 import { clsx } from 'clsx';
 
-// ============================================
-// HELPER: Default Status Effects
-// ============================================
-const createDefaultStatusEffects = (): StatusEffects => ({
-  strength: 0,
-  dexterity: 0,
-  weak: 0,
-  vulnerable: 0,
-  frail: 0,
-  poison: 0,
-  artifact: 0,
-  platedArmor: 0,
-  thorns: 0,
-  ritual: 0,
-  intangible: 0,
-  block: 0,
-});
-
 // ============================================
 // CARD POOL FOR REWARDS
 // ============================================
@@ -168,7 +152,7 @@ const createAmbushEnemy = (floor: number): Enemy => {
     currentHp: baseHp,
     type: 'normal',
     block: 0,
-    statusEffects: createDefaultStatusEffects(),
+    statusEffects: createEmptyStatusEffects(),
     currentIntent: { type: 'ATTACK', value: 10 },
     moves: [
       { name: 'Surprise Attack', intent: { type: 'ATTACK', value: 10 }, weight: 2, actions: [{ type: 'DAMAGE', value: 10 }] },
@@ -186,7 +170,7 @@ const createEliteAmbushEnemy = (floor: number): Enemy => {
     currentHp: baseHp,
     type: 'elite',
     block: 0,
-    statusEffects: createDefaultStatusEffects(),
+    statusEffects: createEmptyStatusEffects(),
     currentIntent: { type: 'ATTACK', value: 15 },
     moves: [
       { name: 'Laser Beam', intent: { type: 'ATTACK', value: 15 }, weight: 2, actions: [{ type: 'DAMAGE', value: 15 }] },
@@ -648,11 +632,11 @@ export function EventScreen() {
   const [upgradesRemaining, setUpgradesRemaining] = useState(0);
 
   useEffect(() => {
-    const randomEvent = EVENTS[Math.floor(Math.random() * EVENTS.length)];
+    const randomEvent = EVENTS[RNG.get('events').nextInt(EVENTS.length)];
     setCurrentEvent(randomEvent);
   }, []);
 
-  const getRandom = <T,>(arr: T[]): T => arr[Math.floor(Math.random() * arr.length)];
+  const getRandom = <T,>(arr: T[]): T => arr[RNG.get('events').nextInt(arr.length)];
   
   const getRandomCard = (type?: 'ATTACK' | 'SKILL' | 'POWER', rarity?: string): Card => {
     let cards = Object.values(REWARD_CARDS);
@@ -678,7 +662,7 @@ export function EventScreen() {
   const resolveOutcome = (outcomes: EventOutcome[]): EventOutcome => {
     if (outcomes.length === 1) return outcomes[0];
     const totalWeight = outcomes.reduce((sum, o) => sum + (o.weight || 100), 0);
-    let roll = Math.random() * totalWeight;
+    let roll = RNG.random('events') * totalWeight;
     for (const outcome of outcomes) {
       roll -= outcome.weight || 100;
       if (roll <= 0) return outcome;
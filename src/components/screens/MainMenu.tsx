@@ -4,6 +4,8 @@ import { useGameStore } from '@/stores/gameStore';
 
 export function MainMenu() {
   const setScreen = useGameStore(s => s.setScreen);
+  const continueRun = useGameStore(s => s.continueRun);
+  const hasSavedRun = useGameStore(s => s.hasSavedRun);
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-black via-gray-900 to-black flex flex-col items-center justify-center p-8">
@@ -43,7 +45,8 @@ export function MainMenu() {
             variant="secondary"
             size="lg"
             fullWidth
-            disabled
+            disabled={!hasSavedRun()}
+            onClick={() => continueRun()}
           >
             📜 Continue
           </Button>
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/Button';
 import { Panel } from '@/components/ui/Panel';
 import { Card } from '@/components/game/Card';
 import { useGameStore } from '@/stores/gameStore';
+import { RNG } from '@/systems/RNG';
 import type { Card as CardType, Relic, Potion } from '@/types';
 
 interface Reward {
@@ -16,18 +17,15 @@ interface Reward {
 }
 
 export function RewardScreen() {
-  const { addGold, addCardToDeck, addRelic, addPotion, setScreen } = useGameStore();
+  const { addGold, addCardToDeck, rollCardRewards, addRelic, addPotion, setScreen } = useGameStore();
   
   // Generate rewards (would come from combat result in full implementation)
   const [rewards, setRewards] = useState<Reward[]>(() => [
-    { type: 'gold', value: 25 + Math.floor(Math.random() * 25), claimed: false },
-    { 
-      type: 'card', 
-      cards: generateCardRewards(), 
-      claimed: false 
-    },
+    { type: 'gold', value: 25 + RNG.get('monsters').nextInt(25), claimed: false },
+    // Cards are rolled when the reward is opened
+    { type: 'card', claimed: false },
     // Random chance for potion
-    ...(Math.random() > 0.6 ? [{ 
+    ...(RNG.random('potions') > 0.6 ? [{ 
       type: 'potion' as const, 
       potion: generatePotionReward(), 
       claimed: false 
@@ -46,8 +44,12 @@ export function RewardScreen() {
     }
   };
 
-  // Show card selection
+  // Show card selection, rolling the cards the first time
   const openCardSelection = (index: number) => {
+    if (!rewards[index].cards) {
+      const cards = rollCardRewards(getCardRewardPool());
+      setRewards(prev => prev.map((r, i) => (i === index ? { ...r, cards } : r)));
+    }
     setSelectedCardReward(index);
     setShowCardSelection(true);
   };
@@ -256,7 +258,7 @@ function CardSelectionModal({ cards, onSelect, onSkip }: CardSelectionModalProps
 }
 
 // Helper functions for generating rewards
-function generateCardRewards(): CardType[] {
+function getCardRewardPool(): CardType[] {
   // Pool of cards that can appear as rewards
   const cardPool: CardType[] = [
     // ===== COMMON ATTACKS =====
@@ -554,28 +556,7 @@ function generateCardRewards(): CardType[] {
     },
   ];
 
-  // Weight by rarity - Common appears more often
-  const weightedCards: CardType[] = [];
-  cardPool.forEach(c => {
-    const weight = c.rarity === 'COMMON' ? 3 : c.rarity === 'UNCOMMON' ? 2 : 1;
-    for (let i = 0; i < weight; i++) {
-      weightedCards.push(c);
-    }
-  });
-
-  // Randomly select 3 cards from weighted pool
-  const shuffled = [...weightedCards].sort(() => Math.random() - 0.5);
-  // Get unique cards only
-  const unique: CardType[] = [];
-  const seen = new Set<string>();
-  for (const card of shuffled) {
-    if (!seen.has(card.id)) {
-      seen.add(card.id);
-      unique.push(card);
-      if (unique.length >= 3) break;
-    }
-  }
-  return unique;
+  return cardPool;
 }
 
 function generatePotionReward(): Potion {
@@ -758,5 +739,5 @@ function generatePotionReward(): Potion {
     }
   });
   
-  return weightedPotions[Math.floor(Math.random() * weightedPotions.length)];
+  return RNG.get('potions').pick(weightedPotions)!;
 }
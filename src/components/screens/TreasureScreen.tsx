@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { Button } from '@/components/ui/Button';
+import { Panel } from '@/components/ui/Panel';
+import { RelicDisplay } from '@/components/game/Inventory';
+import { useGameStore } from '@/stores/gameStore';
+import { TreasureSystem, type ChestContents } from '@/systems/TreasureSystem';
+import { DataLoader } from '@/utils/DataLoader';
+
+export function TreasureScreen() {
+  const { player, map, currentRoomIndex, addGold, addRelic, addCardToDeck, setScreen } = useGameStore();
+
+  // Rooms from before chests were rolled get one now
+  const [size] = useState(() => map[currentRoomIndex]?.chest ?? TreasureSystem.rollChestSize());
+  const chest = DataLoader.getChest(size);
+
+  const [contents, setContents] = useState<ChestContents | null>(null);
+  const [opening, setOpening] = useState(false);
+  const [tradeTaken, setTradeTaken] = useState(false);
+
+  // Shake the chest, then hand out what is inside
+  const openChest = () => {
+    if (opening || contents) return;
+    setOpening(true);
+    setTimeout(() => {
+      const opened = TreasureSystem.openChest(size, player.relics);
+      if (opened.gold > 0) addGold(opened.gold);
+      opened.relics.forEach((relic) => addRelic(relic));
+      setContents(opened);
+      setOpening(false);
+    }, 400);
+  };
+
+  const takeTrade = () => {
+    if (!contents?.trade || tradeTaken) return;
+    addRelic(contents.trade.relic);
+    addCardToDeck(contents.trade.curse);
+    setTradeTaken(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-900 via-amber-950/20 to-black flex items-center justify-center p-8">
+      <Panel className="w-full max-w-2xl" border="gold">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-game text-yellow-400 mb-2">Treasure!</h1>
+          <p className="text-gray-400">{chest.name}</p>
+        </div>
+
+        {/* Chest */}
+        <div className="text-center mb-8">
+          <button
+            onClick={openChest}
+            disabled={contents !== null}
+            className={clsx(
+              'text-8xl transition-all duration-300',
+              !contents && !opening && 'animate-pulse cursor-pointer hover:scale-110',
+              opening && 'animate-bounce',
+              contents && 'opacity-40 scale-75 cursor-default'
+            )}
+          >
+            {chest.icon}
+          </button>
+          {!contents && !opening && (
+            <p className="text-gray-500 text-sm mt-2">Click the chest to open it</p>
+          )}
+        </div>
+
+        {/* Contents */}
+        {contents && (
+          <div className="space-y-4 mb-8">
+            {contents.gold > 0 && (
+              <p className="text-center text-2xl font-bold text-yellow-400">+{contents.gold} Gold</p>
+            )}
+            {contents.relics.map((relic) => (
+              <div key={relic.id} className="flex items-center gap-4 p-4 rounded-lg border-2 bg-panel-light border-gray-600">
+                <RelicDisplay relic={relic} />
+                <div>
+                  <p className="text-purple-400 font-bold">{relic.name}</p>
+                  <p className="text-gray-400 text-sm">{relic.description}</p>
+                </div>
+              </div>
+            ))}
+            {contents.relics.length === 0 && (
+              <p className="text-center text-gray-500">The chest is empty.</p>
+            )}
+            {contents.trade && (
+              <div className="flex items-center gap-4 p-4 rounded-lg border-2 bg-red-950/40 border-red-800">
+                <RelicDisplay relic={contents.trade.relic} />
+                <div className="flex-1">
+                  <p className="text-purple-400 font-bold">{contents.trade.relic.name}</p>
+                  <p className="text-gray-400 text-sm">{contents.trade.relic.description}</p>
+                </div>
+                <Button variant="primary" size="sm" onClick={takeTrade} disabled={tradeTaken}>
+                  {tradeTaken ? 'Taken' : `Take (+${contents.trade.curse.name})`}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Continue Button */}
+        <div className="text-center">
+          <Button variant={contents ? 'gold' : 'secondary'} size="lg" onClick={() => setScreen('MAP')}>
+            {contents ? 'Continue' : 'Leave It'}
+          </Button>
+        </div>
+      </Panel>
+    </div>
+  );
+}
@@ -0,0 +1,1282 @@
+import { Card, CardEffect, Enemy, EnemyAction, EnemyActionTarget, EnemyMove, Potion, RelicEffect, StatusDecay, StatusEffects, TargetType } from '@/types';
+import { RNG, SeededRandom } from '@/systems/RNG';
+import { DataLoader } from '@/utils/DataLoader';
+import { ModifierContext, ModifierParty, calculateBlock, calculateDamage } from './modifiers';
+import { normalizeRelicEffect } from './relicEffects';
+import { StatusEffectApi, StatusHookContext, StatusHooks, StatusRegistry, createEmptyStatusEffects } from './statusEffects';
+import { PowerTrigger, addPower, findPowerEffects, hasPassivePower, isPowerEffect } from './powers';
+import { normalizeEnemyAction } from './enemyActions';
+import { selectEnemyMove } from './enemyAI';
+import {
+  CombatAction,
+  CombatantRef,
+  CombatEnemyState,
+  CombatEngineState,
+  CombatEvent,
+  CombatPlayerState,
+  CombatResult,
+  CombatRngState,
+} from './types';
+
+const HAND_SIZE = 5;
+const MAX_HAND_SIZE = 10;
+/** SPAWN does nothing while this many enemies are still fighting */
+const MAX_ENEMIES = 5;
+
+export interface CreateCombatOptions {
+  player: Omit<CombatPlayerState, 'powers'>;
+  enemies: Enemy[];
+  deck: Card[];
+  seeds: CombatRngState;
+  /** Selects per-ascension enemy AI variants (defaults to 0) */
+  ascension?: number;
+}
+
+/**
+ * CombatEngine is the single implementation of the combat rules. It takes a
+ * combat state plus an action and returns the next state and the events that
+ * happened, without mutating its input. CombatManager (Phaser) and the game
+ * store (React) are thin adapters around it.
+ */
+export class CombatEngine {
+  /**
+   * Build the initial state for a combat. Call apply() with START_COMBAT next.
+   */
+  static createState(options: CreateCombatOptions): CombatEngineState {
+    return {
+      player: {
+        ...options.player,
+        statusEffects: { ...options.player.statusEffects },
+        relics: options.player.relics.map((relic) => ({ ...relic, counter: relic.counter ?? 0 })),
+        powers: [],
+      },
+      enemies: options.enemies.map(createEnemyState),
+      hand: [],
+      drawPile: [...options.deck],
+      discardPile: [],
+      exhaustPile: [],
+      turn: 0,
+      isPlayerTurn: false,
+      combatEnded: false,
+      victory: false,
+      tracking: {
+        cardsPlayed: 0,
+        attacksThisTurn: 0,
+        skillsThisTurn: 0,
+        powersPlayed: 0,
+        shuffles: 0,
+        attacksPlayed: 0,
+        playerHitsTaken: 0,
+      },
+      rng: { ...options.seeds },
+      ascension: options.ascension ?? 0,
+    };
+  }
+
+  /**
+   * Derive combat seeds from the run's RNG streams, so combats stay
+   * reproducible from the run seed
+   */
+  static seedsFromRun(): CombatRngState {
+    return {
+      shuffle: RNG.get('shuffle').nextInt(0x100000000),
+      monsters: RNG.get('monsters').nextInt(0x100000000),
+      cards: RNG.get('cards').nextInt(0x100000000),
+    };
+  }
+
+  /**
+   * Apply an action to a state
+   */
+  static apply(state: CombatEngineState, action: CombatAction): CombatResult {
+    const context = new CombatContext(state);
+
+    switch (action.type) {
+      case 'START_COMBAT':
+        context.startCombat();
+        break;
+      case 'PLAY_CARD':
+        context.playCard(action.cardIndex, action.targetIndex);
+        break;
+      case 'USE_POTION':
+        context.usePotion(action.potion, action.targetIndex);
+        break;
+      case 'DISCARD_CARD':
+        context.discardCard(action.cardIndex);
+        break;
+      case 'DRAW_CARDS':
+        context.drawCards(action.count);
+        break;
+      case 'END_TURN':
+        context.endTurn();
+        break;
+    }
+
+    return context.finish();
+  }
+
+  /**
+   * Indices of enemies that are still alive
+   */
+  static getAliveEnemyIndices(state: CombatEngineState): number[] {
+    return state.enemies
+      .map((enemy, index) => (enemy.currentHp > 0 && !enemy.escaped ? index : -1))
+      .filter((index) => index !== -1);
+  }
+
+  /**
+   * Whether a card can be played right now (turn, energy and target)
+   */
+  static canPlayCard(state: CombatEngineState, cardIndex: number, targetIndex: number | null): boolean {
+    return CombatContext.validatePlay(state, cardIndex, targetIndex) === null;
+  }
+
+  /**
+   * Whether an applied action may be taken back: a card play or potion that
+   * didn't end combat or reveal anything new (a card drawn from the draw
+   * pile, or any random roll).
+   */
+  static isUndoable(action: CombatAction, before: CombatEngineState, result: CombatResult): boolean {
+    if (action.type !== 'PLAY_CARD' && action.type !== 'USE_POTION') return false;
+    if (result.state.combatEnded) return false;
+
+    const drewCards = result.events.some((event) => event.type === 'CARD_DRAWN' || event.type === 'DECK_SHUFFLED');
+    const rolled = (Object.keys(before.rng) as (keyof CombatRngState)[]).some(
+      (stream) => before.rng[stream] !== result.state.rng[stream]
+    );
+    return !drewCards && !rolled;
+  }
+}
+
+/**
+ * Mutable working copy of a state for the duration of one action
+ */
+class CombatContext {
+  private state: CombatEngineState;
+  private events: CombatEvent[] = [];
+  private rng: Record<keyof CombatRngState, SeededRandom>;
+  /** The card being resolved, so modifiers can see what dealt the damage */
+  private activeCard: Card | null = null;
+  /** Power triggers currently resolving, so e.g. block from an onBlockGained power can't loop */
+  private resolvingPowers: Set<PowerTrigger> = new Set();
+  private statusApi: StatusEffectApi = {
+    applyStatus: (target, status, amount) => this.applyStatus(target, status, amount),
+    gainBlock: (target, amount) => this.gainBlock(target, amount),
+    dealDamage: (source, target, amount) => this.dealDamage(source, target, amount, false),
+    loseHp: (target, amount) => this.loseHp(target, amount),
+  };
+
+  constructor(state: CombatEngineState) {
+    this.state = cloneState(state);
+    this.rng = {
+      shuffle: new SeededRandom(state.rng.shuffle),
+      monsters: new SeededRandom(state.rng.monsters),
+      cards: new SeededRandom(state.rng.cards),
+    };
+  }
+
+  finish(): CombatResult {
+    this.state.rng = {
+      shuffle: this.rng.shuffle.getState(),
+      monsters: this.rng.monsters.getState(),
+      cards: this.rng.cards.getState(),
+    };
+    return { state: this.state, events: this.events };
+  }
+
+  /**
+   * Returns why a card cannot be played, or null if it can
+   */
+  static validatePlay(state: CombatEngineState, cardIndex: number, targetIndex: number | null): string | null {
+    if (state.combatEnded) return 'Combat has ended';
+    if (!state.isPlayerTurn) return 'Not your turn';
+
+    const card = state.hand[cardIndex];
+    if (!card) return 'Card is not in hand';
+    if (card.unplayable) return 'Card is unplayable';
+    if (!card.isXCost && card.cost > state.player.energy) return 'Not enough energy';
+
+    if (card.targetType === 'SINGLE_ENEMY') {
+      if (targetIndex === null || !CombatEngine.getAliveEnemyIndices(state).includes(targetIndex)) return 'Invalid target';
+    }
+
+    return null;
+  }
+
+  // ===== Actions =====
+
+  startCombat(): void {
+    const { state } = this;
+    state.turn = 1;
+    state.isPlayerTurn = true;
+    state.combatEnded = false;
+    state.victory = false;
+    state.player.block = 0;
+    state.player.energy = state.player.maxEnergy;
+
+    // Innate cards start in hand, the rest is shuffled into the draw pile
+    const innateCards = state.drawPile.filter((card) => card.innate);
+    state.drawPile = this.rng.shuffle.shuffle(state.drawPile.filter((card) => !card.innate));
+    state.hand = [];
+
+    state.enemies.forEach((_, index) => this.rollEnemyMove(index));
+
+    this.emit({ type: 'COMBAT_STARTED' });
+    this.triggerRelics('onCombatStart');
+    this.triggerRelics('onFirstTurn');
+
+    innateCards.forEach((card) => {
+      state.hand.push(card);
+      this.emit({ type: 'CARD_DRAWN', card });
+    });
+    this.drawCards(Math.max(0, HAND_SIZE - state.hand.length));
+
+    this.emit({ type: 'TURN_STARTED', turn: state.turn });
+  }
+
+  playCard(cardIndex: number, targetIndex: number | null): void {
+    const rejection = CombatContext.validatePlay(this.state, cardIndex, targetIndex);
+    if (rejection) {
+      this.reject(rejection);
+      return;
+    }
+
+    const { state } = this;
+    const card = state.hand[cardIndex];
+
+    // X-cost cards consume all available energy
+    const energySpent = card.isXCost ? state.player.energy : card.cost;
+    state.player.energy -= energySpent;
+    state.hand.splice(cardIndex, 1);
+    state.tracking.cardsPlayed++;
+
+    if (card.type === 'ATTACK') {
+      state.tracking.attacksThisTurn++;
+      state.tracking.attacksPlayed++;
+      if (state.tracking.attacksPlayed === 1) {
+        this.triggerRelics('onFirstAttack');
+      }
+      this.triggerRelics('onAttackPlayed');
+    } else if (card.type === 'SKILL') {
+      state.tracking.skillsThisTurn++;
+      this.triggerRelics('onSkillPlayed');
+    } else if (card.type === 'POWER') {
+      state.tracking.powersPlayed++;
+      this.triggerRelics('onPowerPlayed');
+    }
+
+    // Ongoing Power effects wait for their trigger instead of resolving now
+    this.activeCard = card;
+    card.effects.forEach((effect) => {
+      if (!state.combatEnded && !(card.type === 'POWER' && isPowerEffect(effect))) {
+        this.executeEffect(effect, card.targetType, targetIndex, energySpent);
+      }
+    });
+    this.activeCard = null;
+
+    this.triggerRelics('onCardPlayed');
+    this.triggerPowers('onCardPlayed');
+
+    // Powers leave the piles for the rest of combat
+    if (card.type === 'POWER') {
+      state.player.powers = addPower(state.player.powers, card);
+      const power = state.player.powers.find((p) => p.id === card.id);
+      if (power) {
+        this.emit({ type: 'POWER_APPLIED', power });
+      }
+    } else if (card.exhaust) {
+      this.exhaustCard(card);
+    } else {
+      state.discardPile.push(card);
+    }
+
+    this.emit({ type: 'CARD_PLAYED', card, targetIndex });
+    this.checkCombatEnd();
+  }
+
+  usePotion(potion: Potion, targetIndex: number | null): void {
+    if (this.state.combatEnded) {
+      this.reject('Combat has ended');
+      return;
+    }
+
+    if (potion.targetType === 'SINGLE_ENEMY') {
+      if (targetIndex === null || !CombatEngine.getAliveEnemyIndices(this.state).includes(targetIndex)) {
+        this.reject('Invalid target');
+        return;
+      }
+    }
+
+    potion.effects.forEach((effect) => {
+      this.executeEffect(effect, potion.targetType, targetIndex, 0);
+    });
+
+    this.emit({ type: 'POTION_USED', potion, targetIndex });
+    this.checkCombatEnd();
+  }
+
+  discardCard(cardIndex: number): void {
+    const card = this.state.hand[cardIndex];
+    if (!card) {
+      this.reject('Card is not in hand');
+      return;
+    }
+
+    this.state.hand.splice(cardIndex, 1);
+    this.state.discardPile.push(card);
+    this.emit({ type: 'CARD_DISCARDED', card });
+    this.triggerRelics('onCardDiscarded');
+    this.checkCombatEnd();
+  }
+
+  drawCards(count: number): void {
+    const { state } = this;
+
+    for (let i = 0; i < count; i++) {
+      if (state.hand.length >= MAX_HAND_SIZE) break;
+
+      // Shuffle discard if draw pile is empty
+      if (state.drawPile.length === 0) {
+        if (state.discardPile.length === 0) break;
+        this.shuffleDiscardIntoDrawPile();
+      }
+
+      const card = state.drawPile.pop();
+      if (card) {
+        state.hand.push(card);
+        this.emit({ type: 'CARD_DRAWN', card });
+      }
+    }
+  }
+
+  endTurn(): void {
+    const { state } = this;
+    if (state.combatEnded || !state.isPlayerTurn) {
+      this.reject('Not your turn');
+      return;
+    }
+
+    this.triggerRelics('onTurnEnd');
+    this.triggerPowers('onTurnEnd');
+    this.runStatusTurnEnd('player');
+    state.isPlayerTurn = false;
+
+    this.executeEnemyTurn();
+    this.checkCombatEnd();
+
+    if (!state.combatEnded) {
+      this.startPlayerTurn();
+    }
+  }
+
+  // ===== Turn flow =====
+
+  private startPlayerTurn(): void {
+    const { state } = this;
+    state.turn++;
+    state.isPlayerTurn = true;
+    state.tracking.attacksThisTurn = 0;
+    state.tracking.skillsThisTurn = 0;
+    state.player.energy = state.player.maxEnergy;
+    // Block doesn't carry over unless a power (e.g. Barricade) keeps it
+    if (!hasPassivePower(state.player.powers, 'RETAIN_ALL_BLOCK')) {
+      state.player.block = 0;
+    }
+
+    this.runStatusTurnStart('player');
+    if (state.player.currentHp <= 0) {
+      this.checkCombatEnd();
+      return;
+    }
+
+    this.triggerRelics('onTurnStart');
+
+    // Retain cards stay, ethereal cards are exhausted, everything else is discarded
+    const hand = state.hand;
+    state.hand = [];
+    hand.forEach((card) => {
+      if (card.retain) {
+        state.hand.push(card);
+      } else if (card.ethereal) {
+        this.exhaustCard(card);
+      } else {
+        state.discardPile.push(card);
+        this.emit({ type: 'CARD_DISCARDED', card });
+      }
+    });
+
+    this.drawCards(Math.max(0, HAND_SIZE - state.hand.length));
+    this.triggerPowers('onTurnStart');
+    this.emit({ type: 'TURN_STARTED', turn: state.turn });
+  }
+
+  private executeEnemyTurn(): void {
+    this.state.enemies.forEach((enemy, index) => {
+      if (enemy.currentHp <= 0 || enemy.escaped || this.state.player.currentHp <= 0) return;
+
+      enemy.block = 0; // Block doesn't carry over
+
+      this.runStatusTurnStart(index);
+      if (enemy.currentHp <= 0) return;
+
+      const move = enemy.currentMove;
+      if (move) {
+        this.emit({ type: 'ENEMY_MOVE', enemyIndex: index, move: move.name });
+        move.actions.forEach((action) => {
+          // Thorns can kill an enemy partway through its move
+          if (enemy.currentHp > 0 && !enemy.escaped && this.state.player.currentHp > 0) {
+            this.executeEnemyAction(index, action, move);
+          }
+        });
+      }
+
+      if (enemy.currentHp <= 0 || enemy.escaped) return;
+      // A phase triggered during the move may already have chosen the next one
+      if (enemy.currentMove === move) {
+        this.rollEnemyMove(index);
+      }
+      this.runStatusTurnEnd(index);
+    });
+  }
+
+  /**
+   * Run one action of an enemy's move (see enemyActions.ts for the vocabulary)
+   */
+  private executeEnemyAction(enemyIndex: number, action: EnemyAction, move: EnemyMove): void {
+    const normalized = normalizeEnemyAction(action);
+    if (!normalized) {
+      console.warn(`Unknown enemy action: ${action.type}`);
+      return;
+    }
+
+    const enemy = this.state.enemies[enemyIndex];
+    const { value } = normalized;
+    const targets = this.enemyActionTargets(enemyIndex, normalized.target);
+
+    switch (normalized.type) {
+      case 'DAMAGE': {
+        const hits = normalized.times ?? move.intent.times ?? 1;
+        for (let i = 0; i < hits && enemy.currentHp > 0 && this.state.player.currentHp > 0; i++) {
+          targets.forEach((target) => this.dealDamage(enemyIndex, target, value));
+        }
+        break;
+      }
+
+      case 'GAIN_BLOCK':
+        targets.forEach((target) => this.gainBlock(target, value));
+        break;
+
+      case 'HEAL':
+        targets.forEach((target) => this.heal(value, target));
+        break;
+
+      case 'APPLY_STATUS':
+        if (normalized.status) {
+          targets.forEach((target) => this.applyStatus(target, normalized.status!, value));
+        }
+        break;
+
+      case 'ADD_CARD':
+        this.addStatusCards(normalized.card ?? '', value, normalized.pile ?? 'DISCARD');
+        break;
+
+      case 'STEAL_GOLD': {
+        const stolen = Math.min(this.state.player.gold, value);
+        this.state.player.gold -= stolen;
+        enemy.stolenGold += stolen;
+        this.emit({ type: 'GOLD_STOLEN', enemyIndex, amount: stolen });
+        break;
+      }
+
+      case 'ESCAPE':
+        enemy.escaped = true;
+        this.emit({ type: 'ENEMY_ESCAPED', enemyIndex });
+        break;
+
+      case 'SPAWN':
+        (normalized.enemies ?? []).forEach((id) => {
+          if (CombatEngine.getAliveEnemyIndices(this.state).length < MAX_ENEMIES) {
+            this.spawnEnemy(id);
+          }
+        });
+        break;
+
+      case 'SPLIT': {
+        const into = (normalized.enemies ?? [])
+          .map((id) => this.spawnEnemy(id, enemy.currentHp))
+          .filter((index): index is number => index !== null);
+        enemy.currentHp = 0;
+        enemy.split = true;
+        this.emit({ type: 'ENEMY_SPLIT', enemyIndex, into });
+        break;
+      }
+
+      case 'TRANSFORM':
+        this.transformEnemy(enemyIndex, normalized.form ?? 'base');
+        break;
+    }
+  }
+
+  /**
+   * Bring a new enemy into combat with its first intent rolled. HP defaults to
+   * the enemy's data; splits pass the parent's current HP instead.
+   */
+  private spawnEnemy(id: string, hp?: number): number | null {
+    const data = DataLoader.getEnemyData(id);
+    if (!data) {
+      console.warn(`Unknown enemy: ${id}`);
+      return null;
+    }
+
+    const maxHp = hp ?? data.maxHp;
+    const enemyIndex = this.state.enemies.length;
+    this.state.enemies.push(createEnemyState({
+      ...data,
+      maxHp,
+      currentHp: maxHp,
+      block: 0,
+      statusEffects: createEmptyStatusEffects(),
+      currentIntent: { type: 'UNKNOWN' },
+      spawned: true,
+    }));
+    this.rollEnemyMove(enemyIndex);
+    this.emit({ type: 'ENEMY_SPAWNED', enemyIndex });
+    return enemyIndex;
+  }
+
+  /**
+   * Switch an enemy to another move set. Its move history restarts so the
+   * new form's opening and sequence apply from the top.
+   */
+  private transformEnemy(enemyIndex: number, form: string): void {
+    const enemy = this.state.enemies[enemyIndex];
+    const definition = enemy.forms[form];
+    if (!definition) {
+      console.warn(`Enemy ${enemy.name} has no form: ${form}`);
+      return;
+    }
+
+    enemy.form = form;
+    enemy.moves = definition.moves;
+    enemy.ai = definition.ai;
+    enemy.moveHistory = [];
+    enemy.sequenceIndex = 0;
+    enemy.damageSinceShift = 0;
+    this.emit({ type: 'ENEMY_TRANSFORMED', enemyIndex, form });
+  }
+
+  /**
+   * Check an enemy's HP and damage thresholds after it loses HP
+   */
+  private checkEnemyPhases(enemyIndex: number, hpLost: number): void {
+    const enemy = this.state.enemies[enemyIndex];
+    if (hpLost <= 0 || enemy.currentHp <= 0 || !enemy.phases) return;
+
+    enemy.damageSinceShift += hpLost;
+
+    const phaseIndex = enemy.phases.findIndex((phase, index) => {
+      if (phase.form !== undefined && phase.form !== enemy.form) return false;
+      const triggers = enemy.phaseTriggers[index];
+      if (phase.hpPercent !== undefined) {
+        return triggers === 0 && enemy.currentHp * 100 <= enemy.maxHp * phase.hpPercent;
+      }
+      if (phase.damageTaken !== undefined) {
+        return enemy.damageSinceShift >= phase.damageTaken + (phase.damageTakenIncrease ?? 0) * triggers;
+      }
+      return false;
+    });
+    if (phaseIndex === -1) return;
+
+    const phase = enemy.phases[phaseIndex];
+    enemy.phaseTriggers[phaseIndex]++;
+    enemy.damageSinceShift = 0;
+
+    if (phase.transform) {
+      this.transformEnemy(enemyIndex, phase.transform);
+    }
+
+    // The new intent replaces the one the player has already seen
+    if (phase.move) {
+      this.replaceEnemyMove(enemyIndex, phase.move);
+    } else if (phase.transform) {
+      this.rollEnemyMove(enemyIndex);
+    }
+  }
+
+  private replaceEnemyMove(enemyIndex: number, moveName: string): void {
+    const enemy = this.state.enemies[enemyIndex];
+    const move = enemy.moves.find((m) => m.name === moveName);
+    if (!move) {
+      console.warn(`Enemy ${enemy.name} has no move: ${moveName}`);
+      return;
+    }
+
+    enemy.currentMove = move;
+    enemy.currentIntent = move.intent;
+    enemy.moveHistory[Math.max(0, enemy.moveHistory.length - 1)] = move.name;
+    this.emit({ type: 'ENEMY_INTENT_CHANGED', enemyIndex, move: move.name });
+  }
+
+  private enemyActionTargets(enemyIndex: number, target: EnemyActionTarget): CombatantRef[] {
+    const alive = CombatEngine.getAliveEnemyIndices(this.state);
+
+    switch (target) {
+      case 'PLAYER':
+        return ['player'];
+      case 'ALLIES':
+        return alive.filter((index) => index !== enemyIndex);
+      case 'ALL_ENEMIES':
+        return alive;
+      default:
+        return [enemyIndex];
+    }
+  }
+
+  /**
+   * Pick the enemy's next move from its AI pattern (see enemyAI.ts)
+   */
+  private rollEnemyMove(enemyIndex: number): void {
+    const enemy = this.state.enemies[enemyIndex];
+    const selection = selectEnemyMove(enemy.moves, enemy.ai, enemy, {
+      self: enemy,
+      player: this.state.player,
+      slot: enemyIndex,
+      ascension: this.state.ascension,
+      random: () => this.rng.monsters.next(),
+    });
+
+    if (!selection) {
+      console.warn(`Enemy ${enemy.name} has no moves!`);
+      return;
+    }
+
+    enemy.currentMove = selection.move;
+    enemy.currentIntent = selection.move.intent;
+    enemy.sequenceIndex = selection.sequenceIndex;
+    enemy.moveHistory.push(selection.move.name);
+  }
+
+  // ===== Effects =====
+
+  /**
+   * Execute a single card or potion effect
+   */
+  private executeEffect(effect: CardEffect, defaultTarget: TargetType, targetIndex: number | null, energySpent: number): void {
+    // For X-cost cards, use energySpent as the value if effect value is 0
+    const value = effect.value === 0 && energySpent > 0 ? energySpent : effect.value;
+    const targets = () => this.resolveTargets(effect.target ?? defaultTarget, targetIndex);
+
+    switch (effect.type) {
+      case 'DAMAGE':
+        targets().forEach((index) => this.dealDamage('player', index, value));
+        break;
+
+      case 'DAMAGE_EQUAL_BLOCK':
+        targets().forEach((index) => this.dealDamage('player', index, this.state.player.block));
+        break;
+
+      case 'BLOCK':
+        this.gainPlayerBlock(value);
+        break;
+
+      case 'DRAW':
+        this.drawCards(value);
+        break;
+
+      case 'GAIN_ENERGY':
+        this.gainEnergy(value);
+        break;
+
+      case 'HEAL':
+        this.heal(value);
+        break;
+
+      case 'LOSE_HP':
+        this.loseHp('player', value);
+        break;
+
+      case 'APPLY_VULNERABLE':
+        targets().forEach((index) => this.applyStatus(index, 'vulnerable', value));
+        break;
+
+      case 'APPLY_WEAK':
+        targets().forEach((index) => this.applyStatus(index, 'weak', value));
+        break;
+
+      case 'APPLY_POISON':
+        targets().forEach((index) => this.applyStatus(index, 'poison', value));
+        break;
+
+      case 'APPLY_STRENGTH':
+        this.applyStatus('player', 'strength', value);
+        break;
+
+      case 'APPLY_DEXTERITY':
+      case 'GAIN_DEXTERITY':
+        this.applyStatus('player', 'dexterity', value);
+        break;
+
+      case 'GAIN_ARTIFACT':
+        this.applyStatus('player', 'artifact', value);
+        break;
+
+      case 'GAIN_PLATED_ARMOR':
+        this.applyStatus('player', 'platedArmor', value);
+        break;
+
+      default:
+        console.warn(`Unknown effect type: ${effect.type}`);
+    }
+  }
+
+  /**
+   * Enemy indices an effect applies to
+   */
+  private resolveTargets(targetType: TargetType | string, targetIndex: number | null): number[] {
+    const alive = CombatEngine.getAliveEnemyIndices(this.state);
+
+    switch (targetType) {
+      case 'ALL_ENEMIES':
+        return alive;
+      case 'RANDOM':
+      case 'RANDOM_ENEMY': {
+        const index = this.rng.cards.pick(alive);
+        return index !== undefined ? [index] : [];
+      }
+      default:
+        return targetIndex !== null && alive.includes(targetIndex) ? [targetIndex] : [];
+    }
+  }
+
+  /**
+   * Deal damage through block. Attacks go through the full modifier pipeline
+   * and trigger onAttacked hooks; other damage (e.g. Thorns) does not.
+   */
+  private dealDamage(source: CombatantRef, target: CombatantRef, baseDamage: number, isAttack: boolean = true): void {
+    const defender = this.combatant(target);
+    if (defender.currentHp <= 0) return;
+
+    const calculation = calculateDamage(baseDamage, this.modifierContext(target, isAttack ? source : undefined));
+    const damage = calculation.final;
+    if (isAttack && target === 'player') {
+      this.state.tracking.playerHitsTaken++;
+    }
+
+    // Block absorbs damage
+    const damageAfterBlock = Math.max(0, damage - defender.block);
+    const hpBefore = defender.currentHp;
+    defender.block = Math.max(0, defender.block - damage);
+    defender.currentHp = Math.max(0, defender.currentHp - damageAfterBlock);
+
+    this.emit({ type: 'DAMAGE_DEALT', source, target, amount: damageAfterBlock, calculation });
+
+    if (target !== 'player') {
+      this.checkEnemyPhases(target, hpBefore - defender.currentHp);
+    }
+
+    if (target === 'player' && damageAfterBlock > 0) {
+      this.triggerRelics('onDamageTaken');
+    }
+
+    if (isAttack) {
+      this.runStatusHooks(target, 'onAttacked', (hooks, context) => hooks.onAttacked?.(context, source, damageAfterBlock));
+      if (damageAfterBlock > 0) {
+        this.decayStatuses(target, 'ON_HIT');
+      }
+    }
+  }
+
+  private gainPlayerBlock(baseBlock: number): void {
+    this.gainBlock('player', baseBlock);
+  }
+
+  private gainBlock(target: CombatantRef, baseBlock: number): void {
+    const calculation = calculateBlock(baseBlock, this.modifierContext(target));
+    this.combatant(target).block += calculation.final;
+    this.emit({ type: 'BLOCK_GAINED', target, amount: calculation.final, calculation });
+
+    if (target === 'player' && calculation.final > 0) {
+      this.triggerPowers('onBlockGained');
+    }
+  }
+
+  /**
+   * Everything the damage and block modifiers need to know about a calculation
+   */
+  private modifierContext(target: CombatantRef, source?: CombatantRef): ModifierContext {
+    const party = (ref: CombatantRef): ModifierParty => ({
+      isPlayer: ref === 'player',
+      statusEffects: this.statusesOf(ref),
+    });
+
+    return {
+      source: source !== undefined ? party(source) : undefined,
+      target: party(target),
+      relics: this.state.player.relics,
+      card: this.activeCard ?? undefined,
+      attacksPlayed: this.state.tracking.attacksPlayed,
+      playerHitsTaken: this.state.tracking.playerHitsTaken,
+    };
+  }
+
+  private gainEnergy(amount: number): void {
+    const { player } = this.state;
+    player.energy = Math.min(player.maxEnergy + 10, player.energy + amount); // Cap at max+10
+    this.emit({ type: 'ENERGY_GAINED', amount });
+  }
+
+  private heal(amount: number, target: CombatantRef = 'player'): void {
+    const combatant = this.combatant(target);
+    const healed = Math.min(combatant.maxHp - combatant.currentHp, amount);
+    combatant.currentHp += healed;
+    this.emit({ type: 'HEALED', target, amount: healed });
+  }
+
+  /**
+   * Lose HP directly, bypassing block
+   */
+  private loseHp(target: CombatantRef, amount: number): void {
+    const combatant = this.combatant(target);
+    const lost = Math.min(combatant.currentHp, Math.max(0, amount));
+    combatant.currentHp -= lost;
+    this.emit({ type: 'HP_LOST', target, amount: lost });
+
+    if (target !== 'player') {
+      this.checkEnemyPhases(target, lost);
+    }
+  }
+
+  private applyStatus(target: CombatantRef, status: string, amount: number): void {
+    const definition = StatusRegistry.get(status);
+    if (!definition) {
+      console.warn(`Unknown status: ${status}`);
+      return;
+    }
+
+    // Statuses the target already has may change or cancel the application (e.g. Artifact)
+    let stacks = amount;
+    this.runStatusHooks(target, 'onApply', (hooks, context) => {
+      if (stacks !== 0) {
+        stacks = hooks.onApply?.(context, { status: definition, amount: stacks }) ?? stacks;
+      }
+    });
+    if (stacks === 0) return;
+
+    const statuses = this.statusesOf(target);
+    const current = statuses[status] ?? 0;
+    statuses[status] = definition.stacking === 'MAX' ? Math.max(current, stacks) : current + stacks;
+    this.emit({ type: 'STATUS_APPLIED', target, status, amount: stacks });
+  }
+
+  private runStatusTurnStart(owner: CombatantRef): void {
+    this.runStatusHooks(owner, 'onTurnStart', (hooks, context) => hooks.onTurnStart?.(context));
+    this.decayStatuses(owner, 'TURN_START');
+  }
+
+  private runStatusTurnEnd(owner: CombatantRef): void {
+    this.runStatusHooks(owner, 'onTurnEnd', (hooks, context) => hooks.onTurnEnd?.(context));
+    this.decayStatuses(owner, 'TURN_END');
+  }
+
+  /**
+   * Run a hook for every status the owner currently has
+   */
+  private runStatusHooks(
+    owner: CombatantRef,
+    hook: keyof StatusHooks,
+    run: (hooks: StatusHooks, context: StatusHookContext) => void
+  ): void {
+    const statuses = this.statusesOf(owner);
+    StatusRegistry.getAll().forEach((definition) => {
+      const stacks = statuses[definition.id] ?? 0;
+      const hooks = StatusRegistry.getHooks(definition.id);
+      if (stacks === 0 || !hooks?.[hook] || this.combatant(owner).currentHp <= 0) return;
+      run(hooks, { api: this.statusApi, owner, statuses, stacks });
+    });
+  }
+
+  /**
+   * Statuses with the given decay timing lose one stack
+   */
+  private decayStatuses(owner: CombatantRef, timing: StatusDecay): void {
+    const statuses = this.statusesOf(owner);
+    StatusRegistry.getAll()
+      .filter((definition) => definition.decay === timing && (statuses[definition.id] ?? 0) > 0)
+      .forEach((definition) => {
+        statuses[definition.id]--;
+      });
+  }
+
+  // ===== Piles =====
+
+  /**
+   * Add copies of a status card (Wound, Dazed, Slimed) to one of the player's piles
+   */
+  private addStatusCards(cardId: string, count: number, pile: 'DRAW' | 'DISCARD' | 'HAND'): void {
+    const { state } = this;
+
+    for (let i = 0; i < count; i++) {
+      const card = DataLoader.getStatusCard(cardId);
+      if (!card) {
+        console.warn(`Unknown status card: ${cardId}`);
+        return;
+      }
+
+      if (pile === 'DRAW') {
+        state.drawPile.splice(this.rng.cards.nextInt(state.drawPile.length + 1), 0, card);
+      } else if (pile === 'HAND' && state.hand.length < MAX_HAND_SIZE) {
+        state.hand.push(card);
+      } else {
+        state.discardPile.push(card);
+      }
+      this.emit({ type: 'CARD_CREATED', card, pile });
+    }
+  }
+
+  private exhaustCard(card: Card): void {
+    this.state.exhaustPile.push(card);
+    this.emit({ type: 'CARD_EXHAUSTED', card });
+    this.triggerRelics('onCardExhaust');
+  }
+
+  private shuffleDiscardIntoDrawPile(): void {
+    this.state.drawPile = this.rng.shuffle.shuffle(this.state.discardPile);
+    this.state.discardPile = [];
+    this.state.tracking.shuffles++;
+    this.emit({ type: 'DECK_SHUFFLED' });
+    this.triggerRelics('onShuffle');
+  }
+
+  // ===== Powers =====
+
+  private triggerPowers(trigger: PowerTrigger): void {
+    if (this.resolvingPowers.has(trigger)) return;
+    this.resolvingPowers.add(trigger);
+
+    findPowerEffects(this.state.player.powers, trigger).forEach(({ power, effect, definition }) => {
+      if (this.state.combatEnded) return;
+      this.executeEffect(
+        { type: definition.effect, value: effect.value, target: definition.target ?? effect.target },
+        'SELF',
+        null,
+        0
+      );
+      this.emit({ type: 'POWER_TRIGGERED', powerId: power.id, effect: effect.type });
+    });
+
+    this.resolvingPowers.delete(trigger);
+  }
+
+  // ===== Relics =====
+
+  private triggerRelics(trigger: string): void {
+    this.state.player.relics.forEach((relic, relicIndex) => {
+      relic.effects
+        .map(normalizeRelicEffect)
+        .filter((effect) => effect.trigger === trigger)
+        .forEach((effect) => this.executeRelicEffect(relicIndex, effect));
+    });
+  }
+
+  private executeRelicEffect(relicIndex: number, effect: RelicEffect): void {
+    const relic = this.state.player.relics[relicIndex];
+    const { action } = effect;
+    const value = effect.value || 0;
+
+    // Counter relics fire every N triggers
+    const countTo = (n: number): boolean => {
+      relic.counter = (relic.counter ?? 0) + 1;
+      if (relic.counter < n) return false;
+      relic.counter = 0;
+      return true;
+    };
+
+    const emitTriggered = () => this.emit({ type: 'RELIC_TRIGGERED', relicId: relic.id, action });
+
+    switch (action) {
+      case 'HEAL':
+        this.heal(value);
+        emitTriggered();
+        break;
+
+      case 'BLOCK':
+        this.gainPlayerBlock(value);
+        emitTriggered();
+        break;
+
+      case 'DRAW':
+        this.drawCards(value);
+        emitTriggered();
+        break;
+
+      case 'GAIN_ENERGY':
+        this.gainEnergy(value);
+        emitTriggered();
+        break;
+
+      case 'GAIN_STRENGTH':
+        this.applyStatus('player', 'strength', value);
+        emitTriggered();
+        break;
+
+      case 'GAIN_DEXTERITY':
+        this.applyStatus('player', 'dexterity', value);
+        emitTriggered();
+        break;
+
+      case 'ARTIFACT':
+        this.applyStatus('player', 'artifact', value);
+        emitTriggered();
+        break;
+
+      case 'PLATED_ARMOR':
+        this.applyStatus('player', 'platedArmor', value);
+        emitTriggered();
+        break;
+
+      case 'SELF_VULNERABLE':
+        this.applyStatus('player', 'vulnerable', value);
+        emitTriggered();
+        break;
+
+      case 'ENEMY_STRENGTH':
+        CombatEngine.getAliveEnemyIndices(this.state).forEach((index) => this.applyStatus(index, 'strength', value));
+        emitTriggered();
+        break;
+
+      case 'ENEMY_WEAK':
+        CombatEngine.getAliveEnemyIndices(this.state).forEach((index) => this.applyStatus(index, 'weak', value));
+        emitTriggered();
+        break;
+
+      case 'ENEMY_VULNERABLE':
+        CombatEngine.getAliveEnemyIndices(this.state).forEach((index) => this.applyStatus(index, 'vulnerable', value));
+        emitTriggered();
+        break;
+
+      case 'THORNS':
+      case 'DAMAGE_RANDOM': {
+        // Bronze Scales / Tingsha: damage a random enemy
+        const index = this.rng.monsters.pick(CombatEngine.getAliveEnemyIndices(this.state));
+        if (index !== undefined) {
+          this.loseHp(index, value);
+          emitTriggered();
+        }
+        break;
+      }
+
+      case 'ENERGY_EVERY_N_TURNS':
+        // Happy Flower: every N turns gain 1 energy
+        if (this.state.turn % value === 0) {
+          this.gainEnergy(1);
+          emitTriggered();
+        }
+        break;
+
+      case 'DRAW_EVERY_N':
+        // Ink Bottle: every N cards played, draw 1
+        if (countTo(value)) {
+          this.drawCards(1);
+          emitTriggered();
+        }
+        break;
+
+      case 'DEXTERITY_EVERY_N':
+        // Kunai: every N attacks, gain 1 dexterity
+        if (countTo(value)) {
+          this.applyStatus('player', 'dexterity', 1);
+          emitTriggered();
+        }
+        break;
+
+      case 'STRENGTH_EVERY_N':
+        // Shuriken: every N attacks, gain 1 strength
+        if (countTo(value)) {
+          this.applyStatus('player', 'strength', 1);
+          emitTriggered();
+        }
+        break;
+
+      case 'BLOCK_EVERY_N':
+        // Ornamental Fan: every N attacks, gain 4 block
+        if (countTo(value)) {
+          this.gainPlayerBlock(4);
+          emitTriggered();
+        }
+        break;
+
+      case 'DAMAGE_ALL_EVERY_N':
+        // Letter Opener: every N skills, deal 5 damage to all enemies
+        if (countTo(value)) {
+          CombatEngine.getAliveEnemyIndices(this.state).forEach((index) => this.loseHp(index, 5));
+          emitTriggered();
+        }
+        break;
+
+      case 'ENERGY_EVERY_N':
+        // Sundial: every N shuffles, gain 2 energy
+        if (countTo(value)) {
+          this.gainEnergy(2);
+          emitTriggered();
+        }
+        break;
+
+      case 'ADD_RANDOM_CARD': {
+        // Dead Branch: when exhausting, add a random card to hand
+        const template = this.rng.cards.pick(DataLoader.getAllCards());
+        if (template && this.state.hand.length < MAX_HAND_SIZE) {
+          const card = { ...template };
+          this.state.hand.push(card);
+          this.emit({ type: 'CARD_DRAWN', card });
+          emitTriggered();
+        }
+        break;
+      }
+
+      case 'DRAW_IF_ATTACKS':
+        // Pocketwatch: if N+ attacks were played this turn, draw N cards
+        if (this.state.tracking.attacksThisTurn >= value) {
+          this.drawCards(value);
+          emitTriggered();
+        }
+        break;
+
+      // Damage modifiers (see modifiers.ts)
+      case 'BONUS_DAMAGE':
+      case 'REDUCE_DAMAGE':
+      case 'VULNERABLE_BONUS':
+      case 'REDUCE_SMALL_DAMAGE':
+        break;
+
+      // Passive effects (handled in other systems or not implemented yet)
+      case 'ELITE_BONUS_RELIC':
+      case 'CURSES_PLAYABLE':
+      case 'MORE_EVENT_OPTIONS':
+      case 'MERCHANT_BONUS':
+      case 'EXTRA_CARD_REWARD':
+      case 'REST_REMOVE_CARD':
+      case 'REST_DIG':
+      case 'RETAIN_ENERGY':
+      case 'EVENT_TO_TREASURE':
+      case 'UNKNOWN_NO_COMBAT':
+      case 'CHEST_EXTRA_RELIC':
+      case 'CHEST_CURSE_TRADE':
+      case 'FEWER_CARD_REWARDS':
+      case 'NO_REST_HEAL':
+      case 'INTANGIBLE_EVERY_N':
+      case 'REVIVE':
+      case 'AUTO_UPGRADE_SKILLS':
+      case 'AUTO_UPGRADE_POWERS':
+      case 'REDUCE_RANDOM_COST':
+      case 'DISCARD_DRAW':
+      case 'ENERGY_NEXT_COMBAT':
+      case 'MAX_HP':
+      case 'GAIN_GOLD':
+      case 'MAX_ENERGY':
+      case 'ADD_CURSE':
+        break;
+
+      default:
+        console.warn(`Unknown relic action: ${action}`);
+    }
+  }
+
+  // ===== Helpers =====
+
+  private checkCombatEnd(): void {
+    if (this.state.combatEnded) return;
+
+    if (this.state.player.currentHp <= 0) {
+      this.endCombat(false);
+    } else if (CombatEngine.getAliveEnemyIndices(this.state).length === 0) {
+      this.endCombat(true);
+    }
+  }
+
+  private endCombat(victory: boolean): void {
+    this.state.combatEnded = true;
+    this.state.victory = victory;
+    this.state.isPlayerTurn = false;
+
+    // onCombatEnd relics (like Burning Blood) only fire on a win
+    if (victory) {
+      this.triggerRelics('onCombatEnd');
+
+      // Gold stolen by enemies that were killed (not escaped) is recovered
+      this.state.enemies.forEach((enemy, enemyIndex) => {
+        if (enemy.stolenGold > 0 && !enemy.escaped) {
+          this.state.player.gold += enemy.stolenGold;
+          this.emit({ type: 'GOLD_RECOVERED', enemyIndex, amount: enemy.stolenGold });
+          enemy.stolenGold = 0;
+        }
+      });
+    }
+
+    this.emit({ type: 'COMBAT_ENDED', victory });
+  }
+
+  private combatant(ref: CombatantRef): CombatPlayerState | CombatEnemyState {
+    return ref === 'player' ? this.state.player : this.state.enemies[ref];
+  }
+
+  private statusesOf(ref: CombatantRef): StatusEffects {
+    return this.combatant(ref).statusEffects;
+  }
+
+  private emit(event: CombatEvent): void {
+    this.events.push(event);
+  }
+
+  private reject(reason: string): void {
+    this.emit({ type: 'ACTION_REJECTED', reason });
+  }
+}
+
+/**
+ * Combat state for an enemy entering combat, at the start or spawned mid-fight
+ */
+function createEnemyState(enemy: Enemy): CombatEnemyState {
+  return {
+    ...enemy,
+    statusEffects: { ...enemy.statusEffects },
+    currentMove: null,
+    moveHistory: [],
+    sequenceIndex: 0,
+    stolenGold: 0,
+    escaped: false,
+    split: false,
+    spawned: enemy.spawned ?? false,
+    form: 'base',
+    forms: { ...enemy.forms, base: { moves: enemy.moves, ai: enemy.ai } },
+    damageSinceShift: 0,
+    phaseTriggers: (enemy.phases ?? []).map(() => 0),
+  };
+}
+
+/**
+ * Copy everything an action can mutate. Cards, moves and relic effects are
+ * treated as immutable and shared, so card identity survives across states.
+ */
+function cloneState(state: CombatEngineState): CombatEngineState {
+  return {
+    ...state,
+    player: {
+      ...state.player,
+      statusEffects: { ...state.player.statusEffects },
+      relics: state.player.relics.map((relic) => ({ ...relic })),
+      powers: [...state.player.powers],
+    },
+    enemies: state.enemies.map((enemy) => ({
+      ...enemy,
+      statusEffects: { ...enemy.statusEffects },
+      moveHistory: [...enemy.moveHistory],
+      phaseTriggers: [...enemy.phaseTriggers],
+    })),
+    hand: [...state.hand],
+    drawPile: [...state.drawPile],
+    discardPile: [...state.discardPile],
+    exhaustPile: [...state.exhaustPile],
+    tracking: { ...state.tracking },
+    rng: { ...state.rng },
+  };
+}
@@ -0,0 +1,131 @@
+import { EnemyAI, EnemyAICondition, EnemyAIPattern, EnemyMove, StatusEffects } from '@/types';
+
+/**
+ * What an enemy remembers between move selections
+ */
+export interface EnemyAIState {
+  /** Every move used this combat, oldest first */
+  moveHistory: string[];
+  /** Position in the AI sequence */
+  sequenceIndex: number;
+}
+
+export interface EnemyAIContext {
+  self: { currentHp: number; maxHp: number; statusEffects: StatusEffects };
+  /** Absent when the enemy picks a move outside combat (player conditions then fail) */
+  player?: { statusEffects: StatusEffects };
+  /** Index of the enemy in its encounter */
+  slot: number;
+  ascension: number;
+  /** Returns [0, 1); pass the monsters RNG stream so rolls stay seeded */
+  random: () => number;
+}
+
+export interface EnemyMoveSelection {
+  move: EnemyMove;
+  sequenceIndex: number;
+}
+
+/**
+ * The pattern in effect at an ascension level: the base pattern with every
+ * variant at or below the level merged over it, lowest level first
+ */
+export function resolveEnemyAI(ai: EnemyAI | undefined, ascension: number): EnemyAIPattern {
+  if (!ai) return {};
+
+  const { ascension: variants = [], ...base } = ai;
+  return [...variants]
+    .filter((variant) => variant.level <= ascension)
+    .sort((a, b) => a.level - b.level)
+    .reduce<EnemyAIPattern>((pattern, variant) => ({ ...pattern, ...variant.ai }), base);
+}
+
+/**
+ * Pick an enemy's next move. Enemies without an AI definition roll by weight
+ * and never use the same move twice in a row.
+ */
+export function selectEnemyMove(
+  moves: EnemyMove[],
+  ai: EnemyAI | undefined,
+  state: EnemyAIState,
+  context: EnemyAIContext
+): EnemyMoveSelection | null {
+  if (moves.length === 0) return null;
+
+  const pattern = resolveEnemyAI(ai, context.ascension);
+  const turn = state.moveHistory.length + 1;
+  const pick = (move: EnemyMove, sequenceIndex = state.sequenceIndex) => ({ move, sequenceIndex });
+
+  const canUse = (move: EnemyMove) =>
+    consecutiveUses(state.moveHistory, move.name) < (pattern.maxConsecutive?.[move.name] ?? 1);
+
+  // Opening moves
+  if (pattern.opening && turn <= pattern.opening.length) {
+    const move = findMove(moves, pattern.opening[turn - 1]);
+    if (move) return pick(move);
+  }
+
+  // Conditional rules
+  for (const rule of pattern.rules ?? []) {
+    const move = findMove(moves, rule.move);
+    if (move && canUse(move) && matches(rule.when, turn, state, context)) {
+      return pick(move);
+    }
+  }
+
+  // Strict rotation
+  if (pattern.sequence && pattern.sequence.length > 0) {
+    const offset = pattern.staggered ? context.slot : 0;
+    const move = findMove(moves, pattern.sequence[(state.sequenceIndex + offset) % pattern.sequence.length]);
+    if (move) return pick(move, state.sequenceIndex + 1);
+  }
+
+  // Weighted roll
+  const weighted = moves.filter((move) => move.weight > 0);
+  const allowed = weighted.filter(canUse);
+  return pick(rollByWeight(allowed.length > 0 ? allowed : weighted.length > 0 ? weighted : moves, context.random));
+}
+
+function matches(condition: EnemyAICondition, turn: number, state: EnemyAIState, context: EnemyAIContext): boolean {
+  const { self, player } = context;
+  const hasStatus = (statuses: StatusEffects | undefined, status: string) => (statuses?.[status] ?? 0) > 0;
+
+  if (condition.turn !== undefined && turn !== condition.turn) return false;
+  if (condition.minTurn !== undefined && turn < condition.minTurn) return false;
+  if (condition.maxTurn !== undefined && turn > condition.maxTurn) return false;
+  if (condition.hpBelowPercent !== undefined && self.currentHp * 100 >= self.maxHp * condition.hpBelowPercent) return false;
+  if (condition.damaged !== undefined && (self.currentHp < self.maxHp) !== condition.damaged) return false;
+  if (condition.lastMove !== undefined && state.moveHistory[state.moveHistory.length - 1] !== condition.lastMove) return false;
+  if (condition.selfHasStatus && !hasStatus(self.statusEffects, condition.selfHasStatus)) return false;
+  if (condition.playerHasStatus && !hasStatus(player?.statusEffects, condition.playerHasStatus)) return false;
+  if (condition.playerLacksStatus && (!player || hasStatus(player.statusEffects, condition.playerLacksStatus))) return false;
+
+  // Roll last so the RNG is only consumed when the rest of the rule holds
+  return condition.chance === undefined || context.random() < condition.chance;
+}
+
+function findMove(moves: EnemyMove[], name: string): EnemyMove | undefined {
+  const move = moves.find((m) => m.name === name);
+  if (!move) {
+    console.warn(`Enemy AI references unknown move: ${name}`);
+  }
+  return move;
+}
+
+function consecutiveUses(history: string[], name: string): number {
+  let count = 0;
+  for (let i = history.length - 1; i >= 0 && history[i] === name; i--) {
+    count++;
+  }
+  return count;
+}
+
+function rollByWeight(moves: EnemyMove[], random: () => number): EnemyMove {
+  const totalWeight = moves.reduce((sum, move) => sum + move.weight, 0);
+  let roll = random() * totalWeight;
+  for (const move of moves) {
+    roll -= move.weight;
+    if (roll <= 0) return move;
+  }
+  return moves[0];
+}
@@ -0,0 +1,99 @@
+import { EnemyAction, EnemyActionTarget } from '@/types';
+import { StatusRegistry } from './statusEffects';
+
+/**
+ * Enemy actions the engine interprets. Everything else in the enemy data is
+ * normalized onto one of these by normalizeEnemyAction().
+ *
+ * DAMAGE       hit the player `times` times
+ * GAIN_BLOCK   gain block (target SELF, ALLIES or ALL_ENEMIES)
+ * HEAL         heal (target SELF, ALLIES or ALL_ENEMIES)
+ * APPLY_STATUS apply `status` to the target
+ * ADD_CARD     shuffle `value` copies of a status card into the player's `pile`
+ * STEAL_GOLD   take gold from the player; it is returned if the enemy dies
+ * ESCAPE       leave combat
+ * SPAWN        bring `enemies` into combat
+ * SPLIT        replace this enemy with `enemies`, each with its current HP
+ * TRANSFORM    switch to another `form` (new moves and AI)
+ */
+export type EnemyActionType =
+  | 'DAMAGE'
+  | 'GAIN_BLOCK'
+  | 'HEAL'
+  | 'APPLY_STATUS'
+  | 'ADD_CARD'
+  | 'STEAL_GOLD'
+  | 'ESCAPE'
+  | 'SPAWN'
+  | 'SPLIT'
+  | 'TRANSFORM';
+
+const ENEMY_ACTION_TYPES: EnemyActionType[] = [
+  'DAMAGE',
+  'GAIN_BLOCK',
+  'HEAL',
+  'APPLY_STATUS',
+  'ADD_CARD',
+  'STEAL_GOLD',
+  'ESCAPE',
+  'SPAWN',
+  'SPLIT',
+  'TRANSFORM',
+];
+
+/**
+ * Shorthands used by the enemy data
+ */
+const ENEMY_ACTION_ALIASES: Record<string, (action: EnemyAction) => EnemyAction> = {
+  BLOCK: (action) => ({ ...action, type: 'GAIN_BLOCK' }),
+  APPLY_BLOCK_SELF: (action) => ({ ...action, type: 'GAIN_BLOCK', target: 'SELF' }),
+  REMOVE_STRENGTH: (action) => ({ ...action, type: 'APPLY_STATUS', status: 'strength', value: -action.value, target: 'PLAYER' }),
+};
+
+export interface NormalizedEnemyAction extends EnemyAction {
+  type: EnemyActionType;
+  target: EnemyActionTarget;
+}
+
+/**
+ * Map an enemy action onto the engine's action set. Status shorthands are
+ * resolved against the status registry, so any registered status works as
+ * APPLY_<STATUS>, <STATUS> or APPLY_<STATUS>_SELF (e.g. APPLY_RITUAL, WEAK,
+ * APPLY_STRENGTH_SELF). Returns null for actions nothing understands.
+ */
+export function normalizeEnemyAction(action: EnemyAction): NormalizedEnemyAction | null {
+  const aliased = ENEMY_ACTION_ALIASES[action.type]?.(action) ?? statusShorthand(action) ?? action;
+  const type = aliased.type as EnemyActionType;
+  if (!ENEMY_ACTION_TYPES.includes(type)) return null;
+
+  return { ...aliased, type, target: aliased.target ?? defaultTarget(type, aliased) };
+}
+
+function statusShorthand(action: EnemyAction): EnemyAction | null {
+  const match = /^(?:APPLY_)?([A-Z_]+?)(_SELF)?$/.exec(action.type);
+  if (!match) return null;
+
+  const status = match[1].toLowerCase().replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+  if (!StatusRegistry.get(status)) return null;
+
+  return { ...action, type: 'APPLY_STATUS', status, target: match[2] ? 'SELF' : action.target };
+}
+
+/**
+ * Attacks and debuffs (including buffs being reduced, like Siphon Soul's
+ * -1 Strength) go to the player; everything else to the acting enemy
+ */
+function defaultTarget(type: EnemyActionType, action: EnemyAction): EnemyActionTarget {
+  switch (type) {
+    case 'DAMAGE':
+    case 'ADD_CARD':
+    case 'STEAL_GOLD':
+      return 'PLAYER';
+    case 'APPLY_STATUS': {
+      const status = action.status ? StatusRegistry.get(action.status) : undefined;
+      return status && StatusRegistry.isDebuff({ status, amount: action.value }) ? 'PLAYER' : 'SELF';
+    }
+    default:
+      return 'SELF';
+  }
+}
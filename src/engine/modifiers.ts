@@ -0,0 +1,239 @@
+import { Card, Relic, StatusEffects } from '@/types';
+import { findRelicEffects } from './relicEffects';
+
+/**
+ * Stages run in this order. Within a stage, modifiers run by `order`.
+ * ADDITIVE:       flat bonuses and penalties (Strength, Dexterity, relic bonuses)
+ * MULTIPLICATIVE: percentage changes (Vulnerable, Weak, Frail)
+ * CAP:            hard limits (Intangible, Torii)
+ * The result is then floored to a whole number of at least 0.
+ */
+export type ModifierStage = 'ADDITIVE' | 'MULTIPLICATIVE' | 'CAP';
+
+const STAGE_ORDER: ModifierStage[] = ['ADDITIVE', 'MULTIPLICATIVE', 'CAP'];
+
+export type ModifierKind = 'damage' | 'block';
+
+/**
+ * A side of a calculation: its statuses and whether it is the player
+ */
+export interface ModifierParty {
+  isPlayer: boolean;
+  statusEffects: StatusEffects;
+}
+
+export interface ModifierContext {
+  /** Who deals the damage; absent for damage without a source (thorns, relics) */
+  source?: ModifierParty;
+  /** Who receives the damage or gains the block */
+  target: ModifierParty;
+  /** The player's relics, which may modify either side */
+  relics: Relic[];
+  /** The card being played, if any */
+  card?: Card;
+  /** Attack cards played this combat, including the current one */
+  attacksPlayed?: number;
+  /** Times the player has already taken attack damage this combat */
+  playerHitsTaken?: number;
+}
+
+export interface Modifier {
+  id: string;
+  label: string;
+  kind: ModifierKind;
+  stage: ModifierStage;
+  order: number;
+  /** Return the new value, or the same value if the modifier does not apply */
+  apply(value: number, context: ModifierContext): number;
+}
+
+export interface CalculationStep {
+  modifier: string;
+  label: string;
+  stage: ModifierStage;
+  before: number;
+  after: number;
+}
+
+/**
+ * The result of a calculation and every modifier that changed it
+ */
+export interface Calculation {
+  kind: ModifierKind;
+  base: number;
+  final: number;
+  steps: CalculationStep[];
+}
+
+/**
+ * ModifierRegistry holds every damage and block modifier. Statuses, powers and
+ * relics register here instead of being special-cased in the combat code.
+ */
+export class ModifierRegistry {
+  private static modifiers: Modifier[] = [];
+
+  static register(modifier: Modifier): void {
+    if (this.modifiers.some((m) => m.id === modifier.id)) {
+      console.warn(`Modifier ${modifier.id} is already registered`);
+      return;
+    }
+    this.modifiers.push(modifier);
+  }
+
+  /**
+   * Modifiers of a kind in pipeline order
+   */
+  static getModifiers(kind: ModifierKind): Modifier[] {
+    return this.modifiers
+      .filter((m) => m.kind === kind)
+      .sort((a, b) => STAGE_ORDER.indexOf(a.stage) - STAGE_ORDER.indexOf(b.stage) || a.order - b.order);
+  }
+}
+
+/**
+ * Run a base value through the pipeline
+ */
+export function calculate(kind: ModifierKind, base: number, context: ModifierContext): Calculation {
+  const steps: CalculationStep[] = [];
+  let value = base;
+
+  ModifierRegistry.getModifiers(kind).forEach((modifier) => {
+    const next = modifier.apply(value, context);
+    if (next !== value) {
+      steps.push({ modifier: modifier.id, label: modifier.label, stage: modifier.stage, before: value, after: next });
+      value = next;
+    }
+  });
+
+  return { kind, base, final: Math.max(0, Math.floor(value)), steps };
+}
+
+export function calculateDamage(base: number, context: ModifierContext): Calculation {
+  return calculate('damage', base, context);
+}
+
+export function calculateBlock(base: number, context: ModifierContext): Calculation {
+  return calculate('block', base, context);
+}
+
+/**
+ * Human-readable trace, e.g. "6 → Strength = 8 → Vulnerable = 12 → 12"
+ */
+export function formatCalculation(calculation: Calculation): string {
+  const parts = [String(calculation.base)];
+  calculation.steps.forEach((step) => {
+    parts.push(`${step.label} = ${round(step.after)}`);
+  });
+  parts.push(String(calculation.final));
+  return parts.join(' → ');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function hasRelic(relics: Relic[], trigger: string, action: string): boolean {
+  return findRelicEffects(relics, trigger, action).length > 0;
+}
+
+// ===== Built-in modifiers =====
+
+ModifierRegistry.register({
+  id: 'strength',
+  label: 'Strength',
+  kind: 'damage',
+  stage: 'ADDITIVE',
+  order: 0,
+  apply: (value, { source }) => (source ? value + source.statusEffects.strength : value),
+});
+
+ModifierRegistry.register({
+  id: 'first_attack_bonus',
+  label: 'First Attack bonus',
+  kind: 'damage',
+  stage: 'ADDITIVE',
+  order: 10,
+  apply: (value, { source, card, attacksPlayed, relics }) => {
+    // Akabeko / Worn Pickaxe: the first Attack each combat deals bonus damage
+    if (!source?.isPlayer || card?.type !== 'ATTACK' || attacksPlayed !== 1) return value;
+    return findRelicEffects(relics, 'onFirstAttack', 'BONUS_DAMAGE')
+      .reduce((total, effect) => total + (effect.value || 0), value);
+  },
+});
+
+ModifierRegistry.register({
+  id: 'first_hit_reduction',
+  label: 'First hit reduction',
+  kind: 'damage',
+  stage: 'ADDITIVE',
+  order: 20,
+  apply: (value, { source, target, playerHitsTaken, relics }) => {
+    // Hardhat: the first time the player would take attack damage, reduce it
+    if (!source || !target.isPlayer || playerHitsTaken !== 0) return value;
+    return findRelicEffects(relics, 'onFirstDamage', 'REDUCE_DAMAGE')
+      .reduce((total, effect) => total - (effect.value || 0), value);
+  },
+});
+
+ModifierRegistry.register({
+  id: 'vulnerable',
+  label: 'Vulnerable',
+  kind: 'damage',
+  stage: 'MULTIPLICATIVE',
+  order: 0,
+  apply: (value, { source, target, relics }) => {
+    if (target.statusEffects.vulnerable <= 0) return value;
+    // Paper Frog: enemies take 75% more instead of 50%
+    const bonus = source?.isPlayer && hasRelic(relics, 'passive', 'VULNERABLE_BONUS') ? 1.75 : 1.5;
+    return value * bonus;
+  },
+});
+
+ModifierRegistry.register({
+  id: 'weak',
+  label: 'Weak',
+  kind: 'damage',
+  stage: 'MULTIPLICATIVE',
+  order: 10,
+  apply: (value, { source }) => (source && source.statusEffects.weak > 0 ? value * 0.75 : value),
+});
+
+ModifierRegistry.register({
+  id: 'intangible',
+  label: 'Intangible',
+  kind: 'damage',
+  stage: 'CAP',
+  order: 0,
+  apply: (value, { target }) => (target.statusEffects.intangible > 0 ? Math.min(value, 1) : value),
+});
+
+ModifierRegistry.register({
+  id: 'reduce_small_damage',
+  label: 'Torii',
+  kind: 'damage',
+  stage: 'CAP',
+  order: 10,
+  apply: (value, { source, target, relics }) => {
+    // Torii: attacks of 5 or less against the player are reduced to 1
+    if (!source || !target.isPlayer || value <= 1 || value > 5) return value;
+    return hasRelic(relics, 'passive', 'REDUCE_SMALL_DAMAGE') ? 1 : value;
+  },
+});
+
+ModifierRegistry.register({
+  id: 'dexterity',
+  label: 'Dexterity',
+  kind: 'block',
+  stage: 'ADDITIVE',
+  order: 0,
+  apply: (value, { target }) => value + target.statusEffects.dexterity,
+});
+
+ModifierRegistry.register({
+  id: 'frail',
+  label: 'Frail',
+  kind: 'block',
+  stage: 'MULTIPLICATIVE',
+  order: 0,
+  apply: (value, { target }) => (target.statusEffects.frail > 0 ? value * 0.75 : value),
+});
@@ -0,0 +1,64 @@
+import { ActivePower, Card, CardEffect, TargetType } from '@/types';
+
+export type PowerTrigger = 'onTurnStart' | 'onTurnEnd' | 'onCardPlayed' | 'onBlockGained' | 'passive';
+
+export interface PowerEffectDefinition {
+  trigger: PowerTrigger;
+  /** The card effect to run when the trigger fires (the power's value is passed through) */
+  effect: string;
+  target?: TargetType;
+}
+
+/**
+ * Card effect types that make a Power ongoing instead of resolving once.
+ * Any other effect on a Power card (e.g. Inflame's APPLY_STRENGTH) resolves
+ * immediately when it is played.
+ */
+const POWER_EFFECTS: Record<string, PowerEffectDefinition> = {
+  RITUAL_STRENGTH: { trigger: 'onTurnStart', effect: 'APPLY_STRENGTH' },
+  START_TURN_BLOCK: { trigger: 'onTurnStart', effect: 'BLOCK' },
+  DRAW_PER_TURN: { trigger: 'onTurnStart', effect: 'DRAW' },
+  END_TURN_DAMAGE_ALL: { trigger: 'onTurnEnd', effect: 'DAMAGE', target: 'ALL_ENEMIES' },
+  CARD_PLAYED_BLOCK: { trigger: 'onCardPlayed', effect: 'BLOCK' },
+  BLOCK_GAINED_DAMAGE: { trigger: 'onBlockGained', effect: 'DAMAGE', target: 'RANDOM_ENEMY' },
+  RETAIN_ALL_BLOCK: { trigger: 'passive', effect: 'RETAIN_ALL_BLOCK' },
+};
+
+export function isPowerEffect(effect: CardEffect): boolean {
+  return effect.type in POWER_EFFECTS;
+}
+
+/**
+ * Add a played Power card to the active powers. Playing the same Power again
+ * adds a stack and its effects, so two Demon Forms grant Strength twice.
+ */
+export function addPower(powers: ActivePower[], card: Card): ActivePower[] {
+  const effects = card.effects.filter(isPowerEffect);
+  const existing = powers.find((power) => power.id === card.id);
+
+  if (existing) {
+    return powers.map((power) =>
+      power === existing ? { ...power, stacks: power.stacks + 1, effects: [...power.effects, ...effects] } : power
+    );
+  }
+
+  return [...powers, { id: card.id, name: card.name, description: card.description, stacks: 1, effects }];
+}
+
+/**
+ * Every ongoing effect across the active powers that fires on a trigger
+ */
+export function findPowerEffects(
+  powers: ActivePower[],
+  trigger: PowerTrigger
+): { power: ActivePower; effect: CardEffect; definition: PowerEffectDefinition }[] {
+  return powers.flatMap((power) =>
+    power.effects
+      .map((effect) => ({ power, effect, definition: POWER_EFFECTS[effect.type] }))
+      .filter(({ definition }) => definition?.trigger === trigger)
+  );
+}
+
+export function hasPassivePower(powers: ActivePower[], effectType: string): boolean {
+  return findPowerEffects(powers, 'passive').some(({ definition }) => definition.effect === effectType);
+}
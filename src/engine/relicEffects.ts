@@ -0,0 +1,54 @@
+import { Relic, RelicEffect } from '@/types';
+
+/**
+ * The React store's relic templates use their own trigger vocabulary.
+ * Map it onto the relics.json triggers the engine understands.
+ */
+const RELIC_TRIGGER_ALIASES: Record<string, string> = {
+  START_COMBAT: 'onCombatStart',
+  END_COMBAT: 'onCombatEnd',
+  START_TURN: 'onTurnStart',
+  END_TURN: 'onTurnEnd',
+  SHUFFLE: 'onShuffle',
+  PLAY_POWER: 'onPowerPlayed',
+  EXHAUST: 'onCardExhaust',
+  DAMAGE_TAKEN: 'onDamageTaken',
+  FIRST_ATTACK_COMBAT: 'onFirstAttack',
+  FIRST_DAMAGE: 'onFirstDamage',
+  PASSIVE: 'passive',
+};
+
+const RELIC_ACTION_ALIASES: Record<string, string> = {
+  ENERGY: 'GAIN_ENERGY',
+  DEXTERITY: 'GAIN_DEXTERITY',
+  STRENGTH: 'GAIN_STRENGTH',
+};
+
+/**
+ * Actions whose meaning depends on the trigger they are paired with
+ */
+const RELIC_EFFECT_ALIASES: Record<string, string> = {
+  'onFirstAttack:DAMAGE': 'BONUS_DAMAGE',
+  'onFirstDamage:REDUCE': 'REDUCE_DAMAGE',
+};
+
+/**
+ * Normalize a relic effect to the relics.json trigger/action vocabulary
+ */
+export function normalizeRelicEffect(effect: RelicEffect): RelicEffect {
+  const trigger = RELIC_TRIGGER_ALIASES[effect.trigger] ?? effect.trigger;
+  const action =
+    RELIC_EFFECT_ALIASES[`${trigger}:${effect.action}`] ??
+    RELIC_ACTION_ALIASES[effect.action] ??
+    effect.action;
+  return { ...effect, trigger, action };
+}
+
+/**
+ * All normalized effects on a set of relics matching a trigger (and optionally an action)
+ */
+export function findRelicEffects(relics: Relic[], trigger: string, action?: string): RelicEffect[] {
+  return relics
+    .flatMap((relic) => relic.effects.map(normalizeRelicEffect))
+    .filter((effect) => effect.trigger === trigger && (!action || effect.action === action));
+}
@@ -0,0 +1,126 @@
+import { StatusDefinition, StatusEffects } from '@/types';
+import statusesData from '@/data/statuses/statuses.json';
+import type { CombatantRef } from './types';
+
+/**
+ * The combat operations a status hook may perform
+ */
+export interface StatusEffectApi {
+  applyStatus(target: CombatantRef, status: string, amount: number): void;
+  gainBlock(target: CombatantRef, amount: number): void;
+  /** Non-attack damage: goes through block but not Strength, Weak or relics */
+  dealDamage(source: CombatantRef, target: CombatantRef, amount: number): void;
+  loseHp(target: CombatantRef, amount: number): void;
+}
+
+export interface StatusHookContext {
+  api: StatusEffectApi;
+  /** Who holds the status */
+  owner: CombatantRef;
+  /** The owner's statuses; hooks may change them directly */
+  statuses: StatusEffects;
+  /** Current stacks of the status whose hook is running */
+  stacks: number;
+}
+
+export interface StatusApplication {
+  status: StatusDefinition;
+  amount: number;
+}
+
+export interface StatusHooks {
+  onTurnStart?(context: StatusHookContext): void;
+  onTurnEnd?(context: StatusHookContext): void;
+  /** The owner was hit by an attack; damage is what got through block */
+  onAttacked?(context: StatusHookContext, attacker: CombatantRef, damage: number): void;
+  /** Another status is about to be applied to the owner. Return the stacks to apply. */
+  onApply?(context: StatusHookContext, application: StatusApplication): number;
+}
+
+/**
+ * StatusRegistry holds every status definition (from statuses.json) and the
+ * hooks that give them behavior. Adding a status only needs a JSON entry and,
+ * if it does something beyond decaying, a registerHooks() call.
+ */
+export class StatusRegistry {
+  private static definitions: Map<string, StatusDefinition> = new Map();
+  private static hooks: Map<string, StatusHooks> = new Map();
+
+  static define(definition: StatusDefinition): void {
+    this.definitions.set(definition.id, definition);
+  }
+
+  static registerHooks(id: string, hooks: StatusHooks): void {
+    if (!this.definitions.has(id)) {
+      console.warn(`Registering hooks for undefined status: ${id}`);
+    }
+    this.hooks.set(id, hooks);
+  }
+
+  static get(id: string): StatusDefinition | undefined {
+    return this.definitions.get(id);
+  }
+
+  static getAll(): StatusDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  static getHooks(id: string): StatusHooks | undefined {
+    return this.hooks.get(id);
+  }
+
+  /**
+   * Debuffs, plus buffs being reduced (e.g. losing Strength)
+   */
+  static isDebuff(application: StatusApplication): boolean {
+    return application.status.type === 'debuff' || (application.status.type === 'buff' && application.amount < 0);
+  }
+}
+
+/**
+ * Fresh status effects with every registered status at zero
+ */
+export function createEmptyStatusEffects(): StatusEffects {
+  const statuses: Record<string, number> = {};
+  StatusRegistry.getAll().forEach((definition) => {
+    statuses[definition.id] = 0;
+  });
+  return statuses as StatusEffects;
+}
+
+/**
+ * Statuses with non-zero stacks, in registry order
+ */
+export function getActiveStatuses(statuses: StatusEffects): { definition: StatusDefinition; stacks: number }[] {
+  return StatusRegistry.getAll()
+    .filter((definition) => (statuses[definition.id] ?? 0) !== 0)
+    .map((definition) => ({ definition, stacks: statuses[definition.id] }));
+}
+
+// ===== Built-in statuses =====
+
+(statusesData.statuses as StatusDefinition[]).forEach((definition) => StatusRegistry.define(definition));
+
+StatusRegistry.registerHooks('poison', {
+  onTurnStart: ({ api, owner, stacks }) => api.loseHp(owner, stacks),
+});
+
+StatusRegistry.registerHooks('ritual', {
+  onTurnEnd: ({ api, owner, stacks }) => api.applyStatus(owner, 'strength', stacks),
+});
+
+StatusRegistry.registerHooks('platedArmor', {
+  onTurnEnd: ({ api, owner, stacks }) => api.gainBlock(owner, stacks),
+});
+
+StatusRegistry.registerHooks('thorns', {
+  onAttacked: ({ api, owner, stacks }, attacker) => api.dealDamage(owner, attacker, stacks),
+});
+
+StatusRegistry.registerHooks('artifact', {
+  onApply: ({ statuses }, application) => {
+    if (!StatusRegistry.isDebuff(application)) return application.amount;
+    statuses.artifact--;
+    return 0;
+  },
+});
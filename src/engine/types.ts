@@ -0,0 +1,126 @@
+import { ActivePower, Card, Enemy, EnemyForm, EnemyMove, Potion, Relic, StatusEffects } from '@/types';
+import { Calculation } from './modifiers';
+
+/**
+ * Combat engine types. Everything here is plain data so a combat state can be
+ * cloned, compared and serialized without touching Phaser or React.
+ */
+
+export interface CombatPlayerState {
+  maxHp: number;
+  currentHp: number;
+  block: number;
+  energy: number;
+  maxEnergy: number;
+  statusEffects: StatusEffects;
+  relics: Relic[];
+  powers: ActivePower[];
+  gold: number;
+}
+
+export interface CombatEnemyState extends Enemy {
+  currentMove: EnemyMove | null;
+  /** Every move used this combat, oldest first */
+  moveHistory: string[];
+  /** Position in the enemy's AI sequence */
+  sequenceIndex: number;
+  /** Gold taken by STEAL_GOLD, returned to the player if this enemy is killed */
+  stolenGold: number;
+  escaped: boolean;
+  split: boolean;
+  spawned: boolean;
+  /** Current form; 'base' is the enemy's original moves and AI */
+  form: string;
+  forms: Record<string, EnemyForm>;
+  /** HP lost since the last form change, for damageTaken phases */
+  damageSinceShift: number;
+  /** Times each of the enemy's phases has triggered */
+  phaseTriggers: number[];
+}
+
+/**
+ * Per-combat counters used by relic triggers
+ */
+export interface CombatTracking {
+  cardsPlayed: number;
+  attacksThisTurn: number;
+  skillsThisTurn: number;
+  powersPlayed: number;
+  shuffles: number;
+  /** Attack cards played this combat */
+  attacksPlayed: number;
+  /** Enemy attacks that have hit the player this combat */
+  playerHitsTaken: number;
+}
+
+/**
+ * Seeds for the random streams the engine consumes. They are part of the
+ * state so replaying the same actions from the same state is deterministic.
+ */
+export interface CombatRngState {
+  shuffle: number;
+  monsters: number;
+  cards: number;
+}
+
+export interface CombatEngineState {
+  player: CombatPlayerState;
+  enemies: CombatEnemyState[];
+  hand: Card[];
+  drawPile: Card[];
+  discardPile: Card[];
+  exhaustPile: Card[];
+  turn: number;
+  isPlayerTurn: boolean;
+  combatEnded: boolean;
+  victory: boolean;
+  tracking: CombatTracking;
+  rng: CombatRngState;
+  ascension: number;
+}
+
+/** 'player' or the index of an enemy in CombatEngineState.enemies */
+export type CombatantRef = 'player' | number;
+
+export type CombatAction =
+  | { type: 'START_COMBAT' }
+  | { type: 'PLAY_CARD'; cardIndex: number; targetIndex: number | null }
+  | { type: 'USE_POTION'; potion: Potion; targetIndex: number | null }
+  | { type: 'DISCARD_CARD'; cardIndex: number }
+  | { type: 'DRAW_CARDS'; count: number }
+  | { type: 'END_TURN' };
+
+export type CombatEvent =
+  | { type: 'COMBAT_STARTED' }
+  | { type: 'TURN_STARTED'; turn: number }
+  | { type: 'CARD_PLAYED'; card: Card; targetIndex: number | null }
+  | { type: 'CARD_DRAWN'; card: Card }
+  | { type: 'CARD_DISCARDED'; card: Card }
+  | { type: 'CARD_EXHAUSTED'; card: Card }
+  | { type: 'DECK_SHUFFLED' }
+  | { type: 'DAMAGE_DEALT'; source: CombatantRef; target: CombatantRef; amount: number; calculation: Calculation }
+  | { type: 'HP_LOST'; target: CombatantRef; amount: number }
+  | { type: 'HEALED'; target: CombatantRef; amount: number }
+  | { type: 'BLOCK_GAINED'; target: CombatantRef; amount: number; calculation: Calculation }
+  | { type: 'STATUS_APPLIED'; target: CombatantRef; status: string; amount: number }
+  | { type: 'ENERGY_GAINED'; amount: number }
+  | { type: 'ENEMY_MOVE'; enemyIndex: number; move: string }
+  | { type: 'ENEMY_ESCAPED'; enemyIndex: number }
+  | { type: 'ENEMY_SPAWNED'; enemyIndex: number }
+  | { type: 'ENEMY_SPLIT'; enemyIndex: number; into: number[] }
+  | { type: 'ENEMY_TRANSFORMED'; enemyIndex: number; form: string }
+  | { type: 'ENEMY_INTENT_CHANGED'; enemyIndex: number; move: string }
+  | { type: 'GOLD_STOLEN'; enemyIndex: number; amount: number }
+  | { type: 'GOLD_RECOVERED'; enemyIndex: number; amount: number }
+  | { type: 'CARD_CREATED'; card: Card; pile: 'DRAW' | 'DISCARD' | 'HAND' }
+  | { type: 'RELIC_TRIGGERED'; relicId: string; action: string }
+  | { type: 'POWER_APPLIED'; power: ActivePower }
+  | { type: 'POWER_TRIGGERED'; powerId: string; effect: string }
+  | { type: 'POTION_USED'; potion: Potion; targetIndex: number | null }
+  | { type: 'COMBAT_ENDED'; victory: boolean }
+  | { type: 'ACTION_REJECTED'; reason: string };
+
+export interface CombatResult {
+  state: CombatEngineState;
+  events: CombatEvent[];
+}
@@ -1,7 +1,10 @@
-import { EnemyIntent, EnemyMove } from '@/types';
+import { Enemy as EnemyData, EnemyAI, EnemyBehavior, EnemyForm, EnemyIntent, EnemyMove, EnemyPhase, StatusEffects } from '@/types';
+import { calculateDamage } from '@/engine/modifiers';
+import { createEmptyStatusEffects } from '@/engine/statusEffects';
 
 /**
- * Enemy entity - manages enemy state and AI
+ * Enemy entity - the enemy data the scenes render from. CombatEngine owns
+ * the combat rules; CombatManager syncs its state onto these entities.
  */
 export class Enemy {
   public id: string;
@@ -10,25 +13,28 @@ export class Enemy {
   public maxHp: number;
   public currentHp: number;
   public block: number = 0;
+  public escaped: boolean = false;
+  public split: boolean = false;
+  /** Joined mid-combat (a summon or a split-off) */
+  public spawned: boolean = false;
 
   // AI
   public intent: EnemyIntent;
   public moves: EnemyMove[];
-  private moveHistory: string[] = [];
-  private currentMove: EnemyMove | null = null;
+  public ai?: EnemyAI;
+  public forms?: Record<string, EnemyForm>;
+  public phases?: EnemyPhase[];
 
   // Status effects
-  public strength: number = 0;
-  public weak: number = 0;
-  public vulnerable: number = 0;
-  public poison: number = 0;
+  public statusEffects: StatusEffects = createEmptyStatusEffects();
 
   constructor(
     id: string,
     name: string,
     type: string,
     maxHp: number,
-    moves: EnemyMove[]
+    moves: EnemyMove[],
+    behavior: EnemyBehavior = {}
   ) {
     this.id = id;
     this.name = name;
@@ -36,140 +42,35 @@ export class Enemy {
     this.maxHp = maxHp;
     this.currentHp = maxHp;
     this.moves = moves;
+    this.ai = behavior.ai;
+    this.forms = behavior.forms;
+    this.phases = behavior.phases;
+    // The combat engine rolls moves from the fight's own streams, so building
+    // an enemy (a template, a restored fight, a spawn) never draws from the run's
     this.intent = { type: 'UNKNOWN' };
 
     console.log(`Enemy created: ${name} (type=${type}) with ${maxHp} HP, isDead=${this.currentHp <= 0}`);
-
-    // Determine first move
-    this.rollMove();
-  }
-
-  /**
-   * Take damage (after accounting for block and vulnerable)
-   */
-  takeDamage(amount: number): number {
-    // Apply vulnerable (50% more damage)
-    if (this.vulnerable > 0) {
-      amount = Math.floor(amount * 1.5);
-    }
-
-    // Block absorbs damage
-    const damageAfterBlock = Math.max(0, amount - this.block);
-    this.block = Math.max(0, this.block - amount);
-    this.currentHp = Math.max(0, this.currentHp - damageAfterBlock);
-
-    return damageAfterBlock;
-  }
-
-  /**
-   * Add block
-   */
-  addBlock(amount: number): void {
-    this.block += Math.max(0, amount);
   }
 
   /**
-   * Apply poison damage at start of turn
-   */
-  applyPoisonDamage(): number {
-    if (this.poison > 0) {
-      const damage = this.poison;
-      this.currentHp = Math.max(0, this.currentHp - damage);
-      this.poison = Math.max(0, this.poison - 1);
-      return damage;
-    }
-    return 0;
-  }
-
-  /**
-   * Roll next move based on move patterns
-   */
-  rollMove(): void {
-    if (this.moves.length === 0) {
-      console.warn(`Enemy ${this.name} has no moves!`);
-      return;
-    }
-
-    // Calculate total weight
-    const totalWeight = this.moves.reduce((sum, move) => sum + move.weight, 0);
-
-    // Roll a random move
-    let roll = Math.random() * totalWeight;
-    let selectedMove = this.moves[0];
-
-    for (const move of this.moves) {
-      roll -= move.weight;
-      if (roll <= 0) {
-        selectedMove = move;
-        break;
-      }
-    }
-
-    // Prevent repeating the same move twice (if possible)
-    if (
-      this.moves.length > 1 &&
-      this.moveHistory.length > 0 &&
-      selectedMove.name === this.moveHistory[this.moveHistory.length - 1]
-    ) {
-      // Try to pick a different move
-      const otherMoves = this.moves.filter(m => m.name !== selectedMove.name);
-      if (otherMoves.length > 0) {
-        const otherWeight = otherMoves.reduce((sum, m) => sum + m.weight, 0);
-        roll = Math.random() * otherWeight;
-        for (const move of otherMoves) {
-          roll -= move.weight;
-          if (roll <= 0) {
-            selectedMove = move;
-            break;
-          }
-        }
-      }
-    }
-
-    this.currentMove = selectedMove;
-    this.intent = selectedMove.intent;
-    this.moveHistory.push(selectedMove.name);
-
-    // Keep only last 3 moves in history
-    if (this.moveHistory.length > 3) {
-      this.moveHistory.shift();
-    }
-  }
-
-  /**
-   * Execute current move
-   */
-  executeMove(): EnemyMove | null {
-    const move = this.currentMove;
-    if (!move) return null;
-
-    // Roll next move for the following turn
-    this.rollMove();
-
-    return move;
-  }
-
-  /**
-   * Start of turn
+   * Check if enemy is dead
    */
-  startTurn(): void {
-    this.block = 0; // Block doesn't carry over
-    this.applyPoisonDamage();
+  isDead(): boolean {
+    return this.currentHp <= 0;
   }
 
   /**
-   * End of turn - tick down status effects
+   * Check if enemy can still act and be targeted (not dead or escaped)
    */
-  endTurn(): void {
-    if (this.weak > 0) this.weak--;
-    if (this.vulnerable > 0) this.vulnerable--;
+  isActive(): boolean {
+    return !this.isDead() && !this.escaped;
   }
 
   /**
-   * Check if enemy is dead
+   * Check if enemy has left the battlefield (escaped or split into others)
    */
-  isDead(): boolean {
-    return this.currentHp <= 0;
+  isGone(): boolean {
+    return this.escaped || this.split;
   }
 
   /**
@@ -185,37 +86,40 @@ export class Enemy {
   getIntentValue(): number {
     if (!this.intent.value) return 0;
 
-    let value = this.intent.value;
+    if (this.intent.type !== 'ATTACK') return Math.max(0, this.intent.value);
 
-    // Apply strength to attack intents
-    if (this.intent.type === 'ATTACK') {
-      value += this.strength;
-
-      // Apply weak (25% less damage)
-      if (this.weak > 0) {
-        value = Math.floor(value * 0.75);
-      }
-    }
-
-    return Math.max(0, value);
+    // Strength and Weak apply to attack intents; the player's side is unknown here
+    return calculateDamage(this.intent.value, {
+      source: { isPlayer: false, statusEffects: this.getStatusEffects() },
+      target: { isPlayer: true, statusEffects: createEmptyStatusEffects() },
+      relics: [],
+    }).final;
   }
 
   /**
-   * Apply status effect
+   * Plain enemy data in the shape the combat engine and React store use
    */
-  applyVulnerable(stacks: number): void {
-    this.vulnerable = Math.max(this.vulnerable, stacks);
+  toData(): EnemyData {
+    return {
+      id: this.id,
+      name: this.name,
+      type: this.type as EnemyData['type'],
+      maxHp: this.maxHp,
+      currentHp: this.currentHp,
+      block: this.block,
+      moves: this.moves,
+      ai: this.ai,
+      forms: this.forms,
+      phases: this.phases,
+      currentIntent: this.intent,
+      statusEffects: this.getStatusEffects(),
+    };
   }
 
-  applyWeak(stacks: number): void {
-    this.weak = Math.max(this.weak, stacks);
-  }
-
-  applyPoison(stacks: number): void {
-    this.poison += stacks;
-  }
-
-  applyStrength(stacks: number): void {
-    this.strength += stacks;
+  /**
+   * Status effects in the shape the combat engine uses
+   */
+  getStatusEffects(): StatusEffects {
+    return { ...this.statusEffects };
   }
 }
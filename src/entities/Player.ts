@@ -1,10 +1,15 @@
-import { Card, CharacterClass } from '@/types';
+import { Card, CharacterClass, StatusEffects } from '@/types';
 import { Relic } from '@/entities/Relic';
 import { Potion } from '@/entities/Potion';
 import { DataLoader } from '@/utils/DataLoader';
+import { createEmptyStatusEffects } from '@/engine/statusEffects';
+
+/** The curse relics add to the deck (ADD_CURSE) */
+const RELIC_CURSE = 'injury';
 
 /**
- * Player entity - manages player character state
+ * Player entity - manages player character state. CombatEngine owns the
+ * combat rules; CombatManager syncs its state onto this entity.
  */
 export class Player {
   // Character stats
@@ -18,11 +23,7 @@ export class Player {
   public maxEnergy: number = 3;
 
   // Status effects
-  public strength: number = 0;
-  public dexterity: number = 0;
-  public weak: number = 0;
-  public vulnerable: number = 0;
-  public frail: number = 0;
+  public statusEffects: StatusEffects = createEmptyStatusEffects();
 
   // Collections
   public deck: Card[] = [];
@@ -70,36 +71,10 @@ export class Player {
   }
 
   /**
-   * Take damage (after accounting for block)
+   * Status effects in the shape the combat engine uses
    */
-  takeDamage(amount: number): number {
-    // Apply vulnerable (50% more damage)
-    if (this.vulnerable > 0) {
-      amount = Math.floor(amount * 1.5);
-    }
-
-    // Block absorbs damage
-    const damageAfterBlock = Math.max(0, amount - this.block);
-
-    this.block = Math.max(0, this.block - amount);
-    this.currentHp = Math.max(0, this.currentHp - damageAfterBlock);
-
-    return damageAfterBlock;
-  }
-
-  /**
-   * Add block
-   */
-  addBlock(amount: number): void {
-    // Apply dexterity bonus
-    const totalBlock = amount + this.dexterity;
-
-    // Apply frail (25% less block)
-    const finalBlock = this.frail > 0
-      ? Math.floor(totalBlock * 0.75)
-      : totalBlock;
-
-    this.block += Math.max(0, finalBlock);
+  getStatusEffects(): StatusEffects {
+    return { ...this.statusEffects };
   }
 
   /**
@@ -116,38 +91,6 @@ export class Player {
     this.currentHp = Math.max(0, this.currentHp - amount);
   }
 
-  /**
-   * Modify energy
-   */
-  gainEnergy(amount: number): void {
-    this.energy = Math.min(this.maxEnergy + 10, this.energy + amount); // Cap at max+10
-  }
-
-  spendEnergy(amount: number): boolean {
-    if (this.energy >= amount) {
-      this.energy -= amount;
-      return true;
-    }
-    return false;
-  }
-
-  /**
-   * Start of turn - refresh energy and reduce status effects
-   */
-  startTurn(): void {
-    this.energy = this.maxEnergy;
-    this.block = 0; // Block doesn't carry over
-  }
-
-  /**
-   * End of turn - tick down status effects
-   */
-  endTurn(): void {
-    if (this.weak > 0) this.weak--;
-    if (this.vulnerable > 0) this.vulnerable--;
-    if (this.frail > 0) this.frail--;
-  }
-
   /**
    * Start of combat
    */
@@ -156,11 +99,7 @@ export class Player {
     this.energy = this.maxEnergy;
 
     // Reset status effects
-    this.strength = 0;
-    this.dexterity = 0;
-    this.weak = 0;
-    this.vulnerable = 0;
-    this.frail = 0;
+    this.statusEffects = createEmptyStatusEffects();
   }
 
   /**
@@ -209,6 +148,19 @@ export class Player {
           this.addGold(effect.value || 0);
           console.log(`${relic.name}: Gained ${effect.value} gold`);
           break;
+
+        case 'MAX_ENERGY':
+          this.maxEnergy += effect.value || 0;
+          console.log(`${relic.name}: Max energy increased by ${effect.value}`);
+          break;
+
+        case 'ADD_CURSE':
+          for (let i = 0; i < (effect.value || 0); i++) {
+            const curse = DataLoader.getStatusCard(RELIC_CURSE);
+            if (curse) this.addCardToDeck(curse);
+          }
+          console.log(`${relic.name}: Added ${effect.value} curses`);
+          break;
       }
     });
   }
@@ -9,6 +9,7 @@ export class Relic implements RelicInterface {
   public description: string;
   public rarity: CardRarity;
   public effects: RelicEffect[];
+  public weight?: number;
 
   // Runtime state
   public counter: number = 0; // For relics that track usage (e.g., "every 3 combats")
@@ -19,6 +20,7 @@ export class Relic implements RelicInterface {
     this.description = data.description;
     this.rarity = data.rarity;
     this.effects = data.effects;
+    this.weight = data.weight;
   }
 
   /**
@@ -59,6 +61,7 @@ export class Relic implements RelicInterface {
       description: this.description,
       rarity: this.rarity,
       effects: [...this.effects],
+      weight: this.weight,
     });
   }
 }
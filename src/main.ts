@@ -2,9 +2,12 @@ import Phaser from 'phaser';
 import { BootScene } from './scenes/BootScene';
 import { MainMenuScene } from './scenes/MainMenuScene';
 import { CharacterSelectionScene } from './scenes/CharacterSelectionScene';
+import { CustomRunScene } from './scenes/CustomRunScene';
 import { MapScene } from './scenes/MapScene';
 import { CombatScene } from './scenes/CombatScene';
 import { RewardScene } from './scenes/RewardScene';
+import { TreasureScene } from './scenes/TreasureScene';
+import { BossRewardScene } from './scenes/BossRewardScene';
 import { RestScene } from './scenes/RestScene';
 import { EventScene } from './scenes/EventScene';
 import { MerchantScene } from './scenes/MerchantScene';
@@ -24,7 +27,7 @@ const config: Phaser.Types.Core.GameConfig = {
     mode: Phaser.Scale.FIT,
     autoCenter: Phaser.Scale.CENTER_BOTH,
   },
-  scene: [BootScene, MainMenuScene, CharacterSelectionScene, MapScene, CombatScene, RewardScene, RestScene, EventScene, MerchantScene, CardSelectionScene, VictoryScene, DefeatScene, DeckViewScene, OptionsScene],
+  scene: [BootScene, MainMenuScene, CharacterSelectionScene, CustomRunScene, MapScene, CombatScene, RewardScene, BossRewardScene, TreasureScene, RestScene, EventScene, MerchantScene, CardSelectionScene, VictoryScene, DefeatScene, DeckViewScene, OptionsScene],
   physics: {
     default: 'arcade',
     arcade: {
@@ -0,0 +1,153 @@
+import Phaser from 'phaser';
+import { Relic } from '@/entities/Relic';
+import { GameStateManager } from '@/systems/GameStateManager';
+import { DataLoader } from '@/utils/DataLoader';
+import { Button } from '@/ui/Button';
+import { RelicSprite } from '@/ui/RelicSprite';
+import { UICard } from '@/ui/UICard';
+import { Theme } from '@/ui/theme';
+
+/** Boss relics offered after a boss */
+const BOSS_RELIC_CHOICES = 3;
+
+const CHOICE_WIDTH = 340;
+const CHOICE_HEIGHT = 360;
+const CHOICE_SPACING = 400;
+
+/**
+ * BossRewardScene offers a choice of boss relics after an act's boss,
+ * then moves the run on to the next act
+ */
+export class BossRewardScene extends Phaser.Scene {
+  private gameState!: GameStateManager;
+  private choices: UICard[] = [];
+  private leaving = false;
+
+  constructor() {
+    super({ key: 'BossRewardScene' });
+  }
+
+  init(data: { gameState: GameStateManager }) {
+    this.gameState = data.gameState;
+    this.choices = [];
+    this.leaving = false;
+    this.gameState.save('BossRewardScene');
+  }
+
+  create(): void {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+    const centerX = Theme.layout.getCenterX(width);
+
+    // Background
+    this.add.rectangle(
+      width / 2,
+      height / 2,
+      width,
+      height,
+      Theme.helpers.hexToColor(Theme.colors.background)
+    ).setDepth(Theme.layers.background);
+
+    // Title
+    this.add.text(
+      centerX,
+      Theme.layout.positions.topMargin,
+      'BOSS RELIC',
+      Theme.typography.styles.heading1
+    ).setOrigin(0.5).setDepth(Theme.layers.ui);
+
+    this.add.text(
+      centerX,
+      Theme.layout.positions.topMargin + Theme.spacing.xxxl,
+      'Choose one to carry into the next act:',
+      {
+        ...Theme.typography.styles.heading3,
+        color: Theme.colors.text,
+      }
+    ).setOrigin(0.5).setDepth(Theme.layers.ui);
+
+    const owned = this.gameState.player.relics.map((relic) => relic.id);
+    const relics = DataLoader.getBossRelicChoices(BOSS_RELIC_CHOICES, owned);
+    const startX = centerX - ((relics.length - 1) * CHOICE_SPACING) / 2;
+    relics.forEach((relic, index) => {
+      this.choices.push(this.createChoice(relic, startX + index * CHOICE_SPACING, Theme.layout.getCenterY(height)));
+    });
+
+    if (relics.length === 0) {
+      this.add.text(centerX, Theme.layout.getCenterY(height), 'You already carry every boss relic.', {
+        ...Theme.typography.styles.body,
+        color: Theme.colors.textSecondary,
+      }).setOrigin(0.5).setDepth(Theme.layers.ui);
+    }
+
+    new Button({
+      scene: this,
+      x: centerX,
+      y: height - Theme.layout.positions.bottomMargin,
+      text: relics.length > 0 ? 'Skip' : 'Continue',
+      width: 200,
+      style: 'secondary',
+      onClick: () => this.continueToNextAct(),
+    });
+  }
+
+  /**
+   * A boss relic as a card to pick
+   */
+  private createChoice(relic: Relic, x: number, y: number): UICard {
+    const card = new UICard({
+      scene: this,
+      x,
+      y,
+      width: CHOICE_WIDTH,
+      height: CHOICE_HEIGHT,
+      title: relic.name,
+      backgroundColor: Theme.helpers.hexToColor(Theme.colors.backgroundLight),
+      borderColor: Theme.helpers.hexToColor(Theme.colors.boss),
+    });
+    card.setDepth(Theme.layers.ui);
+
+    const contentY = card.getContentStartY();
+    // The card shows the description, so the sprite needs no tooltip of its own
+    const sprite = new RelicSprite(this, 0, 0, relic).setScale(1.5);
+    sprite.disableInteractive();
+    card.addContent(sprite, 0, contentY + Theme.spacing.xxxl);
+
+    card.addText(relic.description, 0, contentY + Theme.spacing.xxxl * 2 + Theme.spacing.lg, {
+      ...Theme.typography.styles.body,
+      color: Theme.colors.textSecondary,
+      align: 'center',
+      wordWrap: { width: CHOICE_WIDTH - Theme.spacing.xl * 2 },
+    }).setOrigin(0.5, 0);
+
+    card.makeInteractive(() => this.onRelicSelected(relic, card));
+    return card;
+  }
+
+  /**
+   * Take a boss relic and move on
+   */
+  private onRelicSelected(relic: Relic, picked: UICard): void {
+    if (this.leaving) return;
+    this.choices.forEach((card) => card !== picked && card.disable());
+    picked.disableInteractive();
+    this.gameState.player.addRelic(relic);
+    console.log(`Took boss relic ${relic.name}`);
+
+    this.tweens.add({
+      targets: picked,
+      scale: 1.1,
+      duration: Theme.animation.slow,
+      yoyo: true,
+      ease: 'Power2',
+      onComplete: () => this.continueToNextAct(),
+    });
+  }
+
+  private continueToNextAct(): void {
+    if (this.leaving) return;
+    this.leaving = true;
+    this.gameState.completeAct();
+    this.scene.start('MapScene', { gameState: this.gameState, newAct: true });
+  }
+}
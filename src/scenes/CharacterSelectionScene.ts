@@ -3,6 +3,9 @@ import { CharacterClass } from '@/types';
 import { DataLoader } from '@/utils/DataLoader';
 import { Player } from '@/entities/Player';
 import { GameStateManager } from '@/systems/GameStateManager';
+import { RunBlessing } from '@/systems/RunBlessing';
+import { UnlockSystem } from '@/systems/UnlockSystem';
+import { TextInput } from '@/ui/TextInput';
 import { UICard } from '@/ui/UICard';
 import { Theme } from '@/ui/theme';
 
@@ -11,6 +14,13 @@ import { Theme } from '@/ui/theme';
  */
 export class CharacterSelectionScene extends Phaser.Scene {
   private characters: CharacterClass[] = [];
+  /** Selected ascension level */
+  private ascension = 0;
+  private ascensionText!: Phaser.GameObjects.Text;
+  private ascensionDescription!: Phaser.GameObjects.Text;
+  private characterCards: { character: CharacterClass; card: UICard }[] = [];
+  /** Optional seed to replay or share a run; empty for a random one */
+  private seedInput!: TextInput;
 
   constructor() {
     super({ key: 'CharacterSelectionScene' });
@@ -61,8 +71,12 @@ export class CharacterSelectionScene extends Phaser.Scene {
     ).setOrigin(0.5);
 
     // Display all characters
+    this.characterCards = [];
     this.displayCharacters();
 
+    this.createAscensionSelector();
+    this.createSeedInput();
+
     // Instructions
     this.add.text(
       width / 2,
@@ -86,6 +100,7 @@ export class CharacterSelectionScene extends Phaser.Scene {
     const height = this.cameras.main.height;
 
     const cardSpacing = 520;
+    const cardHeight = 600;
     const startX = width / 2 - ((this.characters.length - 1) * cardSpacing) / 2;
     const centerY = height / 2 + Theme.spacing.xxxl;
 
@@ -98,7 +113,7 @@ export class CharacterSelectionScene extends Phaser.Scene {
         x: x,
         y: centerY,
         width: 450,
-        height: 600,
+        height: cardHeight,
         title: character.name.toUpperCase(),
         backgroundColor: Theme.helpers.hexToColor(Theme.colors.backgroundLight),
         borderColor: Theme.helpers.hexToColor(Theme.colors.primary),
@@ -192,10 +207,98 @@ export class CharacterSelectionScene extends Phaser.Scene {
         ).setOrigin(0.5, 0);
       }
 
+      // Highest ascension this character has unlocked
+      characterCard.addText(
+        `⛰️ Max Ascension: ${UnlockSystem.getMaxAscension(character.id)}`,
+        0,
+        cardHeight / 2 - Theme.spacing.xl,
+        {
+          ...Theme.typography.styles.body,
+          color: Theme.colors.textSecondary,
+        }
+      ).setOrigin(0.5, 0);
+
       // Make card interactive
       characterCard.makeInteractive(() => {
         this.selectCharacter(character);
       });
+      this.characterCards.push({ character, card: characterCard });
+    });
+  }
+
+  /**
+   * Arrows to pick the ascension level, up to the highest any character has unlocked
+   */
+  private createAscensionSelector(): void {
+    const width = this.cameras.main.width;
+    const y = Theme.spacing.xxxl * 3 + Theme.spacing.lg;
+    const maxLevel = Math.max(0, ...this.characters.map((character) => UnlockSystem.getMaxAscension(character.id)));
+    this.ascension = Math.min(this.ascension, maxLevel);
+
+    this.ascensionText = this.add.text(width / 2, y, '', {
+      ...Theme.typography.styles.heading3,
+      color: Theme.colors.gold,
+    }).setOrigin(0.5);
+
+    this.ascensionDescription = this.add.text(width / 2, y + Theme.spacing.xl, '', {
+      ...Theme.typography.styles.small,
+      color: Theme.colors.textSecondary,
+    }).setOrigin(0.5);
+
+    const arrow = (x: number, label: string, step: number) => {
+      const text = this.add.text(x, y, label, {
+        ...Theme.typography.styles.heading3,
+        color: Theme.colors.text,
+      }).setOrigin(0.5);
+      text.setInteractive({ useHandCursor: true });
+      text.on('pointerdown', () => {
+        this.ascension = Phaser.Math.Clamp(this.ascension + step, 0, maxLevel);
+        this.updateAscension();
+      });
+    };
+    arrow(width / 2 - 200, '◀', -1);
+    arrow(width / 2 + 200, '▶', 1);
+
+    this.updateAscension();
+  }
+
+  /**
+   * Text field for a seed, below the characters
+   */
+  private createSeedInput(): void {
+    const width = this.cameras.main.width;
+    const y = this.cameras.main.height - Theme.spacing.xxxl * 2 + Theme.spacing.sm;
+
+    this.add.text(width / 2 - Theme.spacing.xl - 160, y, '🌱 Seed (optional)', {
+      ...Theme.typography.styles.body,
+      color: Theme.colors.textSecondary,
+    }).setOrigin(1, 0.5);
+
+    this.seedInput = new TextInput({
+      scene: this,
+      x: width / 2,
+      y,
+      width: 320,
+      placeholder: 'random',
+      maxLength: 20,
+      allowed: /[a-z0-9-]/i,
+    });
+  }
+
+  /**
+   * Show the selected level and dim characters that haven't unlocked it
+   */
+  private updateAscension(): void {
+    const level = DataLoader.getAscensionLevels(this.ascension).pop();
+    this.ascensionText.setText(`ASCENSION ${this.ascension}`);
+    this.ascensionDescription.setText(
+      level && this.ascension > 0
+        ? `${level.name}: ${level.description}${this.ascension > 1 ? ' (and every lower level)' : ''}`
+        : 'Win a run to unlock the next level'
+    );
+
+    this.characterCards.forEach(({ character, card }) => {
+      card.setAlpha(this.ascension > UnlockSystem.getMaxAscension(character.id) ? 0.4 : 1);
     });
   }
 
@@ -203,16 +306,22 @@ export class CharacterSelectionScene extends Phaser.Scene {
    * Handle character selection and start the game
    */
   private selectCharacter(character: CharacterClass): void {
-    console.log(`Selected character: ${character.name}`);
+    if (this.ascension > UnlockSystem.getMaxAscension(character.id)) {
+      console.warn(`${character.name} hasn't unlocked ascension ${this.ascension}`);
+      return;
+    }
+    console.log(`Selected character: ${character.name} (ascension ${this.ascension})`);
 
     // Create player from character class
     const player = Player.fromCharacterClass(character);
 
-    // Create game state
-    const gameState = new GameStateManager(player);
+    // Create game state; the same seed and character replay the same run
+    const gameState = new GameStateManager(player, this.seedInput.getValue());
+    gameState.characterId = character.id;
+    gameState.ascension = this.ascension;
     gameState.startRun();
 
-    // Start the game on the map scene
-    this.scene.start('MapScene', { gameState });
+    // Open in the blessing room, which leads on to the map
+    this.scene.start('EventScene', { gameState, event: RunBlessing.getEvent(gameState) });
   }
 }
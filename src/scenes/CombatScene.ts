@@ -1,8 +1,10 @@
 import Phaser from 'phaser';
 import { Player } from '@/entities/Player';
 import { Enemy } from '@/entities/Enemy';
-import { CombatManager } from '@/systems/CombatManager';
+import { CombatManager, CombatSnapshot } from '@/systems/CombatManager';
 import { GameStateManager } from '@/systems/GameStateManager';
+import { EncounterSystem } from '@/systems/EncounterSystem';
+import { RNG } from '@/systems/RNG';
 import { DataLoader } from '@/utils/DataLoader';
 import { CardSprite } from '@/ui/CardSprite';
 import { EnemySprite } from '@/ui/EnemySprite';
@@ -20,6 +22,8 @@ export class CombatScene extends Phaser.Scene {
   private gameState: GameStateManager | null = null;
   private isElite = false;
   private isBoss = false;
+  /** Fight to resume instead of starting a new one */
+  private snapshot: CombatSnapshot | null = null;
 
   // UI Elements
   private cardSprites: CardSprite[] = [];
@@ -35,18 +39,21 @@ export class CombatScene extends Phaser.Scene {
   private hpBar!: ProgressBar;
   private energyBar!: ProgressBar;
   private playerBlockText!: Phaser.GameObjects.Text;
+  private powersText!: Phaser.GameObjects.Text;
   private turnText!: Phaser.GameObjects.Text;
   private endTurnButton!: Button;
+  private undoButton!: Button;
   private actionBarCard!: UICard;
 
   constructor() {
     super({ key: 'CombatScene' });
   }
 
-  init(data: { gameState?: GameStateManager; isElite?: boolean; isBoss?: boolean }) {
+  init(data: { gameState?: GameStateManager; isElite?: boolean; isBoss?: boolean; combat?: CombatSnapshot }) {
     this.gameState = data.gameState || null;
     this.isElite = data.isElite || false;
     this.isBoss = data.isBoss || false;
+    this.snapshot = data.combat || null;
   }
 
   create(): void {
@@ -66,13 +73,19 @@ export class CombatScene extends Phaser.Scene {
       console.log('Created test player');
     }
 
-    // Create enemies based on difficulty
-    const enemies = this.createEnemies();
-    console.log(`Created ${enemies.length} enemies for combat`);
+    if (this.snapshot) {
+      // Resume a saved fight where it left off
+      this.combat = CombatManager.restore(this.player, this.snapshot);
+      console.log(`CombatManager restored on turn ${this.combat.turn}`);
+    } else {
+      // Create enemies based on difficulty
+      const enemies = this.createEnemies();
+      console.log(`Created ${enemies.length} enemies for combat`);
 
-    // Create combat manager
-    this.combat = new CombatManager(this.player, enemies);
-    console.log(`CombatManager initialized with ${this.combat.enemies.length} enemies`);
+      // Create combat manager
+      this.combat = new CombatManager(this.player, enemies, this.gameState?.ascension ?? 0);
+      console.log(`CombatManager initialized with ${this.combat.enemies.length} enemies`);
+    }
 
     // Setup callbacks
     this.setupCombatCallbacks();
@@ -87,8 +100,10 @@ export class CombatScene extends Phaser.Scene {
     this.createRelicSprites();
     this.createPotionSprites(width, height);
 
-    // Start combat
-    this.combat.startCombat();
+    // Start combat (a restored fight is already under way)
+    if (!this.snapshot) {
+      this.combat.startCombat();
+    }
     this.updateHand(); // Create cards FIRST
     this.updateUI();   // Then update UI
 
@@ -97,54 +112,24 @@ export class CombatScene extends Phaser.Scene {
       this.scene.start('MainMenuScene');
     });
 
+    // Z to undo the last card play or potion
+    this.input.keyboard?.on('keydown-Z', () => this.undoLastAction());
+
     console.log('Combat scene initialized!');
   }
 
   /**
-   * Create enemies for combat based on difficulty
+   * Create enemies for combat from the act's encounter table
    */
   private createEnemies(): Enemy[] {
-    const enemies: Enemy[] = [];
-
-    if (this.isBoss) {
-      // Boss: 1 boss enemy
-      const boss = DataLoader.getRandomEnemyByType('boss');
-      if (boss) {
-        enemies.push(boss);
-      }
-    } else if (this.isElite) {
-      // Elite: 1-3 elite enemies (sentries come in packs)
-      const elite = DataLoader.getRandomEnemyByType('elite');
-      if (elite) {
-        if (elite.id === 'sentry') {
-          // Sentries come in groups of 3
-          for (let i = 0; i < 3; i++) {
-            const sentry = DataLoader.getEnemy('sentry');
-            if (sentry) enemies.push(sentry);
-          }
-        } else {
-          enemies.push(elite);
-        }
-      }
-    } else {
-      // Normal: 1-3 random normal enemies
-      const enemyCount = Math.floor(Math.random() * 3) + 1; // 1-3 enemies
-      const normalEnemies = DataLoader.getEnemiesByType('normal');
-      console.log(`Normal combat: ${enemyCount} enemies needed, ${normalEnemies.length} normal enemies available`);
-      console.log('Normal enemy IDs:', normalEnemies.map(e => `${e.id}(${e.type})`));
-
-      for (let i = 0; i < enemyCount; i++) {
-        if (normalEnemies.length > 0) {
-          const randomEnemy = normalEnemies[Math.floor(Math.random() * normalEnemies.length)];
-          console.log(`Selecting random enemy: ${randomEnemy.id} (${randomEnemy.type})`);
-          const enemy = DataLoader.getEnemy(randomEnemy.id);
-          console.log(`Got enemy instance:`, enemy ? `${enemy.name} (${enemy.type})` : 'undefined');
-          if (enemy) enemies.push(enemy);
-        }
-      }
-    }
-
-    console.log(`createEnemies returning ${enemies.length} enemies`);
+    const kind = this.isBoss ? 'boss' : this.isElite ? 'elite' : 'normal';
+
+    // Test mode (no run) fights a first-floor encounter
+    const encounter = this.gameState
+      ? this.gameState.rollEncounter(kind)
+      : EncounterSystem.pickEncounter(1, kind, 0);
+    const enemies = encounter ? EncounterSystem.createEnemies(encounter) : [];
+    console.log(`Encounter ${encounter?.name ?? 'none'}: ${enemies.length} enemies`);
     return enemies;
   }
 
@@ -181,9 +166,31 @@ export class CombatScene extends Phaser.Scene {
       }
     };
 
+    this.combat.onEnemySpawned = (enemy) => {
+      this.addEnemySprite(enemy);
+      this.layoutEnemySprites(this.cameras.main.width);
+      this.updateUI();
+    };
+
     this.combat.onCombatEnd = (victory) => {
       this.showCombatEndScreen(victory);
     };
+
+    this.combat.onStateChanged = () => this.saveCombat();
+  }
+
+  /**
+   * Save the run with the fight as it stands, so it resumes after a reload.
+   * A finished fight isn't saved; the reward screen saves next.
+   */
+  private saveCombat(): void {
+    if (!this.gameState || this.combat.combatEnded) return;
+
+    this.gameState.save('CombatScene', {
+      isElite: this.isElite,
+      isBoss: this.isBoss,
+      combat: this.combat.getSnapshot(),
+    });
   }
 
   /**
@@ -305,6 +312,18 @@ export class CombatScene extends Phaser.Scene {
       }
     ).setName('discardPileInfo');
 
+    // Active powers (under the player stats card)
+    this.powersText = this.add.text(
+      this.playerStatsCard.x - this.playerStatsCard.width / 2 + Theme.spacing.sm,
+      this.playerStatsCard.y + this.playerStatsCard.height / 2 + Theme.spacing.md,
+      '',
+      {
+        ...Theme.typography.styles.small,
+        color: Theme.colors.successLight,
+        wordWrap: { width: this.playerStatsCard.width - Theme.spacing.sm * 2 },
+      }
+    ).setDepth(Theme.layers.ui);
+
     // Turn/Actions card (right side, more visible and compact)
     const actionsCard = new UICard({
       scene: this,
@@ -349,6 +368,19 @@ export class CombatScene extends Phaser.Scene {
     });
     this.endTurnButton.setDepth(Theme.layers.panels + 5); // Above the card
 
+    // Undo Button - just below the card
+    this.undoButton = new Button({
+      scene: this,
+      x: actionsCard.x,
+      y: actionsCard.y + actionsCard.height / 2 + Theme.spacing.xl,
+      text: '↩️ UNDO (Z)',
+      width: actionsCard.width - Theme.spacing.xl * 2,
+      height: Theme.dimensions.button.height,
+      style: 'secondary',
+      onClick: () => this.undoLastAction(),
+    });
+    this.undoButton.setDepth(Theme.layers.panels + 5);
+
     // Bottom-left action bar (Draw, Discard, Map, Options buttons)
     this.actionBarCard = new UICard({
       scene: this,
@@ -444,24 +476,36 @@ export class CombatScene extends Phaser.Scene {
     const enemies = this.combat.getAliveEnemies();
     console.log(`Creating ${enemies.length} enemy sprites`);
 
-    const spacing = 250;
-    const startX = width / 2 - ((enemies.length - 1) * spacing) / 2;
+    enemies.forEach((enemy) => this.addEnemySprite(enemy));
+    this.layoutEnemySprites(width);
 
-    enemies.forEach((enemy, index) => {
-      const x = startX + index * spacing;
-      const y = 300;
-      console.log(`Creating enemy sprite for ${enemy.name} at (${x}, ${y})`);
+    console.log(`Total enemy sprites created: ${this.enemySprites.length}`);
+  }
 
-      const sprite = new EnemySprite(this, x, y, enemy);
-      this.enemySprites.push(sprite);
+  /**
+   * Create the sprite for one enemy (also used for enemies spawned mid-combat)
+   */
+  private addEnemySprite(enemy: Enemy): void {
+    const sprite = new EnemySprite(this, 0, 300, enemy);
+    this.enemySprites.push(sprite);
 
-      // Make enemy clickable for targeting
-      sprite.on('pointerdown', () => {
-        this.onEnemyClicked(sprite);
-      });
+    // Make enemy clickable for targeting
+    sprite.on('pointerdown', () => {
+      this.onEnemyClicked(sprite);
     });
+  }
 
-    console.log(`Total enemy sprites created: ${this.enemySprites.length}`);
+  /**
+   * Space the enemies that are still on the battlefield evenly across the screen
+   */
+  private layoutEnemySprites(width: number): void {
+    const sprites = this.enemySprites.filter((sprite) => !sprite.getEnemy().isGone());
+    const spacing = sprites.length > 4 ? 200 : 250;
+    const startX = width / 2 - ((sprites.length - 1) * spacing) / 2;
+
+    sprites.forEach((sprite, index) => {
+      sprite.x = startX + index * spacing;
+    });
   }
 
   /**
@@ -567,6 +611,16 @@ export class CombatScene extends Phaser.Scene {
       this.playerBlockText.setVisible(false);
     }
 
+    // Active powers, with their values filled in
+    this.powersText.setText(this.combat.powers.map((power) => {
+      const description = power.effects.reduce(
+        (text, effect, i) => text.replace(`{${i}}`, String(effect.value)),
+        power.description
+      );
+      const stacks = power.stacks > 1 ? ` ×${power.stacks}` : '';
+      return `✨ ${power.name}${stacks}: ${description}`;
+    }).join('\n'));
+
     // Turn info
     this.turnText.setText(`Turn ${this.combat.turn}`);
 
@@ -593,6 +647,24 @@ export class CombatScene extends Phaser.Scene {
     } else {
       this.endTurnButton.enable();
     }
+
+    if (this.combat.canUndo()) {
+      this.undoButton.enable();
+    } else {
+      this.undoButton.disable();
+    }
+  }
+
+  /**
+   * Take back the last card play or potion this turn
+   */
+  private undoLastAction(): void {
+    if (!this.combat.undo()) return;
+
+    this.selectedPotionIndex = null;
+    this.updateHand();
+    this.updatePotionDisplay();
+    this.updateUI();
   }
 
   /**
@@ -638,7 +710,7 @@ export class CombatScene extends Phaser.Scene {
 
       // Drag start - lift card and make it larger
       cardSprite.on('dragstart', () => {
-        const canPlay = this.combat.player.energy >= card.cost && this.combat.isPlayerTurn;
+        const canPlay = !card.unplayable && this.combat.player.energy >= card.cost && this.combat.isPlayerTurn;
         if (!canPlay) return;
 
         cardSprite.setData('isDragging', true);
@@ -663,7 +735,7 @@ export class CombatScene extends Phaser.Scene {
         // Check if hovering over an enemy and highlight them
         this.enemySprites.forEach((enemySprite) => {
           const enemy = enemySprite.getEnemy();
-          if (enemy.isDead()) return;
+          if (!enemy.isActive()) return;
 
           const bounds = enemySprite.getBounds();
           if (bounds.contains(dragX, dragY)) {
@@ -684,7 +756,7 @@ export class CombatScene extends Phaser.Scene {
         let targetEnemySprite: EnemySprite | undefined;
         this.enemySprites.forEach((enemySprite) => {
           const enemy = enemySprite.getEnemy();
-          if (enemy.isDead()) return;
+          if (!enemy.isActive()) return;
 
           const bounds = enemySprite.getBounds();
           if (bounds.contains(cardSprite.x, cardSprite.y)) {
@@ -737,7 +809,7 @@ export class CombatScene extends Phaser.Scene {
 
       const card = sprite.getCard();
       const canAfford = this.combat.player.energy >= card.cost;
-      sprite.setPlayable(canAfford && this.combat.isPlayerTurn);
+      sprite.setPlayable(canAfford && !card.unplayable && this.combat.isPlayerTurn);
     });
   }
 
@@ -768,7 +840,7 @@ export class CombatScene extends Phaser.Scene {
 
     // Highlight all alive enemies
     this.enemySprites.forEach((sprite) => {
-      if (!sprite.getEnemy().isDead()) {
+      if (sprite.getEnemy().isActive()) {
         sprite.setSelected(true);
       }
     });
@@ -778,7 +850,7 @@ export class CombatScene extends Phaser.Scene {
    * Handle enemy clicked
    */
   private onEnemyClicked(enemySprite: EnemySprite): void {
-    if (enemySprite.getEnemy().isDead()) return;
+    if (!enemySprite.getEnemy().isActive()) return;
 
     // Check if a potion is selected and waiting for a target
     if (this.selectedPotionIndex !== null) {
@@ -835,8 +907,8 @@ export class CombatScene extends Phaser.Scene {
    */
   private showCombatEndScreen(victory: boolean): void {
     if (victory) {
-      // Check if this was a boss fight - if so, show victory screen
-      if (this.isBoss && this.gameState) {
+      // Beating the last act's boss wins the run; earlier bosses lead to the next act
+      if (this.isBoss && this.gameState?.isFinalAct()) {
         this.time.delayedCall(1000, () => {
           this.scene.start('VictoryScene', {
             gameState: this.gameState
@@ -847,7 +919,7 @@ export class CombatScene extends Phaser.Scene {
         const goldReward = this.calculateGoldReward();
 
         // Random potion drop (40% chance)
-        const potionDrop = Math.random() < 0.4 ? DataLoader.getRandomWeightedPotion() : null;
+        const potionDrop = RNG.get('potions').chance(0.4) ? DataLoader.getRandomWeightedPotion() : null;
 
         // Delay before transitioning to rewards
         this.time.delayedCall(1000, () => {
@@ -866,7 +938,7 @@ export class CombatScene extends Phaser.Scene {
     } else {
       // Defeat: determine what killed the player
       let killedBy = 'Unknown';
-      const aliveEnemies = this.combat.enemies.filter(e => !e.isDead());
+      const aliveEnemies = this.combat.enemies.filter(e => e.isActive());
       if (aliveEnemies.length > 0) {
         killedBy = aliveEnemies[0].name;
       }
@@ -995,18 +1067,23 @@ export class CombatScene extends Phaser.Scene {
   private calculateGoldReward(): number {
     let gold = 0;
 
-    this.combat.enemies.forEach(_enemy => {
-      // Base gold per enemy: 12-25 (increased from 10-20)
-      gold += 12 + Math.floor(Math.random() * 14);
-    });
+    // Only the fight's original enemies pay; summons, split-offs and
+    // enemies that escaped don't
+    this.combat.enemies
+      .filter((enemy) => !enemy.spawned && !enemy.escaped)
+      .forEach(() => {
+        // Base gold per enemy: 12-25 (increased from 10-20)
+        gold += 12 + RNG.get('monsters').nextInt(14);
+      });
 
     // Bonus for elite/boss (increased multipliers)
     if (this.isElite) gold = Math.floor(gold * 2); // Increased from 1.5x to 2x
     if (this.isBoss) gold = Math.floor(gold * 3); // Increased from 2x to 3x
 
-    // Floor bonus (increased)
+    // Floor bonus (increased) and act scaling
     if (this.gameState) {
       gold += this.gameState.currentFloor * 3; // Increased from 2 to 3
+      gold = Math.floor(gold * DataLoader.getActConfig(this.gameState.currentAct).goldMultiplier);
     }
 
     return gold;
@@ -0,0 +1,312 @@
+import Phaser from 'phaser';
+import { CharacterClass } from '@/types';
+import { CustomRun, CustomRunConfig } from '@/systems/CustomRun';
+import { DataLoader } from '@/utils/DataLoader';
+import { Button } from '@/ui/Button';
+import { TextInput } from '@/ui/TextInput';
+import { UICard } from '@/ui/UICard';
+import { Theme } from '@/ui/theme';
+
+interface CustomRunSceneData {
+  config?: CustomRunConfig;
+  /** Position of the card and relic pickers */
+  cardIndex?: number;
+  relicIndex?: number;
+}
+
+const PANEL_WIDTH = 560;
+const PANEL_HEIGHT = 760;
+const HP_STEP = 5;
+const GOLD_STEP = 25;
+/** Deck and relic lists stop here; the rest is summed up in one line */
+const MAX_LIST_ROWS = 18;
+
+/**
+ * CustomRunScene - Set up a run with any character, seed, deck, relics,
+ * HP, gold and modifiers. Every change restarts the scene with the new
+ * config, so the panels are always drawn from it.
+ */
+export class CustomRunScene extends Phaser.Scene {
+  private config!: CustomRunConfig;
+  private characters: CharacterClass[] = [];
+  private cardIndex = 0;
+  private relicIndex = 0;
+
+  constructor() {
+    super({ key: 'CustomRunScene' });
+  }
+
+  init(data: CustomRunSceneData) {
+    DataLoader.initialize();
+    this.characters = DataLoader.getAllCharacterClasses();
+    this.config = data.config ?? CustomRun.fromCharacter(this.characters[0]);
+    this.cardIndex = data.cardIndex ?? 0;
+    this.relicIndex = data.relicIndex ?? 0;
+  }
+
+  create(): void {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+
+    this.add.rectangle(width / 2, height / 2, width, height, Theme.helpers.hexToColor(Theme.colors.background));
+
+    this.add.text(width / 2, Theme.spacing.xxxl, 'CUSTOM RUN', {
+      ...Theme.typography.styles.title,
+      fontSize: '64px',
+    }).setOrigin(0.5);
+
+    this.add.text(width / 2, Theme.spacing.xxxl * 2, "Custom runs don't count toward stats or unlocks", {
+      ...Theme.typography.styles.body,
+      color: Theme.colors.textMuted,
+    }).setOrigin(0.5);
+
+    const panelY = height / 2 + Theme.spacing.lg;
+    this.createSettingsPanel(width / 2 - PANEL_WIDTH - Theme.spacing.xl, panelY);
+    this.createDeckPanel(width / 2, panelY);
+    this.createRelicPanel(width / 2 + PANEL_WIDTH + Theme.spacing.xl, panelY);
+
+    new Button({
+      scene: this,
+      x: width / 2 - 220,
+      y: height - Theme.spacing.xxxl,
+      text: '← BACK',
+      width: 300,
+      style: 'secondary',
+      onClick: () => this.scene.start('MainMenuScene'),
+    });
+
+    new Button({
+      scene: this,
+      x: width / 2 + 220,
+      y: height - Theme.spacing.xxxl,
+      text: '⚔️  START CUSTOM RUN',
+      width: 400,
+      style: 'primary',
+      onClick: () => this.startRun(),
+    });
+  }
+
+  /**
+   * Character, seed, HP, gold and modifier toggles
+   */
+  private createSettingsPanel(x: number, y: number): void {
+    const panel = this.createPanel(x, y, 'SETTINGS');
+    const left = -PANEL_WIDTH / 2 + Theme.spacing.lg;
+    let rowY = panel.getContentStartY() + Theme.spacing.md;
+
+    const character = this.characters.find((c) => c.id === this.config.characterId) ?? this.characters[0];
+    this.addStepper(panel, rowY, 'Character', character.name, (step) => {
+      const index = this.characters.indexOf(character);
+      const next = this.characters[(index + step + this.characters.length) % this.characters.length];
+      this.refresh({ ...CustomRun.fromCharacter(next), seed: this.config.seed, modifiers: this.config.modifiers });
+    });
+
+    rowY += Theme.spacing.xxl;
+    panel.addText('Seed', left, rowY, Theme.typography.styles.body).setOrigin(0, 0.5);
+    panel.add(new TextInput({
+      scene: this,
+      x: Theme.spacing.xxxl,
+      y: rowY,
+      width: 300,
+      value: this.config.seed,
+      placeholder: 'random',
+      maxLength: 20,
+      allowed: /[a-z0-9-]/i,
+      onChange: (seed) => {
+        this.config.seed = seed;
+      },
+    }));
+
+    rowY += Theme.spacing.xxl + Theme.spacing.sm;
+    this.addStepper(panel, rowY, 'Max HP', `${this.config.maxHp}`, (step) => {
+      this.refresh({ ...this.config, maxHp: Math.max(1, this.config.maxHp + step * HP_STEP) });
+    });
+
+    rowY += Theme.spacing.xxl;
+    this.addStepper(panel, rowY, 'Gold', `${this.config.gold}`, (step) => {
+      this.refresh({ ...this.config, gold: Math.max(0, this.config.gold + step * GOLD_STEP) });
+    });
+
+    rowY += Theme.spacing.xxl + Theme.spacing.sm;
+    panel.addText(Theme.helpers.getSectionDivider('MODIFIERS'), 0, rowY, {
+      ...Theme.typography.styles.heading3,
+      color: Theme.colors.gold,
+    }).setOrigin(0.5);
+
+    DataLoader.getAllModifiers().forEach((modifier) => {
+      rowY += Theme.spacing.xl;
+      const enabled = this.config.modifiers.includes(modifier.id);
+      const toggle = this.addLink(panel, left, rowY, `${enabled ? '☑' : '☐'} ${modifier.name}`, () => {
+        const modifiers = enabled
+          ? this.config.modifiers.filter((id) => id !== modifier.id)
+          : [...this.config.modifiers, modifier.id];
+        this.refresh({ ...this.config, modifiers });
+      });
+      toggle.setColor(enabled ? Theme.colors.success : Theme.colors.text);
+
+      panel.addText(modifier.description, left + 220, rowY, {
+        ...Theme.typography.styles.small,
+        fontSize: '14px',
+        color: Theme.colors.textSecondary,
+      }).setOrigin(0, 0.5);
+    });
+  }
+
+  /**
+   * The starting deck (click a card to remove a copy) and a picker over the card pool
+   */
+  private createDeckPanel(x: number, y: number): void {
+    const panel = this.createPanel(x, y, `DECK (${this.config.deck.length} CARDS)`);
+    const left = -PANEL_WIDTH / 2 + Theme.spacing.lg;
+
+    const counts = new Map<string, number>();
+    this.config.deck.forEach((id) => counts.set(id, (counts.get(id) ?? 0) + 1));
+    this.addList(panel, left, panel.getContentStartY() + Theme.spacing.md, [...counts.entries()], ([id, count]) => {
+      const card = DataLoader.getCard(id) ?? DataLoader.getStatusCard(id);
+      return {
+        label: `${card?.name ?? id} ×${count}`,
+        onClick: () => {
+          const deck = [...this.config.deck];
+          deck.splice(deck.lastIndexOf(id), 1);
+          this.refresh({ ...this.config, deck });
+        },
+      };
+    });
+
+    const pool = DataLoader.getAllCards();
+    if (pool.length === 0) return;
+    const card = pool[this.cardIndex % pool.length];
+    const pickerY = PANEL_HEIGHT / 2 - Theme.spacing.xxxl * 2;
+    this.addStepper(panel, pickerY, '', `${card.name} (${card.cost}) ${card.rarity}`, (step) => {
+      this.cardIndex = (this.cardIndex + step + pool.length) % pool.length;
+      this.refresh(this.config);
+    });
+
+    panel.add(new Button({
+      scene: this,
+      x: 0,
+      y: pickerY + Theme.spacing.xxxl,
+      text: '+ ADD CARD',
+      width: 240,
+      style: 'success',
+      onClick: () => this.refresh({ ...this.config, deck: [...this.config.deck, card.id] }),
+    }));
+  }
+
+  /**
+   * The starting relics (click one to remove it) and a picker over every relic
+   */
+  private createRelicPanel(x: number, y: number): void {
+    const panel = this.createPanel(x, y, `RELICS (${this.config.relics.length})`);
+    const left = -PANEL_WIDTH / 2 + Theme.spacing.lg;
+
+    this.addList(panel, left, panel.getContentStartY() + Theme.spacing.md, this.config.relics, (id) => ({
+      label: `🏺 ${DataLoader.getRelic(id)?.name ?? id}`,
+      onClick: () => this.refresh({ ...this.config, relics: this.config.relics.filter((relicId) => relicId !== id) }),
+    }));
+
+    const relics = DataLoader.getAllRelics().filter((relic) => !this.config.relics.includes(relic.id));
+    if (relics.length === 0) return;
+    const relic = relics[this.relicIndex % relics.length];
+    const pickerY = PANEL_HEIGHT / 2 - Theme.spacing.xxxl * 2;
+
+    panel.addText(relic.description, 0, pickerY - Theme.spacing.xxl, {
+      ...Theme.typography.styles.small,
+      color: Theme.colors.textSecondary,
+      wordWrap: { width: PANEL_WIDTH - Theme.spacing.xxl * 2 },
+      align: 'center',
+    }).setOrigin(0.5);
+
+    this.addStepper(panel, pickerY, '', relic.name, (step) => {
+      this.relicIndex = (this.relicIndex + step + relics.length) % relics.length;
+      this.refresh(this.config);
+    });
+
+    panel.add(new Button({
+      scene: this,
+      x: 0,
+      y: pickerY + Theme.spacing.xxxl,
+      text: '+ ADD RELIC',
+      width: 240,
+      style: 'success',
+      onClick: () => this.refresh({ ...this.config, relics: [...this.config.relics, relic.id] }),
+    }));
+  }
+
+  private createPanel(x: number, y: number, title: string): UICard {
+    return new UICard({
+      scene: this,
+      x,
+      y,
+      width: PANEL_WIDTH,
+      height: PANEL_HEIGHT,
+      title,
+      backgroundColor: Theme.helpers.hexToColor(Theme.colors.backgroundLight),
+      borderColor: Theme.helpers.hexToColor(Theme.colors.primary),
+      alpha: 0.95,
+    });
+  }
+
+  /**
+   * A row with a label on the left and ◀ value ▶ on the right (centered without a label)
+   */
+  private addStepper(panel: UICard, y: number, label: string, value: string, onStep: (step: number) => void): void {
+    const centerX = label ? Theme.spacing.xxxl : 0;
+    if (label) {
+      panel.addText(label, -PANEL_WIDTH / 2 + Theme.spacing.lg, y, Theme.typography.styles.body).setOrigin(0, 0.5);
+    }
+
+    panel.addText(value, centerX, y, {
+      ...Theme.typography.styles.body,
+      color: Theme.colors.gold,
+    }).setOrigin(0.5);
+
+    const spread = label ? 170 : PANEL_WIDTH / 2 - Theme.spacing.xl;
+    this.addLink(panel, centerX - spread, y, '◀', () => onStep(-1)).setOrigin(0.5);
+    this.addLink(panel, centerX + spread, y, '▶', () => onStep(1)).setOrigin(0.5);
+  }
+
+  /**
+   * Clickable rows, cut off after MAX_LIST_ROWS
+   */
+  private addList<T>(
+    panel: UICard,
+    x: number,
+    y: number,
+    items: T[],
+    describe: (item: T) => { label: string; onClick: () => void }
+  ): void {
+    items.slice(0, MAX_LIST_ROWS).forEach((item, index) => {
+      const { label, onClick } = describe(item);
+      this.addLink(panel, x, y + index * Theme.spacing.xl, label, onClick);
+    });
+
+    if (items.length > MAX_LIST_ROWS) {
+      panel.addText(`... and ${items.length - MAX_LIST_ROWS} more`, x, y + MAX_LIST_ROWS * Theme.spacing.xl, {
+        ...Theme.typography.styles.small,
+        color: Theme.colors.textMuted,
+      }).setOrigin(0, 0.5);
+    }
+  }
+
+  /**
+   * Text that highlights on hover and runs onClick when pressed
+   */
+  private addLink(panel: UICard, x: number, y: number, text: string, onClick: () => void): Phaser.GameObjects.Text {
+    const link = panel.addText(text, x, y, Theme.typography.styles.body).setOrigin(0, 0.5);
+    link.setInteractive({ useHandCursor: true });
+    link.on('pointerover', () => link.setAlpha(0.7));
+    link.on('pointerout', () => link.setAlpha(1));
+    link.on('pointerdown', onClick);
+    return link;
+  }
+
+  private refresh(config: CustomRunConfig): void {
+    this.scene.restart({ config, cardIndex: this.cardIndex, relicIndex: this.relicIndex });
+  }
+
+  private startRun(): void {
+    const gameState = CustomRun.startRun(this.config);
+    this.scene.start('MapScene', { gameState });
+  }
+}
@@ -1,11 +1,16 @@
 import Phaser from 'phaser';
+import { DailyChallenge } from '@/systems/DailyChallenge';
 import { GameStateManager } from '@/systems/GameStateManager';
+import { RunBlessing } from '@/systems/RunBlessing';
+import { UnlockSystem } from '@/systems/UnlockSystem';
+import { SeedDisplay } from '@/ui/SeedDisplay';
 
 /**
  * DefeatScene - Displayed when the player dies during a run
  */
 export class DefeatScene extends Phaser.Scene {
   private gameState!: GameStateManager;
+  private dailyResult: ReturnType<typeof DailyChallenge.recordResult> = null;
   private killedBy?: string;
 
   constructor() {
@@ -15,6 +20,13 @@ export class DefeatScene extends Phaser.Scene {
   init(data: { gameState: GameStateManager; killedBy?: string }) {
     this.gameState = data.gameState;
     this.killedBy = data.killedBy || 'Unknown';
+    GameStateManager.clearSave();
+    this.dailyResult = DailyChallenge.recordResult(this.gameState, false);
+
+    // Getting to a boss unlocks bigger blessings for the next run
+    if (!this.gameState.custom) {
+      UnlockSystem.recordRunEnd(RunBlessing.reachedBoss(this.gameState));
+    }
   }
 
   create(): void {
@@ -48,6 +60,9 @@ export class DefeatScene extends Phaser.Scene {
       fontFamily: 'monospace',
     }).setOrigin(0.5);
 
+    // The seed, to share or replay the run
+    new SeedDisplay({ scene: this, x: width / 2, y: 262, seed: this.gameState.seed, align: 'center' });
+
     // Run statistics
     this.displayRunStatistics(width, height);
 
@@ -78,6 +93,16 @@ export class DefeatScene extends Phaser.Scene {
       `Deck Size: ${player.deck.length} cards`,
       `Relics Obtained: ${player.relics.length}`,
     ];
+    if (this.gameState.ascension > 0) {
+      stats.push(`Ascension: ${this.gameState.ascension}`);
+    }
+    if (this.gameState.custom) {
+      stats.push('Custom Run (not recorded)');
+    }
+    if (this.dailyResult) {
+      const { result, best, isNewBest } = this.dailyResult;
+      stats.push(`Daily Score: ${result.score} ${isNewBest ? '(new best!)' : `(best ${best.score})`}`);
+    }
 
     stats.forEach((stat, index) => {
       this.add.text(width / 2, startY + 60 + index * lineHeight, stat, {
@@ -1,6 +1,8 @@
 import Phaser from 'phaser';
 import { GameEvent, EventChoice, EventOutcome, Card, CardType, CardRarity, TargetType } from '@/types';
 import { GameStateManager } from '@/systems/GameStateManager';
+import { ModifierSystem } from '@/systems/ModifierSystem';
+import { RNG } from '@/systems/RNG';
 import { DataLoader } from '@/utils/DataLoader';
 
 /**
@@ -32,7 +34,8 @@ export class EventScene extends Phaser.Scene {
     // If returning from CardSelectionScene
     if (data.pendingOutcome && data.selectedCardIndex !== undefined) {
       this.chosenOutcomes = data.chosenOutcomes || [];
-      this.outcomeIndex = data.outcomeIndex || 0;
+      // The pending outcome is done once its card is picked; go on past it
+      this.outcomeIndex = (data.outcomeIndex || 0) + 1;
       this.pendingOutcome = data.pendingOutcome;
       this.selectedCardIndex = data.selectedCardIndex;
 
@@ -42,8 +45,10 @@ export class EventScene extends Phaser.Scene {
       }
       this.pendingOutcome = undefined;
     } else {
-      // Normal initialization
-      this.event = data.event || DataLoader.getRandomEvent()!;
+      // Normal initialization. Saved before the event is picked, so a
+      // resumed run picks the same one; a given event is saved with it.
+      this.gameState.save('EventScene', data.event ? { event: data.event } : {});
+      this.event = data.event || DataLoader.getRandomEvent(this.gameState.currentAct)!;
       this.chosenOutcomes = [];
       this.outcomeIndex = 0;
       this.pendingOutcome = undefined;
@@ -144,7 +149,7 @@ export class EventScene extends Phaser.Scene {
     if (allWeighted && outcomes.length > 1) {
       // Random weighted selection
       const totalWeight = outcomes.reduce((sum, o) => sum + (o.weight || 1), 0);
-      const roll = Math.random() * totalWeight;
+      const roll = RNG.random('events') * totalWeight;
 
       let currentWeight = 0;
       for (const outcome of outcomes) {
@@ -288,6 +293,17 @@ export class EventScene extends Phaser.Scene {
         }
         break;
 
+      case 'SWAP_STARTER_RELIC':
+        // The character's starting relic; not every one is of STARTER rarity
+        const startingRelicId = DataLoader.getCharacterClass(this.gameState.characterId ?? '')?.startingRelic;
+        const starterIndex = player.relics.findIndex(r => r.id === startingRelicId);
+        const bossRelic = DataLoader.getRandomBossRelic(player.relics.map(r => r.id));
+        if (starterIndex >= 0 && bossRelic) {
+          player.relics.splice(starterIndex, 1);
+          player.addRelic(bossRelic);
+        }
+        break;
+
       case 'GAIN_RANDOM_POTION':
         const potion = DataLoader.getRandomWeightedPotion();
         if (potion) {
@@ -299,7 +315,7 @@ export class EventScene extends Phaser.Scene {
         // TODO: Show card selection screen
         // For now: remove a random card
         if (player.deck.length > 0) {
-          const randomIndex = Math.floor(Math.random() * player.deck.length);
+          const randomIndex = RNG.get('events').nextInt(player.deck.length);
           player.deck.splice(randomIndex, 1);
         }
         break;
@@ -308,11 +324,11 @@ export class EventScene extends Phaser.Scene {
         // TODO: Show card selection screen
         // For now: transform a random card
         if (player.deck.length > 0) {
-          const randomIndex = Math.floor(Math.random() * player.deck.length);
+          const randomIndex = RNG.get('events').nextInt(player.deck.length);
           const allCards = DataLoader.getAllCards();
-          const newCard = allCards[Math.floor(Math.random() * allCards.length)];
+          const newCard = RNG.get('cards').pick(allCards);
           if (newCard) {
-            player.deck[randomIndex] = { ...newCard };
+            player.deck[randomIndex] = ModifierSystem.applyToCard({ ...newCard }, this.gameState.getActiveModifiers());
           }
         }
         break;
@@ -320,7 +336,7 @@ export class EventScene extends Phaser.Scene {
       case 'UPGRADE_RANDOM_CARD':
         const upgradeableCards = player.deck.filter(c => !c.upgraded);
         if (upgradeableCards.length > 0) {
-          const randomCard = upgradeableCards[Math.floor(Math.random() * upgradeableCards.length)];
+          const randomCard = upgradeableCards[RNG.get('events').nextInt(upgradeableCards.length)];
           randomCard.upgraded = true;
           randomCard.name = `${randomCard.name}+`;
         }
@@ -354,7 +370,7 @@ export class EventScene extends Phaser.Scene {
           const card = DataLoader.getCard(outcome.cardId);
           if (card) {
             for (let i = 0; i < value; i++) {
-              player.addCardToDeck({ ...card });
+              this.gameState.addCardToDeck({ ...card });
             }
           }
         }
@@ -363,8 +379,8 @@ export class EventScene extends Phaser.Scene {
       case 'ADD_RARE_CARD':
         const rareCards = DataLoader.getAllCards().filter(c => c.rarity === 'RARE');
         if (rareCards.length > 0) {
-          const randomRare = rareCards[Math.floor(Math.random() * rareCards.length)];
-          player.addCardToDeck({ ...randomRare });
+          const randomRare = rareCards[RNG.get('cards').nextInt(rareCards.length)];
+          this.gameState.addCardToDeck({ ...randomRare });
         }
         break;
 
@@ -384,7 +400,7 @@ export class EventScene extends Phaser.Scene {
             effects: [],
             ethereal: true,
           };
-          player.addCardToDeck(curse);
+          this.gameState.addCardToDeck(curse);
         }
         break;
 
@@ -465,9 +481,9 @@ export class EventScene extends Phaser.Scene {
 
       case 'TRANSFORM_CARD':
         const allCards = DataLoader.getAllCards();
-        const newCard = allCards[Math.floor(Math.random() * allCards.length)];
+        const newCard = RNG.get('cards').pick(allCards);
         if (newCard) {
-          player.deck[cardIndex] = { ...newCard };
+          player.deck[cardIndex] = ModifierSystem.applyToCard({ ...newCard }, this.gameState.getActiveModifiers());
         }
         break;
     }
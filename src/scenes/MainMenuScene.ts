@@ -1,5 +1,8 @@
 import Phaser from 'phaser';
 import { DataLoader } from '@/utils/DataLoader';
+import { DailyChallenge } from '@/systems/DailyChallenge';
+import { GameStateManager } from '@/systems/GameStateManager';
+import { ModifierSystem } from '@/systems/ModifierSystem';
 import { UnlockSystem } from '@/systems/UnlockSystem';
 import { UICard } from '@/ui/UICard';
 import { Button } from '@/ui/Button';
@@ -58,12 +61,13 @@ export class MainMenuScene extends Phaser.Scene {
     subtitle.setOrigin(0.5);
 
     // Main menu card
+    const menuHeight = 560;
     const menuCard = new UICard({
       scene: this,
       x: width / 2,
       y: height / 2 + Theme.spacing.xxxl,
       width: 500,
-      height: 400,
+      height: menuHeight,
       backgroundColor: Theme.helpers.hexToColor(Theme.colors.backgroundLight),
       borderColor: Theme.helpers.hexToColor(Theme.colors.primary),
       alpha: 0.95,
@@ -71,7 +75,7 @@ export class MainMenuScene extends Phaser.Scene {
 
     // Menu buttons
     const buttonSpacing = Theme.spacing.xxxl + Theme.spacing.md;
-    const startY = -menuCard.height / 2 + Theme.spacing.xxxl * 2;
+    const startY = -menuHeight / 2 + Theme.spacing.xxxl * 2;
 
     new Button({
       scene: this,
@@ -83,21 +87,43 @@ export class MainMenuScene extends Phaser.Scene {
       onClick: () => this.startNewRun(),
     });
 
-    const continueButton = new Button({
+    new Button({
       scene: this,
       x: menuCard.x,
       y: menuCard.y + startY + buttonSpacing,
+      text: '📅  DAILY CHALLENGE',
+      width: 400,
+      style: 'secondary',
+      onClick: () => this.startDailyRun(),
+    });
+
+    new Button({
+      scene: this,
+      x: menuCard.x,
+      y: menuCard.y + startY + buttonSpacing * 2,
+      text: '🛠️  CUSTOM RUN',
+      width: 400,
+      style: 'secondary',
+      onClick: () => this.openCustomRun(),
+    });
+
+    const continueButton = new Button({
+      scene: this,
+      x: menuCard.x,
+      y: menuCard.y + startY + buttonSpacing * 3,
       text: '📜  CONTINUE',
       width: 400,
       style: 'secondary',
       onClick: () => this.continueRun(),
     });
-    continueButton.disable(); // Disabled until save system is implemented
+    if (!GameStateManager.hasSave()) {
+      continueButton.disable();
+    }
 
     new Button({
       scene: this,
       x: menuCard.x,
-      y: menuCard.y + startY + buttonSpacing * 2,
+      y: menuCard.y + startY + buttonSpacing * 4,
       text: '⚙️  SETTINGS',
       width: 400,
       style: 'secondary',
@@ -164,6 +190,8 @@ export class MainMenuScene extends Phaser.Scene {
       }
     );
 
+    this.createDailyCard(height);
+
     // Version number
     this.add.text(width - Theme.spacing.lg, height - Theme.spacing.lg, 'v0.1.0', {
       ...Theme.typography.styles.small,
@@ -199,9 +227,93 @@ export class MainMenuScene extends Phaser.Scene {
     this.scene.start('CharacterSelectionScene');
   }
 
+  /**
+   * Show today's challenge and the best score on it
+   */
+  private createDailyCard(height: number): void {
+    DataLoader.initialize();
+    const challenge = DailyChallenge.getChallenge();
+    const character = DataLoader.getCharacterClass(challenge.characterId);
+    const best = UnlockSystem.getDailyBest(challenge.date);
+
+    const cardWidth = 400;
+    const dailyCard = new UICard({
+      scene: this,
+      x: 250,
+      y: height / 2,
+      width: cardWidth,
+      height: 360,
+      title: 'DAILY CHALLENGE',
+      backgroundColor: Theme.helpers.hexToColor(Theme.colors.backgroundLight),
+      borderColor: Theme.helpers.hexToColor(Theme.colors.gold),
+      alpha: 0.9,
+    });
+
+    const left = -cardWidth / 2 + Theme.spacing.lg;
+    let y = dailyCard.getContentStartY();
+
+    dailyCard.addText(`${challenge.date} - ${character?.name ?? challenge.characterId}`, left, y, {
+      ...Theme.typography.styles.body,
+      color: Theme.colors.gold,
+    });
+
+    ModifierSystem.getModifiers(challenge.modifiers).forEach((modifier) => {
+      y += Theme.spacing.xl;
+      dailyCard.addText(`• ${modifier.name}`, left, y, Theme.typography.styles.body);
+      y += Theme.spacing.lg;
+      dailyCard.addText(modifier.description, left + Theme.spacing.lg, y, {
+        ...Theme.typography.styles.small,
+        color: Theme.colors.textSecondary,
+      });
+    });
+
+    y += Theme.spacing.xl + Theme.spacing.md;
+    dailyCard.addText(
+      best ? `Best today: ${best.score} (floor ${best.floor})` : 'Not attempted today',
+      left,
+      y,
+      {
+        ...Theme.typography.styles.body,
+        color: best ? Theme.colors.success : Theme.colors.textMuted,
+      }
+    );
+  }
+
+  startDailyRun(): void {
+    console.log('Starting daily challenge...');
+
+    DataLoader.initialize();
+    UnlockSystem.initialize();
+
+    const gameState = DailyChallenge.startRun(DailyChallenge.getChallenge());
+    if (!gameState) return;
+
+    UnlockSystem.recordRunStart();
+    this.scene.start('MapScene', { gameState });
+  }
+
+  /**
+   * Custom runs aren't recorded, so no run start is counted here
+   */
+  openCustomRun(): void {
+    DataLoader.initialize();
+    this.scene.start('CustomRunScene');
+  }
+
   continueRun(): void {
     console.log('Continuing run...');
-    // TODO: Load saved game state
+
+    DataLoader.initialize();
+    UnlockSystem.initialize();
+
+    const save = GameStateManager.loadSave();
+    if (!save) {
+      console.warn('No saved run to continue');
+      return;
+    }
+
+    // Resume in the scene the run was saved in
+    this.scene.start(save.scene.key, { gameState: save.gameState, ...save.scene.data });
   }
 
   openSettings(): void {
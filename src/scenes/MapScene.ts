@@ -1,6 +1,11 @@
 import Phaser from 'phaser';
 import { Room, RoomType } from '@/types';
 import { GameStateManager } from '@/systems/GameStateManager';
+import { ROUTE_CRITERIA, Route, RouteCriterion, RoutePlanner } from '@/systems/RoutePlanner';
+import { TreasureSystem } from '@/systems/TreasureSystem';
+import { DataLoader } from '@/utils/DataLoader';
+import { Button } from '@/ui/Button';
+import { SeedDisplay } from '@/ui/SeedDisplay';
 import { Theme } from '@/ui/theme';
 
 /**
@@ -10,16 +15,29 @@ export class MapScene extends Phaser.Scene {
   private gameState!: GameStateManager;
   private roomNodes: Map<number, Phaser.GameObjects.Container> = new Map();
   private viewOnly: boolean = false;
+  private newAct: boolean = false;
   private returnScene: string = 'MapScene';
 
+  // Route planner
+  private roomPositions: { x: number; y: number }[] = [];
+  private routeGraphics!: Phaser.GameObjects.Graphics;
+  private routeInfo!: Phaser.GameObjects.Text;
+  private previewRoute: Route | null = null;
+  private previewCriterion: RouteCriterion | null = null;
+
   constructor() {
     super({ key: 'MapScene' });
   }
 
-  init(data: { gameState: GameStateManager; viewOnly?: boolean; returnScene?: string }) {
+  init(data: { gameState: GameStateManager; viewOnly?: boolean; newAct?: boolean; returnScene?: string }) {
     this.gameState = data.gameState;
     this.viewOnly = data.viewOnly || false;
+    this.newAct = data.newAct || false;
     this.returnScene = data.returnScene || 'MapScene';
+
+    if (!this.viewOnly) {
+      this.gameState.save('MapScene');
+    }
   }
 
   create(): void {
@@ -63,16 +81,40 @@ export class MapScene extends Phaser.Scene {
     }
 
     // Title
+    const act = DataLoader.getActConfig(this.gameState.currentAct);
     this.add.text(
       Theme.layout.getCenterX(width),
       Theme.layout.margin.screen,
-      `ACT ${this.gameState.currentAct} - THE DESCENT`,
+      `ACT ${this.gameState.currentAct} - ${act.name.toUpperCase()}`,
       {
         ...Theme.typography.styles.heading2,
         color: Theme.colors.text,
       }
     ).setOrigin(0.5).setDepth(Theme.layers.ui);
 
+    // The act's boss (top-right corner)
+    const boss = this.gameState.bossEncounter;
+    if (boss) {
+      this.add.text(
+        width - Theme.layout.margin.screen,
+        Theme.layout.margin.screen,
+        `💀 Boss: ${boss.name}`,
+        {
+          ...Theme.typography.styles.body,
+          color: Theme.colors.danger,
+        }
+      ).setOrigin(1, 0).setDepth(Theme.layers.ui);
+    }
+
+    // The run's seed, under the boss, so the run can be shared
+    new SeedDisplay({
+      scene: this,
+      x: width - Theme.layout.margin.screen,
+      y: Theme.layout.margin.screen + Theme.spacing.xl + Theme.spacing.md,
+      seed: this.gameState.seed,
+      align: 'right',
+    });
+
     // Player stats (top-left corner)
     this.add.text(
       Theme.layout.margin.screen,
@@ -96,6 +138,61 @@ export class MapScene extends Phaser.Scene {
 
     // Draw the map
     this.renderMap();
+    this.createRoutePlanner();
+
+    if (this.newAct && !this.viewOnly) {
+      this.showActTransition();
+    }
+  }
+
+  /**
+   * Announce a new act and the boss waiting at its end
+   */
+  private showActTransition(): void {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+    const act = DataLoader.getActConfig(this.gameState.currentAct);
+    const boss = this.gameState.bossEncounter;
+
+    const banner = this.add.container(0, 0).setDepth(Theme.layers.modals);
+
+    const overlay = this.add.rectangle(0, 0, width, height, Theme.colors.overlay, Theme.colors.overlayAlpha);
+    overlay.setOrigin(0, 0);
+    overlay.setInteractive();
+    banner.add(overlay);
+
+    banner.add(this.add.text(width / 2, height / 2 - Theme.spacing.xxxl, `ACT ${act.act}`, {
+      ...Theme.typography.styles.heading1,
+      color: Theme.colors.text,
+    }).setOrigin(0.5));
+
+    banner.add(this.add.text(width / 2, height / 2, act.name, {
+      ...Theme.typography.styles.heading2,
+      color: Theme.colors.gold,
+    }).setOrigin(0.5));
+
+    if (boss) {
+      banner.add(this.add.text(width / 2, height / 2 + Theme.spacing.xxxl, `💀 ${boss.name} awaits`, {
+        ...Theme.typography.styles.heading3,
+        color: Theme.colors.danger,
+      }).setOrigin(0.5));
+    }
+
+    // Fade out on click or after a few seconds
+    let dismissed = false;
+    const dismiss = () => {
+      if (dismissed) return;
+      dismissed = true;
+      overlay.disableInteractive();
+      this.tweens.add({
+        targets: banner,
+        alpha: 0,
+        duration: Theme.animation.normal,
+        onComplete: () => banner.destroy(),
+      });
+    };
+    overlay.once('pointerdown', dismiss);
+    this.time.delayedCall(3000, dismiss);
   }
 
   /**
@@ -119,41 +216,180 @@ export class MapScene extends Phaser.Scene {
     const mapHeight = height - 200;
     const maxFloor = Math.max(...map.map(r => r.y));
     const floorHeight = Math.min(120, mapHeight / (maxFloor + 1)); // Min 120px between floors
+    const columns = Math.max(...map.map(r => r.x)) + 1;
 
-    // Group rooms by floor
-    const roomsByFloor: Map<number, Room[]> = new Map();
-    map.forEach(room => {
-      if (!roomsByFloor.has(room.y)) {
-        roomsByFloor.set(room.y, []);
-      }
-      roomsByFloor.get(room.y)!.push(room);
-    });
+    const positions = map.map(room => ({
+      x: this.calculateXPosition(room.x, columns, width),
+      y: mapStartY + room.y * floorHeight,
+    }));
 
-    // NO CONNECTION LINES - Clean look!
+    this.roomPositions = positions;
 
-    // Draw room nodes
+    // Connection lines, under the room nodes
+    const lines = this.add.graphics();
+    lines.setDepth(5);
     map.forEach((room, index) => {
-      const roomsOnFloor = roomsByFloor.get(room.y)!;
-      const xPos = this.calculateXPosition(room.x, roomsOnFloor.length, width);
-      const yPos = mapStartY + room.y * floorHeight;
+      const from = positions[index];
+      room.connections.forEach(target => {
+        const to = positions[target];
+        lines.lineStyle(2, 0xffffff, room.visited && map[target].visited ? 0.6 : 0.2);
+        lines.lineBetween(from.x, from.y, to.x, to.y);
+      });
+    });
 
-      const node = this.createRoomNode(room, index, xPos, yPos);
+    // Draw room nodes
+    map.forEach((room, index) => {
+      const node = this.createRoomNode(room, index, positions[index].x, positions[index].y);
       this.roomNodes.set(index, node);
     });
   }
 
   /**
-   * Calculate X position for a room - TIGHTER horizontal spacing
+   * Route planner controls (left side): highlight the best route for a
+   * criterion, pin it, and see what each route holds
+   */
+  private createRoutePlanner(): void {
+    const x = 150;
+    const startY = 200;
+    const spacing = Theme.dimensions.button.height + Theme.spacing.sm;
+
+    this.routeGraphics = this.add.graphics();
+    this.routeGraphics.setDepth(6);
+
+    this.add.text(x, startY - Theme.spacing.xxxl, '🧭 ROUTE PLANNER', {
+      ...Theme.typography.styles.body,
+      color: Theme.colors.gold,
+    }).setOrigin(0.5).setDepth(Theme.layers.ui);
+
+    ROUTE_CRITERIA.forEach(({ id, label }, index) => {
+      new Button({
+        scene: this,
+        x,
+        y: startY + index * spacing,
+        text: label,
+        width: 220,
+        style: 'secondary',
+        onClick: () => this.previewBestRoute(id),
+      }).setDepth(Theme.layers.ui);
+    });
+
+    const actionsY = startY + ROUTE_CRITERIA.length * spacing;
+    new Button({
+      scene: this,
+      x,
+      y: actionsY,
+      text: '📌 Pin Route',
+      width: 220,
+      style: 'primary',
+      onClick: () => this.pinPreviewRoute(),
+    }).setDepth(Theme.layers.ui);
+    new Button({
+      scene: this,
+      x,
+      y: actionsY + spacing,
+      text: '✖️ Clear',
+      width: 220,
+      style: 'secondary',
+      onClick: () => this.clearRoutes(),
+    }).setDepth(Theme.layers.ui);
+
+    this.routeInfo = this.add.text(x, actionsY + spacing * 2, '', {
+      ...Theme.typography.styles.small,
+      color: Theme.colors.text,
+      align: 'center',
+      wordWrap: { width: 260 },
+    }).setOrigin(0.5, 0).setDepth(Theme.layers.ui);
+
+    this.drawRoutes();
+  }
+
+  /**
+   * Highlight the best route from the current room for a criterion
+   */
+  private previewBestRoute(criterion: RouteCriterion): void {
+    this.previewCriterion = criterion;
+    this.previewRoute = RoutePlanner.getBestRoute(this.gameState.map, this.gameState.currentRoomIndex, criterion) ?? null;
+    this.drawRoutes();
+  }
+
+  private pinPreviewRoute(): void {
+    if (!this.previewRoute) return;
+    this.gameState.plannedRoute = this.previewRoute.rooms;
+    this.previewRoute = null;
+    this.previewCriterion = null;
+    this.drawRoutes();
+  }
+
+  private clearRoutes(): void {
+    this.gameState.plannedRoute = [];
+    this.previewRoute = null;
+    this.previewCriterion = null;
+    this.drawRoutes();
+  }
+
+  /**
+   * Draw the pinned route (gold) and the previewed route (green)
+   */
+  private drawRoutes(): void {
+    this.routeGraphics.clear();
+
+    const { map, currentRoomIndex, plannedRoute } = this.gameState;
+    this.drawRoute(plannedRoute, 0xffd700, 5);
+    if (this.previewRoute) {
+      this.drawRoute(this.previewRoute.rooms, 0x00ff88, 3);
+    }
+
+    const routeCount = RoutePlanner.getRoutes(map, currentRoomIndex).length;
+    const lines = [`${routeCount} route${routeCount === 1 ? '' : 's'} to the boss`];
+    if (this.previewRoute && this.previewCriterion) {
+      const label = ROUTE_CRITERIA.find((criterion) => criterion.id === this.previewCriterion)!.label;
+      lines.push('', `${label}:`, this.formatCounts(this.previewRoute));
+    }
+    if (plannedRoute.length > 0) {
+      const planned = { rooms: plannedRoute, counts: RoutePlanner.countRooms(map, plannedRoute) };
+      lines.push('', '📌 Planned:', this.formatCounts(planned));
+    }
+    this.routeInfo.setText(lines.join('\n'));
+  }
+
+  /**
+   * Trace a route from the current room, ringing each of its rooms
+   */
+  private drawRoute(rooms: number[], color: number, lineWidth: number): void {
+    if (rooms.length === 0) return;
+
+    const current = this.roomPositions[this.gameState.currentRoomIndex];
+    const points = [...(current ? [current] : []), ...rooms.map((index) => this.roomPositions[index])];
+
+    this.routeGraphics.lineStyle(lineWidth, color, 0.9);
+    for (let i = 1; i < points.length; i++) {
+      this.routeGraphics.lineBetween(points[i - 1].x, points[i - 1].y, points[i].x, points[i].y);
+    }
+    rooms.forEach((index) => {
+      const { x, y } = this.roomPositions[index];
+      this.routeGraphics.strokeCircle(x, y, 30);
+    });
+  }
+
+  private formatCounts(route: Route): string {
+    return (Object.entries(route.counts) as [RoomType, number][])
+      .filter(([type, count]) => count > 0 && type !== 'BOSS')
+      .map(([type, count]) => `${this.getRoomIcon(type)} ${count}`)
+      .join('  ');
+  }
+
+  /**
+   * Calculate X position for a room from its column on the map grid
    */
-  private calculateXPosition(roomX: number, roomsOnFloor: number, screenWidth: number): number {
+  private calculateXPosition(roomX: number, columns: number, screenWidth: number): number {
     const margin = 300; // Increased margins for tighter clustering
     const availableWidth = screenWidth - margin * 2;
 
-    if (roomsOnFloor === 1) {
+    if (columns === 1) {
       return screenWidth / 2;
     }
 
-    const spacing = availableWidth / (roomsOnFloor - 1);
+    const spacing = availableWidth / (columns - 1);
     return margin + roomX * spacing;
   }
 
@@ -165,10 +401,10 @@ export class MapScene extends Phaser.Scene {
     const container = this.add.container(x, y);
     container.setDepth(10);
 
-    const currentRoom = this.gameState.getCurrentRoom();
+    const currentFloor = this.gameState.getCurrentRoom()?.y ?? -1;
     const isCurrentRoom = index === this.gameState.currentRoomIndex;
     const isAvailable = this.isRoomAvailable(index);
-    const isPastFloor = room.y < currentRoom.y; // Grey out past floors
+    const isPastFloor = room.y < currentFloor; // Grey out past floors
 
     // Room background
     const bgColor = this.getRoomColor(room.type);
@@ -212,8 +448,9 @@ export class MapScene extends Phaser.Scene {
     glowCircle.setStrokeStyle(0);
     container.add(glowCircle);
 
-    // Room icon
-    const icon = this.getRoomIcon(room.type);
+    // Room icon (a scouted treasure room shows its chest, an entered "?" room what it held)
+    const icon = TreasureSystem.getChestIcon(this.gameState.map, this.gameState.currentRoomIndex, index)
+      ?? this.getRoomIcon(room.resolved ?? room.type);
     const iconText = this.add.text(0, 0, icon, {
       fontSize: isCurrentRoom ? '32px' : '28px',
       color: '#ffffff',
@@ -282,8 +519,7 @@ export class MapScene extends Phaser.Scene {
    * Check if a room is available to enter
    */
   private isRoomAvailable(roomIndex: number): boolean {
-    const currentRoom = this.gameState.getCurrentRoom();
-    return currentRoom.connections.includes(roomIndex);
+    return this.gameState.getAvailableRoomIndices().includes(roomIndex);
   }
 
   /**
@@ -344,16 +580,16 @@ export class MapScene extends Phaser.Scene {
       return;
     }
 
-    const room = this.gameState.map[roomIndex];
     this.gameState.moveToRoom(roomIndex);
+    const roomType = this.gameState.resolveRoom(roomIndex);
 
-    console.log(`Entering ${room.type} room`);
+    console.log(`Entering ${roomType} room`);
 
-    // Transition to appropriate scene based on room type
-    switch (room.type) {
+    // Transition to appropriate scene based on what the room holds
+    switch (roomType) {
       case RoomType.COMBAT:
       case RoomType.ELITE:
-        this.scene.start('CombatScene', { gameState: this.gameState, isElite: room.type === RoomType.ELITE });
+        this.scene.start('CombatScene', { gameState: this.gameState, isElite: roomType === RoomType.ELITE });
         break;
 
       case RoomType.BOSS:
@@ -369,7 +605,7 @@ export class MapScene extends Phaser.Scene {
         break;
 
       case RoomType.TREASURE:
-        this.scene.start('RewardScene', { gameState: this.gameState, isTreasure: true });
+        this.scene.start('TreasureScene', { gameState: this.gameState });
         break;
 
       case RoomType.EVENT:
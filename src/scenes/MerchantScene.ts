@@ -56,6 +56,7 @@ export class MerchantScene extends Phaser.Scene {
       }
     } else {
       this.shopItems = [];
+      this.gameState.save('MerchantScene');
     }
   }
 
@@ -121,7 +122,7 @@ export class MerchantScene extends Phaser.Scene {
 
     // Generate 6 cards for sale
     for (let i = 0; i < 6; i++) {
-      const card = DataLoader.getRandomWeightedCard();
+      const card = DataLoader.getRandomWeightedCard(this.gameState.currentAct);
       if (card) {
         this.shopItems.push({
           type: 'CARD',
@@ -608,7 +609,7 @@ export class MerchantScene extends Phaser.Scene {
     switch (item.type) {
       case 'CARD':
         player.spendGold(item.price);
-        player.addCardToDeck(item.data as Card);
+        this.gameState.addCardToDeck(item.data as Card);
         this.showMessage(`Purchased ${(item.data as Card).name}!`, 0x4a9eff);
         break;
 
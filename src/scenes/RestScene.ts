@@ -1,10 +1,15 @@
 import Phaser from 'phaser';
+import { findRelicEffects } from '@/engine/relicEffects';
 import { GameStateManager } from '@/systems/GameStateManager';
+import { ModifierSystem } from '@/systems/ModifierSystem';
 import { Card } from '@/types';
 import { Button } from '@/ui/Button';
 import { UICard } from '@/ui/UICard';
 import { Theme } from '@/ui/theme';
 
+/** Percentage of max HP healed by resting, before the run's modifiers */
+const REST_HEAL_PERCENT = 30;
+
 /**
  * RestScene handles rest site choices (Heal or Upgrade)
  */
@@ -36,6 +41,7 @@ export class RestScene extends Phaser.Scene {
     } else {
       this.choiceMade = false;
       this.selectedCardIndex = -1;
+      this.gameState.save('RestScene');
     }
   }
 
@@ -97,8 +103,14 @@ export class RestScene extends Phaser.Scene {
     ).setOrigin(0.5).setDepth(Theme.layers.ui);
 
     // Player stats
-    const healAmount = Math.floor(this.gameState.player.maxHp * 0.3);
-    const canHeal = this.gameState.player.currentHp < this.gameState.player.maxHp;
+    const healPercent =
+      REST_HEAL_PERCENT + ModifierSystem.getTotal(this.gameState.getActiveModifiers(), 'REST_HEAL_PERCENT');
+    const healAmount = Math.floor((this.gameState.player.maxHp * Math.max(0, healPercent)) / 100);
+    // Relics like Cold Forge forbid resting
+    const noHealRelic = this.gameState.player.relics.find(
+      (relic) => findRelicEffects([relic], 'passive', 'NO_REST_HEAL').length > 0
+    );
+    const canHeal = !noHealRelic && this.gameState.player.currentHp < this.gameState.player.maxHp;
     const hasUpgradeableCards = this.getUpgradeableCards().length > 0;
 
     this.add.text(
@@ -120,7 +132,7 @@ export class RestScene extends Phaser.Scene {
       Theme.layout.getCenterX(width) - optionSpacing,
       optionsY,
       '🔥 Rest',
-      `Heal ${healAmount} HP`,
+      noHealRelic ? `${noHealRelic.name}:\nno healing` : `Heal ${healAmount} HP`,
       canHeal,
       () => this.onHealSelected(healAmount)
     );
@@ -134,6 +146,11 @@ export class RestScene extends Phaser.Scene {
       hasUpgradeableCards,
       () => this.onUpgradeSelected()
     );
+
+    // Nothing to do here (e.g. no healing allowed and every card upgraded)
+    if (!canHeal && !hasUpgradeableCards) {
+      this.showContinueButton();
+    }
   }
 
   /**
@@ -1,11 +1,11 @@
 import Phaser from 'phaser';
 import { Card } from '@/types';
-import { Relic } from '@/entities/Relic';
 import { Potion } from '@/entities/Potion';
+import { CardRewardSystem } from '@/systems/CardRewardSystem';
 import { GameStateManager } from '@/systems/GameStateManager';
+import { RNG } from '@/systems/RNG';
 import { DataLoader } from '@/utils/DataLoader';
 import { CardSprite } from '@/ui/CardSprite';
-import { RelicSprite } from '@/ui/RelicSprite';
 import { PotionSprite } from '@/ui/PotionSprite';
 import { Button } from '@/ui/Button';
 import { Theme } from '@/ui/theme';
@@ -15,10 +15,8 @@ import { Theme } from '@/ui/theme';
  */
 export class RewardScene extends Phaser.Scene {
   private gameState!: GameStateManager;
-  private isTreasure = false;
   private goldReward = 0;
   private cardRewards: Card[] = [];
-  private relicReward: Relic | null = null;
   private potionDrop: Potion | null = null;
 
   constructor() {
@@ -28,13 +26,18 @@ export class RewardScene extends Phaser.Scene {
   init(data: {
     gameState: GameStateManager;
     goldReward?: number;
-    isTreasure?: boolean;
     potionDrop?: Potion | null;
+    /** Potion drop by id, when resuming from a save */
+    potionId?: string;
   }) {
     this.gameState = data.gameState;
     this.goldReward = data.goldReward || 0;
-    this.isTreasure = data.isTreasure || false;
-    this.potionDrop = data.potionDrop || null;
+    this.potionDrop = data.potionDrop || (data.potionId ? DataLoader.getPotion(data.potionId) ?? null : null);
+
+    this.gameState.save('RewardScene', {
+      goldReward: this.goldReward,
+      potionId: this.potionDrop?.id,
+    });
   }
 
   create(): void {
@@ -54,21 +57,15 @@ export class RewardScene extends Phaser.Scene {
     this.add.text(
       Theme.layout.getCenterX(width),
       Theme.layout.positions.topMargin,
-      this.isTreasure ? 'TREASURE!' : 'VICTORY!',
+      'VICTORY!',
       Theme.typography.styles.heading1
     ).setOrigin(0.5).setDepth(Theme.layers.ui);
 
     // Generate rewards
-    if (!this.isTreasure && this.goldReward === 0) {
+    if (this.goldReward === 0) {
       this.goldReward = this.calculateGoldReward();
     }
 
-    if (this.isTreasure) {
-      this.goldReward = Math.floor(this.goldReward * 2); // Double gold for treasure
-      // Treasure rooms give a relic
-      this.relicReward = DataLoader.getRandomWeightedRelic() || null;
-    }
-
     this.cardRewards = this.generateCardRewards();
 
     // Calculate content start position
@@ -172,79 +169,19 @@ export class RewardScene extends Phaser.Scene {
       currentY += Theme.spacing.xxxl + Theme.spacing.lg;
     }
 
-    // Display relic reward (treasure rooms)
-    if (this.relicReward) {
-      this.add.text(
-        Theme.layout.getCenterX(width),
-        currentY,
-        'Relic Found!',
-        {
-          ...Theme.typography.styles.heading2,
-          color: Theme.colors.gold,
-        }
-      ).setOrigin(0.5).setDepth(Theme.layers.ui);
-
-      currentY += Theme.spacing.xl + Theme.spacing.md;
-
-      // Display relic
-      const relicSprite = new RelicSprite(
-        this,
-        Theme.layout.getCenterX(width),
-        currentY,
-        this.relicReward
-      );
-      relicSprite.setScale(2);
-      relicSprite.setDepth(Theme.layers.ui);
-
-      currentY += Theme.spacing.xxxl * 2;
-
-      // Relic name and description
-      this.add.text(
-        Theme.layout.getCenterX(width),
-        currentY,
-        this.relicReward.name,
-        {
-          ...Theme.typography.styles.heading3,
-          color: Theme.colors.text,
-        }
-      ).setOrigin(0.5).setDepth(Theme.layers.ui);
-
-      currentY += Theme.spacing.xl + Theme.spacing.md;
-
-      this.add.text(
-        Theme.layout.getCenterX(width),
-        currentY,
-        this.relicReward.description,
-        {
-          ...Theme.typography.styles.small,
-          color: Theme.colors.textSecondary,
-          align: 'center',
-          wordWrap: { width: 600 },
-        }
-      ).setOrigin(0.5).setDepth(Theme.layers.ui);
-
-      // Add relic to player
-      this.gameState.player.addRelic(this.relicReward);
-
-      currentY += Theme.spacing.xxxl + Theme.spacing.lg;
-    }
-
-    // Display card rewards
-    if (!this.isTreasure) {
-      // Only show if not too far down the screen
-      const cardPromptY = Math.max(currentY, 250);
-      this.add.text(
-        Theme.layout.getCenterX(width),
-        cardPromptY,
-        'Choose a card to add to your deck:',
-        {
-          ...Theme.typography.styles.heading3,
-          color: Theme.colors.text,
-        }
-      ).setOrigin(0.5).setDepth(Theme.layers.ui);
+    // Display card rewards, not too far down the screen
+    const cardPromptY = Math.max(currentY, 250);
+    this.add.text(
+      Theme.layout.getCenterX(width),
+      cardPromptY,
+      'Choose a card to add to your deck:',
+      {
+        ...Theme.typography.styles.heading3,
+        color: Theme.colors.text,
+      }
+    ).setOrigin(0.5).setDepth(Theme.layers.ui);
 
-      this.displayCardRewards();
-    }
+    this.displayCardRewards();
 
     // Skip and Continue buttons
     this.createActionButtons(width, height);
@@ -255,58 +192,25 @@ export class RewardScene extends Phaser.Scene {
    */
   private calculateGoldReward(): number {
     // Base reward: 10-20 gold
-    const base = 10 + Math.floor(Math.random() * 11);
+    const base = 10 + RNG.get('monsters').nextInt(11);
 
-    // Bonus based on floor
+    // Bonus based on floor, scaled by act
     const floorBonus = this.gameState.currentFloor * 2;
 
-    return base + floorBonus;
+    return Math.floor((base + floorBonus) * DataLoader.getActConfig(this.gameState.currentAct).goldMultiplier);
   }
 
   /**
-   * Generate card rewards (3 cards to choose from)
+   * Generate card rewards for the kind of fight just won
    */
   private generateCardRewards(): Card[] {
-    const rewards: Card[] = [];
-    const allCards = DataLoader.getAllCards();
-
-    // Filter out starter cards for rewards
-    const rewardPool = allCards.filter(c => c.rarity !== 'STARTER');
-
-    // Pick 3 random cards with rarity weighting
-    for (let i = 0; i < 3; i++) {
-      const card = this.pickWeightedCard(rewardPool);
-      if (card) rewards.push(card);
-    }
-
-    return rewards;
-  }
-
-  /**
-   * Pick a card with rarity-based weighting
-   */
-  private pickWeightedCard(pool: Card[]): Card | null {
-    if (pool.length === 0) return null;
-
-    // Rarity weights: COMMON (60%), UNCOMMON (30%), RARE (10%)
-    const roll = Math.random();
-    let targetRarity: string;
-
-    if (roll < 0.6) {
-      targetRarity = 'COMMON';
-    } else if (roll < 0.9) {
-      targetRarity = 'UNCOMMON';
-    } else {
-      targetRarity = 'RARE';
-    }
-
-    const filtered = pool.filter(c => c.rarity === targetRarity);
-    if (filtered.length === 0) {
-      // Fallback to any card
-      return pool[Math.floor(Math.random() * pool.length)];
-    }
-
-    return filtered[Math.floor(Math.random() * filtered.length)];
+    const room = this.gameState.getCurrentRoom();
+    return CardRewardSystem.generate(
+      CardRewardSystem.getFight(room?.resolved ?? room?.type),
+      this.gameState.currentAct,
+      this.gameState.cardRewards,
+      this.gameState.player.relics
+    );
   }
 
   /**
@@ -339,7 +243,7 @@ export class RewardScene extends Phaser.Scene {
    * Handle card selection
    */
   private onCardSelected(card: Card, sprite: CardSprite): void {
-    this.gameState.player.addCardToDeck(card);
+    this.gameState.addCardToDeck(card);
 
     console.log(`Added ${card.name} to deck`);
 
@@ -374,29 +278,23 @@ export class RewardScene extends Phaser.Scene {
     const buttonY = height - Theme.layout.positions.bottomMargin;
     const buttonSpacing = 180;
 
-    // Skip button (only for card rewards)
-    if (!this.isTreasure) {
-      new Button({
-        scene: this,
-        x: Theme.layout.getCenterX(width) - buttonSpacing,
-        y: buttonY,
-        text: 'Skip Reward',
-        width: 200,
-        style: 'secondary',
-        onClick: () => {
-          console.log('Skipped card reward');
-        },
-      });
-    }
+    // Skip button
+    new Button({
+      scene: this,
+      x: Theme.layout.getCenterX(width) - buttonSpacing,
+      y: buttonY,
+      text: 'Skip Reward',
+      width: 200,
+      style: 'secondary',
+      onClick: () => {
+        console.log('Skipped card reward');
+      },
+    });
 
     // Continue button
-    const continueX = this.isTreasure
-      ? Theme.layout.getCenterX(width)
-      : Theme.layout.getCenterX(width) + buttonSpacing;
-
     new Button({
       scene: this,
-      x: continueX,
+      x: Theme.layout.getCenterX(width) + buttonSpacing,
       y: buttonY,
       text: 'Continue',
       width: 200,
@@ -411,15 +309,10 @@ export class RewardScene extends Phaser.Scene {
    * Return to map
    */
   private returnToMap(): void {
-    // Check if we're at the boss
+    // After a boss, pick a boss relic before the next act
     if (this.gameState.isAtBoss()) {
-      this.gameState.completeAct();
-
-      if (this.gameState.currentAct > 3) {
-        // Game won!
-        this.scene.start('MainMenuScene');
-        return;
-      }
+      this.scene.start('BossRewardScene', { gameState: this.gameState });
+      return;
     }
 
     this.scene.start('MapScene', { gameState: this.gameState });
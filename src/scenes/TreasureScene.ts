@@ -0,0 +1,217 @@
+import Phaser from 'phaser';
+import { Relic } from '@/entities/Relic';
+import { GameStateManager } from '@/systems/GameStateManager';
+import { TreasureSystem } from '@/systems/TreasureSystem';
+import { DataLoader } from '@/utils/DataLoader';
+import { Button } from '@/ui/Button';
+import { RelicSprite } from '@/ui/RelicSprite';
+import { Theme } from '@/ui/theme';
+
+/** Horizontal distance between the relics found in a chest */
+const RELIC_SPACING = 320;
+
+/**
+ * TreasureScene shows a treasure room's chest. Clicking the chest opens it
+ * and hands out the gold and relics inside.
+ */
+export class TreasureScene extends Phaser.Scene {
+  private gameState!: GameStateManager;
+
+  constructor() {
+    super({ key: 'TreasureScene' });
+  }
+
+  init(data: { gameState: GameStateManager }) {
+    this.gameState = data.gameState;
+
+    // Rooms from before chests were rolled get one now
+    const room = this.gameState.getCurrentRoom();
+    if (room && !room.chest) {
+      room.chest = TreasureSystem.rollChestSize();
+    }
+
+    this.gameState.save('TreasureScene');
+  }
+
+  create(): void {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+    const centerX = Theme.layout.getCenterX(width);
+    const chest = DataLoader.getChest(this.gameState.getCurrentRoom()?.chest ?? 'SMALL');
+
+    // Background
+    this.add.rectangle(
+      width / 2,
+      height / 2,
+      width,
+      height,
+      Theme.helpers.hexToColor(Theme.colors.background)
+    ).setDepth(Theme.layers.background);
+
+    // Title
+    this.add.text(
+      centerX,
+      Theme.layout.positions.topMargin,
+      'TREASURE!',
+      Theme.typography.styles.heading1
+    ).setOrigin(0.5).setDepth(Theme.layers.ui);
+
+    this.add.text(
+      centerX,
+      Theme.layout.positions.topMargin + Theme.spacing.xxxl,
+      chest.name,
+      {
+        ...Theme.typography.styles.heading3,
+        color: Theme.colors.gold,
+      }
+    ).setOrigin(0.5).setDepth(Theme.layers.ui);
+
+    // The closed chest, opened with a click
+    const chestY = Theme.layout.positions.topMargin + Theme.spacing.xxxl * 4;
+    const chestIcon = this.add.text(centerX, chestY, chest.icon, { fontSize: '128px' })
+      .setOrigin(0.5)
+      .setDepth(Theme.layers.ui)
+      .setInteractive({ useHandCursor: true });
+
+    const prompt = this.add.text(
+      centerX,
+      chestY + Theme.spacing.xxxl * 2,
+      'Click the chest to open it',
+      {
+        ...Theme.typography.styles.body,
+        color: Theme.colors.textSecondary,
+      }
+    ).setOrigin(0.5).setDepth(Theme.layers.ui);
+
+    this.tweens.add({
+      targets: chestIcon,
+      scale: 1.08,
+      duration: Theme.animation.slow,
+      yoyo: true,
+      repeat: -1,
+      ease: 'Sine.easeInOut',
+    });
+
+    chestIcon.once('pointerdown', () => {
+      this.tweens.killTweensOf(chestIcon);
+      chestIcon.disableInteractive();
+      prompt.destroy();
+
+      // Shake the chest, then burst it open
+      this.tweens.add({
+        targets: chestIcon,
+        angle: { from: -8, to: 8 },
+        duration: 60,
+        yoyo: true,
+        repeat: 3,
+        onComplete: () => {
+          chestIcon.setAngle(0);
+          this.tweens.add({
+            targets: chestIcon,
+            scale: 0.6,
+            alpha: 0.4,
+            duration: Theme.animation.fast,
+          });
+          this.openChest(chestY + Theme.spacing.xxxl * 2);
+        },
+      });
+    });
+
+    // Leaving without opening the chest is allowed
+    new Button({
+      scene: this,
+      x: centerX,
+      y: height - Theme.layout.positions.bottomMargin,
+      text: 'Continue',
+      width: 200,
+      style: 'success',
+      onClick: () => {
+        this.scene.start('MapScene', { gameState: this.gameState });
+      },
+    });
+  }
+
+  /**
+   * Open the current room's chest and show what was inside from y down
+   */
+  private openChest(y: number): void {
+    const width = this.cameras.main.width;
+    const centerX = Theme.layout.getCenterX(width);
+    const player = this.gameState.player;
+    const { gold, relics, trade } = TreasureSystem.openChest(
+      this.gameState.getCurrentRoom()?.chest ?? 'SMALL',
+      player.relics
+    );
+
+    let currentY = y;
+    if (gold > 0) {
+      player.addGold(gold);
+      const goldText = this.add.text(centerX, currentY, `+${gold} Gold`, {
+        ...Theme.typography.styles.heading2,
+        color: Theme.colors.gold,
+      }).setOrigin(0.5).setDepth(Theme.layers.ui);
+
+      this.tweens.add({
+        targets: goldText,
+        y: currentY - Theme.spacing.lg,
+        scale: 1.2,
+        duration: Theme.animation.fast,
+        yoyo: true,
+        ease: 'Power2',
+      });
+      currentY += Theme.spacing.xxxl + Theme.spacing.lg;
+    }
+
+    const shown = trade ? [...relics, trade.relic] : relics;
+    const startX = centerX - ((shown.length - 1) * RELIC_SPACING) / 2;
+    const relicY = currentY + Theme.spacing.xl;
+
+    relics.forEach((relic, index) => {
+      player.addRelic(relic);
+      this.showRelic(relic, startX + index * RELIC_SPACING, relicY);
+    });
+
+    if (trade) {
+      const x = startX + relics.length * RELIC_SPACING;
+      this.showRelic(trade.relic, x, relicY);
+
+      const takeButton = new Button({
+        scene: this,
+        x,
+        y: relicY + Theme.spacing.xxxl * 3,
+        text: `Take (+${trade.curse.name})`,
+        width: 240,
+        style: 'danger',
+        onClick: () => {
+          player.addRelic(trade.relic);
+          this.gameState.addCardToDeck(trade.curse);
+          takeButton.setText('Taken');
+          takeButton.disable();
+        },
+      });
+    }
+  }
+
+  /**
+   * A relic with its name and description under it
+   */
+  private showRelic(relic: Relic, x: number, y: number): void {
+    const sprite = new RelicSprite(this, x, y, relic);
+    sprite.setScale(1.5);
+    sprite.setDepth(Theme.layers.ui);
+    sprite.setAlpha(0);
+    this.tweens.add({ targets: sprite, alpha: 1, duration: Theme.animation.slow });
+
+    this.add.text(x, y + Theme.spacing.xxxl + Theme.spacing.md, relic.name, {
+      ...Theme.typography.styles.heading3,
+      color: Theme.colors.text,
+    }).setOrigin(0.5).setDepth(Theme.layers.ui);
+
+    this.add.text(x, y + Theme.spacing.xxxl * 2, relic.description, {
+      ...Theme.typography.styles.small,
+      color: Theme.colors.textSecondary,
+      align: 'center',
+      wordWrap: { width: RELIC_SPACING - Theme.spacing.lg },
+    }).setOrigin(0.5, 0).setDepth(Theme.layers.ui);
+  }
+}
@@ -1,12 +1,17 @@
 import Phaser from 'phaser';
+import { DailyChallenge } from '@/systems/DailyChallenge';
 import { GameStateManager } from '@/systems/GameStateManager';
 import { UnlockSystem } from '@/systems/UnlockSystem';
+import { DataLoader } from '@/utils/DataLoader';
+import { SeedDisplay } from '@/ui/SeedDisplay';
 
 /**
  * VictoryScene - Displayed when the player completes a run by defeating the boss
  */
 export class VictoryScene extends Phaser.Scene {
   private gameState!: GameStateManager;
+  private dailyResult: ReturnType<typeof DailyChallenge.recordResult> = null;
+  private ascensionUnlocked = false;
 
   constructor() {
     super({ key: 'VictoryScene' });
@@ -14,13 +19,25 @@ export class VictoryScene extends Phaser.Scene {
 
   init(data: { gameState: GameStateManager }) {
     this.gameState = data.gameState;
+    this.ascensionUnlocked = false;
+    GameStateManager.clearSave();
+    this.dailyResult = DailyChallenge.recordResult(this.gameState, true);
+
+    // Custom runs are for testing and never count toward progression
+    if (this.gameState.custom) return;
 
     // Record run completion
+    UnlockSystem.recordRunEnd(true);
     UnlockSystem.recordRunComplete(
       this.gameState.currentFloor,
       this.gameState.player.gold
     );
 
+    // A win unlocks the next ascension level for the character
+    const { characterId, ascension } = this.gameState;
+    this.ascensionUnlocked = !!characterId &&
+      UnlockSystem.recordAscensionWin(characterId, ascension, DataLoader.getMaxAscension());
+
     // Check for new unlocks
     const newUnlocks = UnlockSystem.checkUnlockConditions();
     if (newUnlocks.length > 0) {
@@ -60,6 +77,9 @@ export class VictoryScene extends Phaser.Scene {
       fontFamily: 'monospace',
     }).setOrigin(0.5);
 
+    // The seed, to share or replay the run
+    new SeedDisplay({ scene: this, x: width / 2, y: 262, seed: this.gameState.seed, align: 'center' });
+
     // Run statistics
     this.displayRunStatistics(width, height);
 
@@ -91,6 +111,19 @@ export class VictoryScene extends Phaser.Scene {
       `Deck Size: ${player.deck.length} cards`,
       `Relics Obtained: ${player.relics.length}`,
     ];
+    if (this.gameState.ascension > 0) {
+      stats.push(`Ascension: ${this.gameState.ascension}`);
+    }
+    if (this.gameState.custom) {
+      stats.push('Custom Run (not recorded)');
+    }
+    if (this.ascensionUnlocked) {
+      stats.push(`Ascension ${this.gameState.ascension + 1} unlocked!`);
+    }
+    if (this.dailyResult) {
+      const { result, best, isNewBest } = this.dailyResult;
+      stats.push(`Daily Score: ${result.score} ${isNewBest ? '(new best!)' : `(best ${best.score})`}`);
+    }
 
     stats.forEach((stat, index) => {
       this.add.text(width / 2, startY + 60 + index * lineHeight, stat, {
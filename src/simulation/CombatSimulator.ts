@@ -0,0 +1,205 @@
+import { Player } from '@/entities/Player';
+import { Enemy } from '@/entities/Enemy';
+import { CombatManager } from '@/systems/CombatManager';
+import { ModifierSystem } from '@/systems/ModifierSystem';
+import { RNG } from '@/systems/RNG';
+import { DataLoader } from '@/utils/DataLoader';
+import { PolicyName, createPolicy } from './policies';
+
+/**
+ * Outcome of a single simulated fight
+ */
+export interface FightResult {
+  encounter: string;
+  policy: string;
+  victory: boolean;
+  turns: number;
+  hpLost: number;
+  cardsPlayed: number;
+  timedOut: boolean;
+}
+
+/**
+ * Aggregated results for one encounter/policy pair
+ */
+export interface EncounterSummary {
+  encounter: string;
+  policy: string;
+  fights: number;
+  wins: number;
+  winRate: number;
+  avgTurns: number;
+  avgHpLost: number;
+  avgCardsPlayed: number;
+  timeouts: number;
+}
+
+export interface SimulationConfig {
+  characterId: string;
+  /** Each encounter is a list of enemy ids fought together */
+  encounters: string[][];
+  policies: PolicyName[];
+  fightsPerEncounter: number;
+  seed: string;
+  /** Ascension level the enemies are scaled and scripted for (default: 0) */
+  ascension?: number;
+  /** Safety cap so stalled fights (e.g. nobody deals damage) still end */
+  maxTurns?: number;
+}
+
+export interface SimulationReport {
+  characterId: string;
+  seed: string;
+  fightsPerEncounter: number;
+  summaries: EncounterSummary[];
+}
+
+/**
+ * CombatSimulator runs fights against CombatManager without any rendering,
+ * letting a PlayPolicy pick every card play
+ */
+export class CombatSimulator {
+  private readonly MAX_PLAYS_PER_TURN = 50;
+  private config: SimulationConfig;
+
+  constructor(config: SimulationConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Run every encounter against every policy
+   */
+  run(): SimulationReport {
+    const summaries: EncounterSummary[] = [];
+    ModifierSystem.setActive(DataLoader.getAscensionLevels(this.config.ascension ?? 0));
+
+    this.config.encounters.forEach((enemyIds) => {
+      this.config.policies.forEach((policyName) => {
+        const results: FightResult[] = [];
+        for (let i = 0; i < this.config.fightsPerEncounter; i++) {
+          results.push(this.runFight(enemyIds, policyName, i));
+        }
+        summaries.push(CombatSimulator.summarize(results));
+      });
+    });
+
+    return {
+      characterId: this.config.characterId,
+      seed: this.config.seed,
+      fightsPerEncounter: this.config.fightsPerEncounter,
+      summaries,
+    };
+  }
+
+  /**
+   * Run a single fight. Every fight gets its own derived seed so any one of
+   * them can be replayed in isolation.
+   */
+  runFight(enemyIds: string[], policyName: PolicyName, index: number): FightResult {
+    const encounter = enemyIds.join('+');
+    const fightSeed = `${this.config.seed}:${encounter}:${policyName}:${index}`;
+    RNG.initialize(fightSeed);
+
+    const player = this.createPlayer();
+    const enemies = this.createEnemies(enemyIds);
+    const policy = createPolicy(policyName, RNG.hashSeed(fightSeed));
+    const maxTurns = this.config.maxTurns ?? 100;
+
+    const combat = new CombatManager(player, enemies, this.config.ascension ?? 0);
+    let cardsPlayed = 0;
+    combat.onCardPlayed = () => cardsPlayed++;
+
+    const startingHp = player.currentHp;
+    combat.startCombat();
+
+    while (!combat.combatEnded && combat.turn <= maxTurns) {
+      for (let plays = 0; plays < this.MAX_PLAYS_PER_TURN && !combat.combatEnded; plays++) {
+        const play = policy.choosePlay(combat);
+        if (!play || !combat.playCard(play.card, play.target)) break;
+      }
+
+      if (combat.combatEnded) break;
+      combat.endPlayerTurn();
+    }
+
+    const victory = combat.combatEnded && combat.victory;
+
+    return {
+      encounter,
+      policy: policy.name,
+      victory,
+      turns: combat.turn,
+      hpLost: startingHp - player.currentHp,
+      cardsPlayed,
+      timedOut: !victory && !player.isDead(),
+    };
+  }
+
+  private createPlayer(): Player {
+    const characterClass = DataLoader.getCharacterClass(this.config.characterId);
+    if (!characterClass) {
+      throw new Error(`Unknown character: ${this.config.characterId}`);
+    }
+    return Player.fromCharacterClass(characterClass);
+  }
+
+  private createEnemies(enemyIds: string[]): Enemy[] {
+    return enemyIds.map((id) => {
+      const enemy = DataLoader.getEnemy(id);
+      if (!enemy) {
+        throw new Error(`Unknown enemy: ${id}`);
+      }
+      return enemy;
+    });
+  }
+
+  /**
+   * Aggregate fight results for one encounter/policy pair
+   */
+  static summarize(results: FightResult[]): EncounterSummary {
+    const fights = results.length;
+    const wins = results.filter((r) => r.victory).length;
+    const average = (pick: (r: FightResult) => number) =>
+      fights === 0 ? 0 : results.reduce((sum, r) => sum + pick(r), 0) / fights;
+
+    return {
+      encounter: results[0]?.encounter ?? '',
+      policy: results[0]?.policy ?? '',
+      fights,
+      wins,
+      winRate: fights === 0 ? 0 : wins / fights,
+      avgTurns: average((r) => r.turns),
+      avgHpLost: average((r) => r.hpLost),
+      avgCardsPlayed: average((r) => r.cardsPlayed),
+      timeouts: results.filter((r) => r.timedOut).length,
+    };
+  }
+
+  /**
+   * Format a report as CSV, one row per encounter/policy pair
+   */
+  static toCsv(report: SimulationReport): string {
+    const header = 'encounter,policy,fights,wins,winRate,avgTurns,avgHpLost,avgCardsPlayed,timeouts';
+    const rows = report.summaries.map((s) =>
+      [
+        s.encounter,
+        s.policy,
+        s.fights,
+        s.wins,
+        s.winRate.toFixed(3),
+        s.avgTurns.toFixed(2),
+        s.avgHpLost.toFixed(2),
+        s.avgCardsPlayed.toFixed(2),
+        s.timeouts,
+      ].join(',')
+    );
+    return [header, ...rows].join('\n') + '\n';
+  }
+
+  /**
+   * Format a report as pretty-printed JSON
+   */
+  static toJson(report: SimulationReport): string {
+    return JSON.stringify(report, null, 2) + '\n';
+  }
+}
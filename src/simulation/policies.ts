@@ -0,0 +1,183 @@
+import { Card } from '@/types';
+import { Enemy } from '@/entities/Enemy';
+import { CombatManager } from '@/systems/CombatManager';
+import { SeededRandom } from '@/systems/RNG';
+
+/**
+ * A single card play chosen by a policy
+ */
+export interface PlannedPlay {
+  card: Card;
+  target?: Enemy;
+}
+
+/**
+ * A play policy decides which card to play next. Returning null ends the turn.
+ */
+export interface PlayPolicy {
+  readonly name: string;
+  choosePlay(combat: CombatManager): PlannedPlay | null;
+}
+
+/**
+ * Cards in hand the player can currently afford
+ */
+export function getPlayableCards(combat: CombatManager): Card[] {
+  return combat.hand.filter((card) => {
+    if (card.type === 'STATUS' || card.type === 'CURSE') return false;
+    return card.isXCost || card.cost <= combat.player.energy;
+  });
+}
+
+/**
+ * Estimate the raw damage a card deals (before strength, weak, vulnerable)
+ */
+export function estimateCardDamage(combat: CombatManager, card: Card): number {
+  const aliveCount = combat.getAliveEnemies().length;
+
+  return card.effects.reduce((total, effect) => {
+    const value = effect.value === 0 && card.isXCost ? combat.player.energy : effect.value;
+
+    switch (effect.type) {
+      case 'DAMAGE':
+        return total + (effect.target === 'ALL_ENEMIES' ? value * aliveCount : value);
+      case 'DAMAGE_EQUAL_BLOCK':
+        return total + combat.player.block;
+      default:
+        return total;
+    }
+  }, 0);
+}
+
+/**
+ * Estimate the raw block a card grants
+ */
+export function estimateCardBlock(card: Card): number {
+  return card.effects
+    .filter((effect) => effect.type === 'BLOCK')
+    .reduce((total, effect) => total + effect.value, 0);
+}
+
+/**
+ * Total damage the enemies intend to deal next enemy turn
+ */
+export function estimateIncomingDamage(combat: CombatManager): number {
+  return combat.getAliveEnemies().reduce((total, enemy) => {
+    const intent = enemy.getIntent();
+    if (intent.type !== 'ATTACK') return total;
+    return total + enemy.getIntentValue() * (intent.times || 1);
+  }, 0);
+}
+
+/**
+ * Pick a target for a card. Only single-target cards get one, matching CombatScene.
+ */
+function chooseTarget(combat: CombatManager, card: Card, pick: (enemies: Enemy[]) => Enemy | undefined): Enemy | undefined {
+  if (card.targetType !== 'SINGLE_ENEMY') return undefined;
+  return pick(combat.getAliveEnemies());
+}
+
+/**
+ * Lowest-HP enemy, to finish kills as early as possible
+ */
+function weakestEnemy(enemies: Enemy[]): Enemy | undefined {
+  return enemies.reduce<Enemy | undefined>(
+    (weakest, enemy) => (!weakest || enemy.currentHp < weakest.currentHp ? enemy : weakest),
+    undefined
+  );
+}
+
+/**
+ * Plays a random affordable card on a random target
+ */
+export class RandomPolicy implements PlayPolicy {
+  readonly name: string = 'random';
+  private rng: SeededRandom;
+
+  constructor(seed: number) {
+    this.rng = new SeededRandom(seed);
+  }
+
+  choosePlay(combat: CombatManager): PlannedPlay | null {
+    const card = this.rng.pick(getPlayableCards(combat));
+    if (!card) return null;
+
+    return { card, target: chooseTarget(combat, card, (enemies) => this.rng.pick(enemies)) };
+  }
+}
+
+/**
+ * Always plays the highest-damage card on the weakest enemy, then spends
+ * leftover energy on the best block card
+ */
+export class GreedyDamagePolicy implements PlayPolicy {
+  readonly name: string = 'greedy-damage';
+
+  choosePlay(combat: CombatManager): PlannedPlay | null {
+    const playable = getPlayableCards(combat);
+    if (playable.length === 0) return null;
+
+    const card =
+      this.best(playable, (c) => estimateCardDamage(combat, c)) ??
+      this.best(playable, (c) => estimateCardBlock(c)) ??
+      playable[0];
+
+    return { card, target: chooseTarget(combat, card, weakestEnemy) };
+  }
+
+  /**
+   * Card with the highest positive score, if any
+   */
+  protected best(cards: Card[], score: (card: Card) => number): Card | undefined {
+    let bestCard: Card | undefined;
+    let bestScore = 0;
+
+    cards.forEach((card) => {
+      const value = score(card);
+      if (value > bestScore) {
+        bestCard = card;
+        bestScore = value;
+      }
+    });
+
+    return bestCard;
+  }
+}
+
+/**
+ * Blocks until the incoming attack is covered, then plays greedily for damage
+ */
+export class BlockFirstPolicy extends GreedyDamagePolicy {
+  readonly name: string = 'block-first';
+
+  choosePlay(combat: CombatManager): PlannedPlay | null {
+    const playable = getPlayableCards(combat);
+    if (playable.length === 0) return null;
+
+    if (estimateIncomingDamage(combat) > combat.player.block) {
+      const blockCard = this.best(playable, (c) => estimateCardBlock(c));
+      if (blockCard) {
+        return { card: blockCard, target: chooseTarget(combat, blockCard, weakestEnemy) };
+      }
+    }
+
+    return super.choosePlay(combat);
+  }
+}
+
+export const POLICY_NAMES = ['random', 'greedy-damage', 'block-first'] as const;
+export type PolicyName = (typeof POLICY_NAMES)[number];
+
+/**
+ * Create a policy by name
+ */
+export function createPolicy(name: PolicyName, seed: number): PlayPolicy {
+  switch (name) {
+    case 'random':
+      return new RandomPolicy(seed);
+    case 'greedy-damage':
+      return new GreedyDamagePolicy();
+    case 'block-first':
+      return new BlockFirstPolicy();
+  }
+}
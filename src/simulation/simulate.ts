@@ -0,0 +1,162 @@
+/**
+ * Headless combat simulator entry point (run with `npm run simulate`).
+ *
+ * Options:
+ *   --character <id>     character from characters.json (default: warrior)
+ *   --enemies <ids>      comma-separated enemy ids fought together; repeatable.
+ *                        Defaults to every enemy of the act, one at a time.
+ *   --act <n>            act whose enemies are simulated by default (default: 1)
+ *   --type <type>        only simulate enemies of this type (normal, elite, boss)
+ *   --ascension <n>      ascension level of the enemies (default: 0)
+ *   --policies <names>   comma-separated: random, greedy-damage, block-first (default: all)
+ *   --fights <n>         fights per encounter and policy (default: 100)
+ *   --seed <seed>        base seed (default: "sim")
+ *   --format <fmt>       json or csv (default: json)
+ *   --out <file>         write the report to a file instead of stdout
+ *   --verbose            keep CombatManager's console logging
+ */
+import { writeFileSync } from 'node:fs';
+import { DataLoader } from '@/utils/DataLoader';
+import { CombatSimulator } from './CombatSimulator';
+import { POLICY_NAMES, PolicyName } from './policies';
+
+interface CliOptions {
+  character: string;
+  enemies: string[][];
+  act: number;
+  type?: string;
+  ascension: number;
+  policies: PolicyName[];
+  fights: number;
+  seed: string;
+  format: 'json' | 'csv';
+  out?: string;
+  verbose: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    character: 'warrior',
+    enemies: [],
+    act: 1,
+    ascension: 0,
+    policies: [...POLICY_NAMES],
+    fights: 100,
+    seed: 'sim',
+    format: 'json',
+    verbose: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+
+    switch (arg) {
+      case '--character':
+        options.character = value;
+        i++;
+        break;
+      case '--enemies':
+        options.enemies.push(value.split(',').filter(Boolean));
+        i++;
+        break;
+      case '--act':
+        options.act = parseInt(value, 10);
+        i++;
+        break;
+      case '--ascension':
+        options.ascension = parseInt(value, 10);
+        i++;
+        break;
+      case '--type':
+        options.type = value;
+        i++;
+        break;
+      case '--policies': {
+        const names = value.split(',');
+        const unknown = names.filter((n) => !(POLICY_NAMES as readonly string[]).includes(n));
+        if (unknown.length > 0) {
+          throw new Error(`Unknown policies: ${unknown.join(', ')} (expected ${POLICY_NAMES.join(', ')})`);
+        }
+        options.policies = names as PolicyName[];
+        i++;
+        break;
+      }
+      case '--fights':
+        options.fights = parseInt(value, 10);
+        i++;
+        break;
+      case '--seed':
+        options.seed = value;
+        i++;
+        break;
+      case '--format':
+        if (value !== 'json' && value !== 'csv') {
+          throw new Error(`Unknown format: ${value} (expected json or csv)`);
+        }
+        options.format = value;
+        i++;
+        break;
+      case '--out':
+        options.out = value;
+        i++;
+        break;
+      case '--verbose':
+        options.verbose = true;
+        break;
+      default:
+        throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  if (!Number.isInteger(options.fights) || options.fights < 1) {
+    throw new Error('--fights must be a positive integer');
+  }
+
+  return options;
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+
+  // The combat systems log every action; thousands of fights would drown the report
+  if (!options.verbose) {
+    console.log = () => {};
+    console.warn = () => {};
+  }
+
+  DataLoader.initialize();
+
+  const encounters =
+    options.enemies.length > 0
+      ? options.enemies
+      : DataLoader.getEnemiesByAct(options.act)
+          .filter((enemy) => !options.type || enemy.type === options.type)
+          .map((enemy) => [enemy.id]);
+
+  const simulator = new CombatSimulator({
+    characterId: options.character,
+    encounters,
+    policies: options.policies,
+    fightsPerEncounter: options.fights,
+    seed: options.seed,
+    ascension: options.ascension,
+  });
+
+  const report = simulator.run();
+  const output = options.format === 'csv' ? CombatSimulator.toCsv(report) : CombatSimulator.toJson(report);
+
+  if (options.out) {
+    writeFileSync(options.out, output);
+    process.stderr.write(`Wrote ${report.summaries.length} rows to ${options.out}\n`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -7,28 +7,26 @@ import type {
   Relic,
   Potion,
   Room,
+  RoomType,
+  UnknownRoomOdds,
+  CardRewardOdds,
   Enemy,
   CombatState,
   CharacterClass,
   GameEvent,
-  StatusEffects
+  EncounterKind
 } from '@/types';
-
-// Helper to create default status effects
-const createDefaultStatusEffects = (): StatusEffects => ({
-  strength: 0,
-  dexterity: 0,
-  weak: 0,
-  vulnerable: 0,
-  frail: 0,
-  poison: 0,
-  artifact: 0,
-  platedArmor: 0,
-  thorns: 0,
-  ritual: 0,
-  intangible: 0,
-  block: 0,
-});
+import { RNG, RngStream } from '@/systems/RNG';
+import { DataLoader } from '@/utils/DataLoader';
+import { CardRewardSystem } from '@/systems/CardRewardSystem';
+import { EncounterSystem } from '@/systems/EncounterSystem';
+import { RoutePlanner } from '@/systems/RoutePlanner';
+import { SaveSlot, SaveSystem } from '@/systems/SaveSystem';
+import { UnknownRoomSystem } from '@/systems/UnknownRoomSystem';
+import { CombatEngine } from '@/engine/CombatEngine';
+import { calculateDamage } from '@/engine/modifiers';
+import { createEmptyStatusEffects } from '@/engine/statusEffects';
+import type { CombatAction, CombatEngineState } from '@/engine/types';
 
 // Helper to create default player
 const createDefaultPlayer = (): Player => ({
@@ -38,7 +36,7 @@ const createDefaultPlayer = (): Player => ({
   block: 0,
   energy: 3,
   maxEnergy: 3,
-  statusEffects: createDefaultStatusEffects(),
+  statusEffects: createEmptyStatusEffects(),
   deck: [],
   relics: [],
   potions: [null, null, null],
@@ -380,7 +378,7 @@ const RELIC_TEMPLATES: Record<string, Omit<Relic, 'counter'>> = {
     id: 'hollow_guardians_core',
     name: "Hollow Guardian's Core",
     description: 'Gain 15 Max HP. Start each combat with 15 Block.',
-    rarity: 'RARE',
+    rarity: 'BOSS',
     effects: [
       { trigger: 'PICKUP', action: 'MAX_HP', value: 15 },
       { trigger: 'START_COMBAT', action: 'BLOCK', value: 15 },
@@ -390,14 +388,14 @@ const RELIC_TEMPLATES: Record<string, Omit<Relic, 'counter'>> = {
     id: 'crystal_wyrms_scale',
     name: "Crystal Wyrm's Scale",
     description: 'At the start of each turn, gain 5 Ore Plating.',
-    rarity: 'RARE',
+    rarity: 'BOSS',
     effects: [{ trigger: 'START_TURN', action: 'PLATED_ARMOR', value: 5 }],
   },
   the_forgottens_mask: {
     id: 'the_forgottens_mask',
     name: "The Forgotten's Mask",
     description: 'Gain 1 Energy each turn. Draw 1 fewer card at the start of combat.',
-    rarity: 'RARE',
+    rarity: 'BOSS',
     effects: [
       { trigger: 'START_TURN', action: 'ENERGY', value: 1 },
       { trigger: 'START_COMBAT', action: 'DRAW', value: -1 },
@@ -427,6 +425,55 @@ function createStarterRelic(relicId: string): Relic | null {
   return { ...relic };
 }
 
+// Project an engine state onto the store's player and combat view
+function projectCombat(
+  player: Player,
+  previous: CombatState | null,
+  engineState: CombatEngineState
+): Pick<GameState, 'player' | 'combat' | 'combatEngine'> {
+  return {
+    combatEngine: engineState,
+    player: {
+      ...player,
+      maxHp: engineState.player.maxHp,
+      currentHp: engineState.player.currentHp,
+      block: engineState.player.block,
+      energy: engineState.player.energy,
+      maxEnergy: engineState.player.maxEnergy,
+      statusEffects: engineState.player.statusEffects,
+      relics: engineState.player.relics,
+      gold: engineState.player.gold,
+    },
+    combat: {
+      enemies: engineState.enemies,
+      hand: engineState.hand,
+      drawPile: engineState.drawPile,
+      discardPile: engineState.discardPile,
+      exhaustPile: engineState.exhaustPile,
+      powers: engineState.player.powers,
+      turn: engineState.turn,
+      isPlayerTurn: engineState.isPlayerTurn,
+      selectedCard: previous?.selectedCard ?? null,
+      targetingMode: previous?.targetingMode ?? false,
+    },
+  };
+}
+
+// Screens a saved run resumes on. Fights are saved from the map before them.
+const SAVED_SCREENS: GameScreen[] = ['MAP', 'REWARD', 'REST', 'MERCHANT', 'EVENT', 'TREASURE'];
+
+const RUN_SAVE: SaveSlot = {
+  key: 'thedescent_store_run',
+  version: 1,
+  migrations: {},
+};
+
+type SavedRun = Pick<
+  GameState,
+  'screen' | 'player' | 'currentAct' | 'currentFloor' | 'map' | 'currentRoomIndex' | 'seed' | 'recentEncounters'
+  | 'plannedRoute' | 'unknownRooms' | 'cardRewards'
+> & { rng: Record<RngStream, number> };
+
 interface GameState {
   // Screen management
   screen: GameScreen;
@@ -439,9 +486,20 @@ interface GameState {
   map: Room[];
   currentRoomIndex: number;
   seed: string;
+  /** Ids of the encounters fought this run, oldest first */
+  recentEncounters: string[];
+  /** Rooms of the route the player pinned on the map, next room first */
+  plannedRoute: number[];
+  /** Odds of what the next "?" room holds */
+  unknownRooms: UnknownRoomOdds;
+  /** Odds of rare cards in card rewards */
+  cardRewards: CardRewardOdds;
 
   // Combat state
   combat: CombatState | null;
+  combatEngine: CombatEngineState | null;
+  /** States before each undoable card play or potion this turn, most recent last */
+  combatUndo: { engine: CombatEngineState; potions: (Potion | null)[] }[];
 
   // UI state
   showDeckView: boolean;
@@ -455,11 +513,17 @@ interface GameState {
 
   // Actions
   setScreen: (screen: GameScreen) => void;
-  startNewRun: (character: CharacterClass) => void;
+  /** Start a run; an empty seed gets a random one */
+  startNewRun: (character: CharacterClass, seed?: string) => void;
+  hasSavedRun: () => boolean;
+  /** Restore the saved run; false when there is none */
+  continueRun: () => boolean;
 
   // Player actions
   updatePlayer: (updates: Partial<Player>) => void;
   addCardToDeck: (card: Card) => void;
+  /** Roll the cards a reward offers from the pool, for the room just won */
+  rollCardRewards: (pool: Card[]) => Card[];
   removeCardFromDeck: (cardIndex: number) => void;
   upgradeCard: (cardIndex: number) => void;
   addRelic: (relic: Relic) => void;
@@ -473,14 +537,21 @@ interface GameState {
   // Map actions
   setMap: (map: Room[]) => void;
   moveToRoom: (roomIndex: number) => void;
+  /** What the player finds in a room they entered; "?" rooms resolve here */
+  resolveRoom: (roomIndex: number) => RoomType;
+  setPlannedRoute: (route: number[]) => void;
 
   // Combat actions
+  rollEncounter: (kind: EncounterKind) => Enemy[];
   startCombat: (enemies: Enemy[]) => void;
   endCombat: (victory: boolean) => void;
   setCombat: (combat: CombatState | null) => void;
   updateCombat: (updates: Partial<CombatState>) => void;
+  dispatchCombatAction: (action: CombatAction) => boolean;
   playCard: (cardIndex: number, targetIndex: number | null) => void;
   endPlayerTurn: () => void;
+  /** Take back the last card play or potion this turn */
+  undoCombatAction: () => boolean;
 
   // UI actions
   setShowDeckView: (show: boolean, mode?: 'DECK' | 'DRAW' | 'DISCARD' | 'EXHAUST') => void;
@@ -506,7 +577,13 @@ export const useGameStore = create<GameState>()(
     map: [],
     currentRoomIndex: 0,
     seed: '',
+    recentEncounters: [],
+    plannedRoute: [],
+    unknownRooms: UnknownRoomSystem.createOdds(),
+    cardRewards: CardRewardSystem.createOdds(),
     combat: null,
+    combatEngine: null,
+    combatUndo: [],
     showDeckView: false,
     deckViewMode: 'DECK',
     showMap: false,
@@ -521,8 +598,36 @@ export const useGameStore = create<GameState>()(
     })),
 
     // Start new run
-    startNewRun: (character) => {
-      const seed = Math.random().toString(36).substring(2, 15);
+    hasSavedRun: () => SaveSystem.has(RUN_SAVE),
+
+    continueRun: () => {
+      const save = SaveSystem.read<SavedRun>(RUN_SAVE);
+      if (!save) return false;
+
+      const { rng, ...run } = save;
+      // Load data before restoring the streams so it can never eat into them
+      DataLoader.initialize();
+      RNG.setState(run.seed, rng);
+      set({
+        ...run,
+        plannedRoute: run.plannedRoute ?? [],
+        unknownRooms: run.unknownRooms ?? UnknownRoomSystem.createOdds(),
+        cardRewards: run.cardRewards ?? CardRewardSystem.createOdds(),
+        previousScreen: null,
+        combat: null,
+        combatEngine: null,
+        combatUndo: [],
+        currentEvent: null,
+      });
+      return true;
+    },
+
+    startNewRun: (character, seedInput) => {
+      const seed = RNG.normalizeSeed(seedInput);
+      // Loading data builds enemy templates; do it before seeding so it can
+      // never eat into the run's streams
+      DataLoader.initialize();
+      RNG.initialize(seed);
 
       // Create starter deck from character's starting cards
       const starterDeck = createStarterDeck(character.startingDeck);
@@ -545,7 +650,13 @@ export const useGameStore = create<GameState>()(
         currentRoomIndex: -1, // -1 means at the start, not on any room yet
         map: [], // Will be generated by MapScreen
         seed,
+        recentEncounters: [],
+        plannedRoute: [],
+        unknownRooms: UnknownRoomSystem.createOdds(),
+        cardRewards: CardRewardSystem.createOdds(),
         combat: null,
+        combatEngine: null,
+        combatUndo: [],
       });
     },
 
@@ -561,6 +672,21 @@ export const useGameStore = create<GameState>()(
       }
     })),
 
+    rollCardRewards: (pool) => {
+      const state = get();
+      const room = state.map[state.currentRoomIndex];
+      const cardRewards = { ...state.cardRewards };
+      const cards = CardRewardSystem.generate(
+        CardRewardSystem.getFight(room?.resolved ?? room?.type),
+        state.currentAct,
+        cardRewards,
+        state.player.relics,
+        pool
+      );
+      set({ cardRewards });
+      return cards;
+    },
+
     removeCardFromDeck: (cardIndex) => set((state) => ({
       player: {
         ...state.player,
@@ -634,11 +760,10 @@ export const useGameStore = create<GameState>()(
       const state = get();
       const { player } = state;
 
-      // Apply vulnerable
-      let damage = amount;
-      if (player.statusEffects.vulnerable > 0) {
-        damage = Math.floor(damage * 1.5);
-      }
+      const damage = calculateDamage(amount, {
+        target: { isPlayer: true, statusEffects: player.statusEffects },
+        relics: player.relics,
+      }).final;
 
       // Block absorbs damage
       const damageAfterBlock = Math.max(0, damage - player.block);
@@ -657,7 +782,12 @@ export const useGameStore = create<GameState>()(
     },
 
     // Map actions
-    setMap: (map) => set({ map }),
+    setMap: (map) => {
+      set({ map, plannedRoute: [] });
+      // A new act's map is saved right away; moves on it are saved once the
+      // room's own screen is reached, so a fight can't be skipped by reloading
+      autosave(get());
+    },
 
     moveToRoom: (roomIndex) => set((state) => {
       const map = [...state.map];
@@ -665,50 +795,71 @@ export const useGameStore = create<GameState>()(
       return {
         map,
         currentRoomIndex: roomIndex,
-        currentFloor: map[roomIndex].y
+        currentFloor: map[roomIndex].y,
+        plannedRoute: RoutePlanner.advance(state.plannedRoute, roomIndex),
       };
     }),
 
+    resolveRoom: (roomIndex) => {
+      const state = get();
+      const room = { ...state.map[roomIndex] };
+      const unknownRooms = { ...state.unknownRooms, chances: { ...state.unknownRooms.chances } };
+      const roomType = UnknownRoomSystem.enter(room, unknownRooms, state.player.relics);
+
+      const map = [...state.map];
+      map[roomIndex] = room;
+      set({ map, unknownRooms });
+      return roomType;
+    },
+
+    setPlannedRoute: (route) => set({ plannedRoute: route }),
+
     // Combat actions
-    startCombat: (enemies) => {
+    rollEncounter: (kind) => {
       const state = get();
+      const encounter = EncounterSystem.pickEncounter(state.currentAct, kind, state.currentFloor, state.recentEncounters);
+      if (!encounter) return [];
 
-      // Shuffle deck into draw pile
-      const shuffledDeck = [...state.player.deck].sort(() => Math.random() - 0.5);
+      set({ recentEncounters: [...state.recentEncounters, encounter.id] });
+      return EncounterSystem.createEnemies(encounter).map((enemy) => enemy.toData());
+    },
 
-      // Draw initial hand (5 cards)
-      const handSize = 5;
-      const hand = shuffledDeck.slice(0, handSize);
-      const drawPile = shuffledDeck.slice(handSize);
+    startCombat: (enemies) => {
+      const state = get();
 
-      set({
-        screen: 'COMBAT',
+      const engineState = CombatEngine.createState({
         player: {
-          ...state.player,
-          energy: state.player.maxEnergy,
+          maxHp: state.player.maxHp,
+          currentHp: state.player.currentHp,
           block: 0,
+          energy: state.player.maxEnergy,
+          maxEnergy: state.player.maxEnergy,
+          statusEffects: state.player.statusEffects,
+          relics: state.player.relics,
+          gold: state.player.gold,
         },
-        combat: {
-          enemies,
-          hand,
-          drawPile,
-          discardPile: [],
-          exhaustPile: [],
-          turn: 1,
-          isPlayerTurn: true,
-          selectedCard: null,
-          targetingMode: false,
-        }
+        enemies,
+        deck: state.player.deck,
+        seeds: CombatEngine.seedsFromRun(),
+      });
+      const { state: started } = CombatEngine.apply(engineState, { type: 'START_COMBAT' });
+
+      set({
+        screen: 'COMBAT',
+        combatUndo: [],
+        ...projectCombat(state.player, null, started),
       });
     },
 
     endCombat: (victory) => set((state) => ({
       screen: victory ? 'REWARD' : 'DEFEAT',
       combat: null,
+      combatEngine: null,
+      combatUndo: [],
       player: {
         ...state.player,
         block: 0,
-        statusEffects: createDefaultStatusEffects()
+        statusEffects: createEmptyStatusEffects()
       }
     })),
 
@@ -718,306 +869,64 @@ export const useGameStore = create<GameState>()(
       combat: state.combat ? { ...state.combat, ...updates } : null
     })),
 
-    playCard: (cardIndex, targetIndex) => {
+    dispatchCombatAction: (action) => {
       const state = get();
-      const { combat, player } = state;
-
-      if (!combat || !combat.isPlayerTurn) return;
-
-      const card = combat.hand[cardIndex];
-      if (!card) return;
-
-      // Check energy cost
-      if (card.cost > player.energy && !card.isXCost) return;
-
-      // Calculate energy cost
-      const energyCost = card.isXCost ? player.energy : card.cost;
-
-      // Apply card effects
-      let newPlayer = { ...player, energy: player.energy - energyCost };
-      let newEnemies = [...combat.enemies];
-
-      // Process each effect in the card
-      for (const effect of card.effects) {
-        switch (effect.type) {
-          case 'DAMAGE': {
-            if (targetIndex !== null && newEnemies[targetIndex]) {
-              let damage = effect.value;
-
-              // Apply strength bonus
-              damage += newPlayer.statusEffects.strength;
-
-              // Apply vulnerable multiplier (50% more damage)
-              if (newEnemies[targetIndex].statusEffects.vulnerable > 0) {
-                damage = Math.floor(damage * 1.5);
-              }
-
-              // Apply weak  penalty (25% less damage)
-              if (newPlayer.statusEffects.weak > 0) {
-                damage = Math.floor(damage * 0.75);
-              }
-
-              // Apply damage after block
-              const enemy = newEnemies[targetIndex];
-              const damageAfterBlock = Math.max(0, damage - enemy.block);
-              enemy.currentHp = Math.max(0, enemy.currentHp - damageAfterBlock);
-              enemy.block = Math.max(0, enemy.block - damage);
-            }
-            break;
-          }
-
-          case 'BLOCK': {
-            let blockGained = effect.value;
-
-            // Apply dexterity bonus
-            blockGained += newPlayer.statusEffects.dexterity;
-
-            // Apply frail penalty (25% less block)
-            if (newPlayer.statusEffects.frail > 0) {
-              blockGained = Math.floor(blockGained * 0.75);
-            }
-
-            newPlayer.block += blockGained;
-            break;
-          }
-
-          case 'APPLY_VULNERABLE': {
-            if (targetIndex !== null && newEnemies[targetIndex]) {
-              newEnemies[targetIndex].statusEffects.vulnerable += effect.value;
-            }
-            break;
-          }
-
-          case 'APPLY_WEAK': {
-            if (targetIndex !== null && newEnemies[targetIndex]) {
-              newEnemies[targetIndex].statusEffects.weak += effect.value;
-            }
-            break;
-          }
-
-          case 'APPLY_STRENGTH': {
-            newPlayer.statusEffects.strength += effect.value;
-            break;
-          }
-
-          case 'APPLY_DEXTERITY': {
-            newPlayer.statusEffects.dexterity += effect.value;
-            break;
-          }
-
-          case 'DRAW': {
-            // Will handle drawing cards below
-            break;
-          }
-
-          case 'HEAL': {
-            newPlayer.currentHp = Math.min(newPlayer.maxHp, newPlayer.currentHp + effect.value);
-            break;
-          }
-
-          case 'APPLY_POISON': {
-            if (targetIndex !== null && newEnemies[targetIndex]) {
-              newEnemies[targetIndex].statusEffects.poison += effect.value;
-            }
-            break;
-          }
-        }
-      }
+      if (!state.combatEngine) return false;
 
-      // Remove dead enemies
-      newEnemies = newEnemies.filter(e => e.currentHp > 0);
-
-      // Move card to appropriate pile
-      const newHand = [...combat.hand];
-      const playedCard = newHand.splice(cardIndex, 1)[0];
-      const newExhaustPile = card.exhaust ? [...combat.exhaustPile, playedCard] : combat.exhaustPile;
-      const newDiscardPile = !card.exhaust ? [...combat.discardPile, playedCard] : combat.discardPile;
-
-      // Draw cards if card has draw effect
-      const drawEffect = card.effects.find(e => e.type === 'DRAW');
-      let newDrawPile = [...combat.drawPile];
-      if (drawEffect) {
-        for (let i = 0; i < drawEffect.value; i++) {
-          if (newDrawPile.length === 0) {
-            // Shuffle discard back into draw
-            newDrawPile = [...newDiscardPile].sort(() => Math.random() - 0.5);
-            newDiscardPile.length = 0;
-          }
-          if (newDrawPile.length > 0) {
-            newHand.push(newDrawPile.shift()!);
-          }
-        }
-      }
+      const result = CombatEngine.apply(state.combatEngine, action);
+      const { state: next, events } = result;
+      if (events.some(e => e.type === 'ACTION_REJECTED')) return false;
+
+      // Anything that can't be undone also locks in the actions before it
+      const combatUndo = CombatEngine.isUndoable(action, state.combatEngine, result)
+        ? [...state.combatUndo, { engine: state.combatEngine, potions: state.player.potions }]
+        : [];
 
-      // Check victory
-      if (newEnemies.length === 0) {
-        set({
-          player: newPlayer,
-          screen: 'REWARD',
-          combat: null
-        });
-        return;
+      set({ combatUndo, ...projectCombat(state.player, state.combat, next) });
+
+      if (next.combatEnded) {
+        get().endCombat(next.victory);
       }
+      return true;
+    },
 
-      set({
-        player: newPlayer,
-        combat: {
-          ...combat,
-          hand: newHand,
-          drawPile: newDrawPile,
-          discardPile: newDiscardPile,
-          exhaustPile: newExhaustPile,
-          enemies: newEnemies
-        }
-      });
+    playCard: (cardIndex, targetIndex) => {
+      get().dispatchCombatAction({ type: 'PLAY_CARD', cardIndex, targetIndex });
     },
 
     endPlayerTurn: () => {
-      const state = get();
-      const { combat, player } = state;
+      const { combat, combatEngine } = get();
 
-      if (!combat || !combat.isPlayerTurn) return;
+      if (!combat || !combatEngine || !combat.isPlayerTurn) return;
 
-      // Set to enemy turn
+      // Show the enemy turn while the intents play out; the turn is over, so
+      // nothing before it can be undone while END_TURN is pending
       set({
         combat: {
           ...combat,
           isPlayerTurn: false
-        }
+        },
+        combatUndo: [],
       });
 
       // Execute enemy turn after a delay (for animation)
       setTimeout(() => {
-        const currentState = get();
-        if (!currentState.combat) return;
-
-        let newPlayer = { ...currentState.player };
-        const newEnemies = [...currentState.combat.enemies];
-
-        // Each enemy executes their intent
-        for (const enemy of newEnemies) {
-          const intent = enemy.currentIntent;
-
-          switch (intent.type) {
-            case 'ATTACK': {
-              let damage = intent.value || 0;
-
-              // Apply enemy strength
-              damage += enemy.statusEffects.strength;
-
-              // Apply player vulnerable (50% more damage taken)
-              if (newPlayer.statusEffects.vulnerable > 0) {
-                damage = Math.floor(damage * 1.5);
-              }
-
-              // Apply enemy weak (25% less damage dealt)
-              if (enemy.statusEffects.weak > 0) {
-                damage = Math.floor(damage * 0.75);
-              }
-
-              // Apply damage through block
-              const damageAfterBlock = Math.max(0, damage - newPlayer.block);
-              newPlayer.currentHp = Math.max(0, newPlayer.currentHp - damageAfterBlock);
-              newPlayer.block = Math.max(0, newPlayer.block - damage);
-              break;
-            }
-
-            case 'DEFEND': {
-              enemy.block += intent.value || 0;
-              break;
-            }
-
-            case 'BUFF': {
-              enemy.statusEffects.strength += 1;
-              break;
-            }
-
-            case 'DEBUFF': {
-              newPlayer.statusEffects.weak += 1;
-              break;
-            }
-          }
-
-          // Choose next intent randomly from enemy moves
-          if (enemy.moves && enemy.moves.length > 0) {
-            const totalWeight = enemy.moves.reduce((sum, move) => sum + move.weight, 0);
-            let random = Math.random() * totalWeight;
-
-            for (const move of enemy.moves) {
-              random -= move.weight;
-              if (random <= 0) {
-                enemy.currentIntent = move.intent;
-                break;
-              }
-            }
-          }
-        }
-
-        // Check defeat
-        if (newPlayer.currentHp <= 0) {
-          set({
-            player: newPlayer,
-            screen: 'DEFEAT',
-            combat: null
-          });
-          return;
-        }
-
-        // Start new turn
-        // Decrement status effects
-        if (newPlayer.statusEffects.weak > 0) newPlayer.statusEffects.weak--;
-        if (newPlayer.statusEffects.vulnerable > 0) newPlayer.statusEffects.vulnerable--;
-        if (newPlayer.statusEffects.frail > 0) newPlayer.statusEffects.frail--;
-
-        for (const enemy of newEnemies) {
-          if (enemy.statusEffects.weak > 0) enemy.statusEffects.weak--;
-          if (enemy.statusEffects.vulnerable > 0) enemy.statusEffects.vulnerable--;
-
-          // Apply poison damage
-          if (enemy.statusEffects.poison > 0) {
-            enemy.currentHp = Math.max(0, enemy.currentHp - enemy.statusEffects.poison);
-          }
-
-          // Reset enemy block
-          enemy.block = 0;
-        }
+        get().dispatchCombatAction({ type: 'END_TURN' });
+      }, 1500);
+    },
 
-        // Reset player block and energy
-        newPlayer.block = 0;
-        newPlayer.energy = newPlayer.maxEnergy;
-
-        // Draw new hand
-        let newDrawPile = [...currentState.combat.drawPile];
-        let newDiscardPile = [...currentState.combat.discardPile];
-
-        // Discard all remaining cards in hand first
-        newDiscardPile.push(...currentState.combat.hand);
-        const newHand: typeof currentState.combat.hand = [];
-
-        for (let i = 0; i < 5; i++) {
-          if (newDrawPile.length === 0) {
-            // Shuffle discard into draw
-            newDrawPile = [...newDiscardPile].sort(() => Math.random() - 0.5);
-            newDiscardPile = [];
-          }
-          if (newDrawPile.length > 0) {
-            newHand.push(newDrawPile.shift()!);
-          }
-        }
+    undoCombatAction: () => {
+      const { combatUndo, player, combat } = get();
+      const entry = combatUndo[combatUndo.length - 1];
+      if (!entry || !combat?.isPlayerTurn) return false;
 
-        set({
-          player: newPlayer,
-          combat: {
-            ...currentState.combat,
-            enemies: newEnemies.filter(e => e.currentHp > 0),
-            hand: newHand,
-            drawPile: newDrawPile,
-            discardPile: newDiscardPile,
-            turn: currentState.combat.turn + 1,
-            isPlayerTurn: true
-          }
-        });
-      }, 1500);
+      const restored = projectCombat(player, combat, entry.engine);
+      set({
+        combatUndo: combatUndo.slice(0, -1),
+        ...restored,
+        player: { ...restored.player, potions: entry.potions },
+      });
+      return true;
     },
 
     // UI actions
@@ -1045,7 +954,13 @@ export const useGameStore = create<GameState>()(
       map: [],
       currentRoomIndex: 0,
       seed: '',
+      recentEncounters: [],
+      plannedRoute: [],
+      unknownRooms: UnknownRoomSystem.createOdds(),
+      cardRewards: CardRewardSystem.createOdds(),
       combat: null,
+      combatEngine: null,
+      combatUndo: [],
       showDeckView: false,
       showMap: false,
       selectedCardIndex: null,
@@ -1055,6 +970,33 @@ export const useGameStore = create<GameState>()(
   }))
 );
 
+// Save the run whenever it reaches a screen it can resume on (and once the
+// map for a new act is generated, see setMap), and drop the save when the run ends
+function autosave(state: GameState): void {
+  if (state.screen === 'VICTORY' || state.screen === 'DEFEAT') {
+    SaveSystem.clear(RUN_SAVE);
+    return;
+  }
+  if (!SAVED_SCREENS.includes(state.screen)) return;
+
+  SaveSystem.write<SavedRun>(RUN_SAVE, {
+    screen: state.screen,
+    player: state.player,
+    currentAct: state.currentAct,
+    currentFloor: state.currentFloor,
+    map: state.map,
+    currentRoomIndex: state.currentRoomIndex,
+    seed: state.seed,
+    recentEncounters: state.recentEncounters,
+    plannedRoute: state.plannedRoute,
+    unknownRooms: state.unknownRooms,
+    cardRewards: state.cardRewards,
+    rng: RNG.getState(),
+  });
+}
+
+useGameStore.subscribe((state) => state.screen, () => autosave(useGameStore.getState()));
+
 // Selectors for common derived state
 export const selectCurrentRoom = (state: GameState) =>
   state.map[state.currentRoomIndex];
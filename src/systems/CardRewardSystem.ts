@@ -0,0 +1,109 @@
+import { Card, CardRewardFight, CardRewardOdds, Relic, RoomType } from '@/types';
+import { findRelicEffects } from '@/engine/relicEffects';
+import { DataLoader } from '@/utils/DataLoader';
+import { RNG } from './RNG';
+
+/** Cards offered by a card reward */
+const CARD_REWARD_COUNT = 3;
+
+/** Percent chance of a rare and an uncommon card for each kind of fight; the rest are commons */
+const CARD_REWARD_ODDS: Record<CardRewardFight, { rare: number; uncommon: number }> = {
+  NORMAL: { rare: 3, uncommon: 37 },
+  ELITE: { rare: 10, uncommon: 40 },
+  BOSS: { rare: 100, uncommon: 0 },
+};
+
+/** The rare offset at the start of a run and after a rare is offered */
+const RARE_OFFSET_START = -5;
+/** How much each common offered raises the rare offset, up to the cap */
+const RARE_OFFSET_STEP = 1;
+const RARE_OFFSET_MAX = 40;
+
+/**
+ * CardRewardSystem picks the cards offered after a fight. The rare chance
+ * belongs to the run: it grows with every common offered and resets when a
+ * rare turns up, so long runs of commons don't last. Relics can change how
+ * many cards are offered (EXTRA_CARD_REWARD, FEWER_CARD_REWARDS).
+ */
+export class CardRewardSystem {
+  /**
+   * Odds at the start of a run
+   */
+  static createOdds(): CardRewardOdds {
+    return { rareOffset: RARE_OFFSET_START };
+  }
+
+  /**
+   * The kind of fight a room holds (by what it resolved to, for "?" rooms)
+   */
+  static getFight(roomType: RoomType | undefined): CardRewardFight {
+    if (roomType === 'ELITE') return 'ELITE';
+    if (roomType === 'BOSS') return 'BOSS';
+    return 'NORMAL';
+  }
+
+  /**
+   * Number of cards a reward offers with the player's relics
+   */
+  static getCount(fight: CardRewardFight, relics: Relic[]): number {
+    const sum = (action: string) => findRelicEffects(relics, 'passive', action)
+      .reduce((total, effect) => total + (effect.value ?? 1), 0);
+
+    // Prayer Wheel only adds to rewards from normal fights
+    const extra = fight === 'NORMAL' ? sum('EXTRA_CARD_REWARD') : 0;
+    return Math.max(1, CARD_REWARD_COUNT + extra - sum('FEWER_CARD_REWARDS'));
+  }
+
+  /**
+   * Roll the cards of a reward from the pool (every card that can be a
+   * reward by default), updating the odds. No card is offered twice, and
+   * non-rare cards may come upgraded by the act's chance.
+   */
+  static generate(
+    fight: CardRewardFight,
+    act: number,
+    odds: CardRewardOdds,
+    relics: Relic[],
+    pool: Card[] = DataLoader.getAllCards().filter((card) => card.rarity !== 'STARTER')
+  ): Card[] {
+    const rng = RNG.get('cards');
+    const upgradeChance = DataLoader.getActConfig(act).cardUpgradeChance;
+    const rewards: Card[] = [];
+
+    for (let i = 0; i < this.getCount(fight, relics); i++) {
+      const remaining = pool.filter((card) => !rewards.some((reward) => reward.id === card.id));
+      if (remaining.length === 0) break;
+
+      const rarity = this.rollRarity(fight, odds);
+      const ofRarity = remaining.filter((card) => card.rarity === rarity);
+      const card = rng.pick(ofRarity.length > 0 ? ofRarity : remaining)!;
+
+      if (card.rarity === 'RARE') {
+        odds.rareOffset = RARE_OFFSET_START;
+      } else if (card.rarity === 'COMMON') {
+        odds.rareOffset = Math.min(RARE_OFFSET_MAX, odds.rareOffset + RARE_OFFSET_STEP);
+      }
+
+      const upgrade = card.rarity !== 'RARE' && !card.upgraded && rng.chance(upgradeChance);
+      rewards.push(upgrade
+        ? { ...card, ...(card.upgradedStats || {}), upgraded: true, name: `${card.name}+` }
+        : { ...card });
+    }
+
+    return rewards;
+  }
+
+  /**
+   * Roll a card's rarity for a kind of fight with the run's rare offset
+   * (boss rewards are always rare, so the offset leaves them alone)
+   */
+  private static rollRarity(fight: CardRewardFight, odds: CardRewardOdds): Card['rarity'] {
+    const { rare, uncommon } = CARD_REWARD_ODDS[fight];
+    const roll = RNG.get('cards').next() * 100;
+    const rareChance = fight === 'BOSS' ? rare : Math.max(0, rare + odds.rareOffset);
+
+    if (roll < rareChance) return 'RARE';
+    if (roll < rareChance + uncommon) return 'UNCOMMON';
+    return 'COMMON';
+  }
+}
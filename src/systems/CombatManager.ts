@@ -1,12 +1,24 @@
-import { Card, CardEffect, CardType } from '@/types';
+import { ActivePower, Card } from '@/types';
 import { Player } from '@/entities/Player';
 import { Enemy } from '@/entities/Enemy';
-import { Relic } from '@/entities/Relic';
 import { Potion } from '@/entities/Potion';
-import { DataLoader } from '@/utils/DataLoader';
+import { CombatEngine } from '@/engine/CombatEngine';
+import { formatCalculation } from '@/engine/modifiers';
+import { CombatAction, CombatantRef, CombatEngineState, CombatEvent } from '@/engine/types';
 
 /**
- * CombatManager handles all combat logic and state
+ * A fight in progress as plain JSON-safe data: piles in draw order, enemy
+ * move history and intents, relic and turn counters, and the combat's
+ * random streams. CombatManager.restore() resumes it exactly.
+ */
+export interface CombatSnapshot {
+  state: CombatEngineState;
+}
+
+/**
+ * CombatManager adapts the Phaser entities (Player, Enemy) to the shared
+ * CombatEngine. The engine owns the rules; this class keeps the entity
+ * objects and pile arrays the scenes render from in sync with it.
  */
 export class CombatManager {
   public player: Player;
@@ -17,6 +29,7 @@ export class CombatManager {
   public hand: Card[] = [];
   public discardPile: Card[] = [];
   public exhaustPile: Card[] = [];
+  public powers: ActivePower[] = [];
 
   // Combat state
   public turn: number = 0;
@@ -24,18 +37,9 @@ export class CombatManager {
   public combatEnded: boolean = false;
   public victory: boolean = false;
 
-  // Relic tracking
-  private cardsPlayedThisCombat: number = 0;
-  private attacksPlayedThisTurn: number = 0;
-  private skillsPlayedThisTurn: number = 0;
-  private powersPlayedThisCombat: number = 0;
-  private shufflesThisCombat: number = 0;
-  private firstAttackThisCombat: boolean = true;
-  private bonusEnergyNextCombat: number = 0;
-
-  // Constants
-  private readonly HAND_SIZE = 5;
-  private readonly MAX_HAND_SIZE = 10;
+  private state!: CombatEngineState;
+  /** States before each undoable action this turn, most recent last */
+  private undoStack: { state: CombatEngineState; potions: Potion[] }[] = [];
 
   // Event callbacks
   public onCardPlayed?: (card: Card, target?: Enemy) => void;
@@ -43,457 +47,83 @@ export class CombatManager {
   public onCardDiscarded?: (card: Card) => void;
   public onDamageDealt?: (source: string, target: string, amount: number) => void;
   public onPotionUsed?: (potion: Potion, target?: Enemy) => void;
+  public onEnemySpawned?: (enemy: Enemy) => void;
   public onCombatEnd?: (victory: boolean) => void;
+  /** Fired after every accepted action, e.g. to persist a snapshot */
+  public onStateChanged?: () => void;
+
+  /** The run's ascension level, which picks the enemies' AI variants */
+  private ascension: number;
 
-  constructor(player: Player, enemies: Enemy[]) {
+  constructor(player: Player, enemies: Enemy[], ascension: number = 0) {
     this.player = player;
     this.enemies = enemies;
+    this.ascension = ascension;
   }
 
   /**
-   * Start combat
+   * Resume a fight from a snapshot. The enemy entities are rebuilt from the
+   * snapshot and the player entity is synced to it; no combat events fire.
    */
-  startCombat(): void {
-    this.player.startCombat();
-    this.turn = 1;
-    this.isPlayerTurn = true;
-    this.combatEnded = false;
-    this.victory = false;
-
-    // Reset relic tracking
-    this.cardsPlayedThisCombat = 0;
-    this.attacksPlayedThisTurn = 0;
-    this.skillsPlayedThisTurn = 0;
-    this.powersPlayedThisCombat = 0;
-    this.shufflesThisCombat = 0;
-    this.firstAttackThisCombat = true;
-
-    // Initialize piles
-    this.hand = [];
-    this.discardPile = [];
-    this.exhaustPile = [];
-
-    // Separate innate cards from the rest
-    const innateCards: Card[] = [];
-    const regularCards: Card[] = [];
-
-    this.player.deck.forEach((card) => {
-      if (card.innate) {
-        innateCards.push(card);
-      } else {
-        regularCards.push(card);
-      }
-    });
-
-    // Shuffle regular cards into draw pile
-    this.drawPile = this.shuffleArray(regularCards);
-
-    // Apply bonus energy from relics (e.g., Ancient Tea Set)
-    if (this.bonusEnergyNextCombat > 0) {
-      this.player.gainEnergy(this.bonusEnergyNextCombat);
-      this.bonusEnergyNextCombat = 0;
-    }
-
-    // Trigger onCombatStart relics
-    this.triggerRelics('onCombatStart');
-
-    // Add innate cards to hand first
-    innateCards.forEach((card) => {
-      this.hand.push(card);
-      this.onCardDrawn?.(card);
-    });
-
-    // Draw remaining cards to fill hand
-    const cardsToDraw = Math.max(0, this.HAND_SIZE - this.hand.length);
-    this.drawCards(cardsToDraw);
-
-    console.log('Combat started!');
+  static restore(player: Player, snapshot: CombatSnapshot): CombatManager {
+    const combat = new CombatManager(player, []);
+    combat.state = snapshot.state;
+    combat.syncEntities();
+    return combat;
   }
 
   /**
-   * Start player turn
+   * Take a snapshot of the fight, detached from the live state
    */
-  startPlayerTurn(): void {
-    this.turn++;
-    this.isPlayerTurn = true;
-
-    // Reset turn tracking
-    this.attacksPlayedThisTurn = 0;
-    this.skillsPlayedThisTurn = 0;
-
-    this.player.startTurn();
-
-    // Trigger onTurnStart relics
-    this.triggerRelics('onTurnStart');
-
-    // Handle end of turn card effects
-    const cardsToKeep: Card[] = [];
-    const cardsToDiscard: Card[] = [];
-
-    this.hand.forEach((card) => {
-      if (card.retain) {
-        // Retain cards stay in hand
-        cardsToKeep.push(card);
-      } else if (card.ethereal) {
-        // Ethereal cards are exhausted if not played
-        this.exhaustCard(card);
-        console.log(`${card.name} (Ethereal) was exhausted`);
-      } else {
-        // Normal cards are discarded
-        cardsToDiscard.push(card);
-      }
-    });
-
-    // Clear hand and add back retained cards
-    this.hand = [...cardsToKeep];
-
-    // Discard non-retained cards
-    cardsToDiscard.forEach((card) => {
-      this.discardPile.push(card);
-      this.onCardDiscarded?.(card);
-    });
-
-    // Draw new cards to fill hand
-    const cardsToDraw = Math.max(0, this.HAND_SIZE - this.hand.length);
-    this.drawCards(cardsToDraw);
-
-    // Trigger first turn relic (Lantern)
-    if (this.turn === 1) {
-      this.triggerRelics('onFirstTurn');
-    }
-
-    console.log(`Turn ${this.turn} - Player turn`);
+  getSnapshot(): CombatSnapshot {
+    return { state: JSON.parse(JSON.stringify(this.state)) };
   }
 
   /**
-   * End player turn
-   */
-  endPlayerTurn(): void {
-    if (!this.isPlayerTurn) return;
-
-    this.player.endTurn();
-    this.isPlayerTurn = false;
-
-    // Start enemy turn
-    this.executeEnemyTurn();
-  }
-
-  /**
-   * Execute all enemy actions
+   * Start combat
    */
-  private executeEnemyTurn(): void {
-    console.log('Enemy turn');
-
-    this.enemies.forEach((enemy) => {
-      if (enemy.isDead()) return;
-
-      enemy.startTurn();
-      const move = enemy.executeMove();
-
-      if (!move) return;
-
-      console.log(`${enemy.name} uses ${move.name}`);
-
-      // Execute move actions
-      move.actions.forEach((action: any) => {
-        this.executeEnemyAction(enemy, action);
-      });
-
-      enemy.endTurn();
-    });
-
-    // Check if player died
-    if (this.player.isDead()) {
-      this.endCombat(false);
-      return;
-    }
-
-    // Start next player turn
-    this.startPlayerTurn();
+  startCombat(): void {
+    this.state = this.createState();
+    this.dispatch({ type: 'START_COMBAT' });
+    console.log('Combat started!');
   }
 
   /**
-   * Execute a single enemy action
+   * End player turn (runs the enemy turn and starts the next player turn)
    */
-  private executeEnemyAction(enemy: Enemy, action: any): void {
-    switch (action.type) {
-      case 'DAMAGE':
-        this.dealDamageToPlayer(enemy, action.value);
-        break;
-      case 'APPLY_WEAK':
-        this.player.weak = Math.max(this.player.weak, action.value);
-        break;
-      case 'APPLY_VULNERABLE':
-        this.player.vulnerable = Math.max(this.player.vulnerable, action.value);
-        break;
-      case 'APPLY_BLOCK_SELF':
-        enemy.addBlock(action.value);
-        break;
-      case 'APPLY_STRENGTH_SELF':
-        enemy.applyStrength(action.value);
-        break;
-      default:
-        console.warn(`Unknown enemy action: ${action.type}`);
-    }
+  endPlayerTurn(): void {
+    if (!this.isPlayerTurn) return;
+    this.dispatch({ type: 'END_TURN' });
   }
 
   /**
    * Play a card from hand
    */
   playCard(card: Card, target?: Enemy): boolean {
-    if (!this.isPlayerTurn) return false;
-    if (this.combatEnded) return false;
-
-    // Check if card is in hand
     const cardIndex = this.hand.indexOf(card);
     if (cardIndex === -1) return false;
 
-    // Handle X-cost cards
-    let energySpent = 0;
-
-    if (card.isXCost) {
-      // X-cost cards consume all available energy
-      energySpent = this.player.energy;
-      this.player.energy = 0;
-    } else {
-      // Normal cost cards
-      if (!this.player.spendEnergy(card.cost)) {
-        console.log('Not enough energy!');
-        return false;
-      }
-      energySpent = card.cost;
-    }
-
-    // Validate target
-    if (!this.validateTarget(card, target)) {
-      console.log('Invalid target!');
-      return false;
-    }
-
-    // Remove from hand
-    this.hand.splice(cardIndex, 1);
-
-    // Track card plays for relics
-    this.cardsPlayedThisCombat++;
-
-    // Track card type for relics
-    if (card.type === CardType.ATTACK) {
-      this.attacksPlayedThisTurn++;
-      if (this.firstAttackThisCombat) {
-        this.triggerRelics('onFirstAttack');
-        this.firstAttackThisCombat = false;
-      }
-      this.triggerRelics('onAttackPlayed', { card });
-    } else if (card.type === CardType.SKILL) {
-      this.skillsPlayedThisTurn++;
-      this.triggerRelics('onSkillPlayed', { card });
-    } else if (card.type === CardType.POWER) {
-      this.powersPlayedThisCombat++;
-      this.triggerRelics('onPowerPlayed', { card });
-    }
-
-    // Execute card effects (pass energySpent for X-cost cards)
-    this.executeCardEffects(card, target, energySpent);
-
-    // Trigger general onCardPlayed relics (like Ink Bottle)
-    this.triggerRelics('onCardPlayed', { card });
-
-    // Discard or exhaust card
-    if (this.shouldExhaust(card)) {
-      this.exhaustCard(card);
-      this.triggerRelics('onCardExhaust', { card });
-    } else {
-      this.discardPile.push(card);
-      this.onCardDiscarded?.(card);
-    }
-
-    // Callback
-    this.onCardPlayed?.(card, target);
-
-    // Check for combat end
-    this.checkCombatEnd();
-
-    return true;
-  }
-
-  /**
-   * Execute all effects of a card
-   */
-  private executeCardEffects(card: Card, target?: Enemy, energySpent = 0): void {
-    card.effects.forEach((effect) => {
-      this.executeEffect(effect, target, energySpent);
+    return this.dispatch({
+      type: 'PLAY_CARD',
+      cardIndex,
+      targetIndex: this.indexOf(target),
     });
   }
 
-  /**
-   * Execute a single card effect
-   */
-  private executeEffect(effect: CardEffect, target?: Enemy, energySpent = 0): void {
-    // For X-cost cards, use energySpent as the value if effect value is 0
-    const effectValue = effect.value === 0 && energySpent > 0 ? energySpent : effect.value;
-
-    switch (effect.type) {
-      case 'DAMAGE':
-        if (target) {
-          this.dealDamageToEnemy(target, effectValue);
-        } else if (effect.target === 'ALL_ENEMIES') {
-          this.enemies.forEach((enemy) => {
-            if (!enemy.isDead()) {
-              this.dealDamageToEnemy(enemy, effectValue);
-            }
-          });
-        }
-        break;
-
-      case 'BLOCK':
-        this.player.addBlock(effectValue);
-        break;
-
-      case 'DRAW':
-        this.drawCards(effectValue);
-        break;
-
-      case 'APPLY_VULNERABLE':
-        if (target) {
-          target.applyVulnerable(effectValue);
-        }
-        break;
-
-      case 'APPLY_WEAK':
-        if (target) {
-          target.applyWeak(effectValue);
-        }
-        break;
-
-      case 'APPLY_STRENGTH':
-        this.player.strength += effectValue;
-        break;
-
-      case 'APPLY_POISON':
-        if (target) {
-          target.applyPoison(effectValue);
-        }
-        break;
-
-      case 'GAIN_ENERGY':
-        this.player.gainEnergy(effectValue);
-        break;
-
-      case 'LOSE_HP':
-        this.player.loseHp(effectValue);
-        break;
-
-      case 'DAMAGE_EQUAL_BLOCK':
-        if (target) {
-          this.dealDamageToEnemy(target, this.player.block);
-        }
-        break;
-
-      default:
-        console.warn(`Unknown effect type: ${effect.type}`);
-    }
-  }
-
-  /**
-   * Deal damage from player to enemy
-   */
-  private dealDamageToEnemy(enemy: Enemy, baseDamage: number): void {
-    // Apply strength
-    let damage = baseDamage + this.player.strength;
-
-    // Apply weak (25% less damage)
-    if (this.player.weak > 0) {
-      damage = Math.floor(damage * 0.75);
-    }
-
-    damage = Math.max(0, damage);
-
-    const actualDamage = enemy.takeDamage(damage);
-    this.onDamageDealt?.('player', enemy.name, actualDamage);
-
-    console.log(`Dealt ${actualDamage} damage to ${enemy.name} (${enemy.currentHp}/${enemy.maxHp})`);
-  }
-
-  /**
-   * Deal damage from enemy to player
-   */
-  private dealDamageToPlayer(enemy: Enemy, baseDamage: number): void {
-    // Apply enemy strength
-    let damage = baseDamage + enemy.strength;
-
-    // Apply enemy weak
-    if (enemy.weak > 0) {
-      damage = Math.floor(damage * 0.75);
-    }
-
-    damage = Math.max(0, damage);
-
-    const actualDamage = this.player.takeDamage(damage);
-    this.onDamageDealt?.(enemy.name, 'player', actualDamage);
-
-    console.log(`Player took ${actualDamage} damage (${this.player.currentHp}/${this.player.maxHp})`);
-  }
-
-  /**
-   * Validate card target
-   */
-  private validateTarget(card: Card, target?: Enemy): boolean {
-    switch (card.targetType) {
-      case 'SELF':
-        return true;
-      case 'SINGLE_ENEMY':
-        return target !== undefined && !target.isDead();
-      case 'ALL_ENEMIES':
-      case 'RANDOM_ENEMY':
-        return true;
-      default:
-        return false;
-    }
-  }
-
-  /**
-   * Check if card should be exhausted
-   */
-  private shouldExhaust(card: Card): boolean {
-    return card.exhaust === true;
-  }
-
   /**
    * Draw cards from draw pile
    */
   drawCards(count: number): void {
-    for (let i = 0; i < count; i++) {
-      if (this.hand.length >= this.MAX_HAND_SIZE) {
-        console.log('Hand is full!');
-        break;
-      }
-
-      // Shuffle discard if draw pile is empty
-      if (this.drawPile.length === 0) {
-        if (this.discardPile.length === 0) {
-          console.log('No cards left to draw!');
-          break;
-        }
-        this.shuffleDiscardIntoDrawPile();
-      }
-
-      const card = this.drawPile.pop();
-      if (card) {
-        this.hand.push(card);
-        this.onCardDrawn?.(card);
-      }
-    }
+    this.dispatch({ type: 'DRAW_CARDS', count });
   }
 
   /**
    * Discard a card from hand
    */
   discardCard(card: Card): void {
-    const index = this.hand.indexOf(card);
-    if (index !== -1) {
-      this.hand.splice(index, 1);
-      this.discardPile.push(card);
-      this.onCardDiscarded?.(card);
+    const cardIndex = this.hand.indexOf(card);
+    if (cardIndex !== -1) {
+      this.dispatch({ type: 'DISCARD_CARD', cardIndex });
     }
   }
 
@@ -501,406 +131,223 @@ export class CombatManager {
    * Use a potion
    */
   usePotion(potionIndex: number, target?: Enemy): boolean {
-    if (this.combatEnded) return false;
-
-    // Get the potion from player's inventory
     const potion = this.player.potions[potionIndex];
     if (!potion) {
       console.log('No potion in that slot!');
       return false;
     }
 
-    // Validate target if required
-    if (potion.requiresTarget()) {
-      if (!target || target.isDead()) {
-        console.log('Valid target required!');
-        return false;
-      }
-    }
-
-    console.log(`Using potion: ${potion.name}`);
-
-    // Execute potion effects
-    potion.effects.forEach((effect) => {
-      this.executePotionEffect(effect, target);
-    });
-
-    // Remove potion from inventory
-    this.player.usePotion(potionIndex);
-
-    // Callback
-    this.onPotionUsed?.(potion, target);
+    // Remove the potion before callbacks fire so the UI sees the new inventory
+    const success = this.dispatch(
+      { type: 'USE_POTION', potion, targetIndex: this.indexOf(target) },
+      () => this.player.usePotion(potionIndex)
+    );
 
-    // Check for combat end
-    this.checkCombatEnd();
-
-    return true;
+    if (success) {
+      console.log(`Used potion: ${potion.name}`);
+    }
+    return success;
   }
 
   /**
-   * Execute a single potion effect
+   * Whether the last card play or potion can be taken back
    */
-  private executePotionEffect(effect: CardEffect, target?: Enemy): void {
-    switch (effect.type) {
-      case 'HEAL':
-        this.player.heal(effect.value);
-        console.log(`Healed ${effect.value} HP`);
-        break;
-
-      case 'BLOCK':
-        this.player.addBlock(effect.value);
-        console.log(`Gained ${effect.value} Block`);
-        break;
-
-      case 'GAIN_ENERGY':
-        this.player.gainEnergy(effect.value);
-        console.log(`Gained ${effect.value} Energy`);
-        break;
-
-      case 'DRAW':
-        this.drawCards(effect.value);
-        console.log(`Drew ${effect.value} cards`);
-        break;
-
-      case 'DAMAGE':
-        if (effect.target === 'ALL_ENEMIES') {
-          // AOE damage
-          this.getAliveEnemies().forEach((enemy) => {
-            this.dealDamageToEnemy(enemy, effect.value);
-          });
-        } else if (target) {
-          // Single target damage
-          this.dealDamageToEnemy(target, effect.value);
-        }
-        break;
-
-      case 'APPLY_STRENGTH':
-        this.player.strength += effect.value;
-        console.log(`Gained ${effect.value} Strength`);
-        break;
-
-      case 'GAIN_DEXTERITY':
-        this.player.dexterity += effect.value;
-        console.log(`Gained ${effect.value} Dexterity`);
-        break;
-
-      case 'APPLY_POISON':
-        if (target) {
-          target.applyPoison(effect.value);
-          console.log(`Applied ${effect.value} Poison to ${target.name}`);
-        }
-        break;
-
-      case 'APPLY_WEAK':
-        if (target) {
-          target.weak = Math.max(target.weak, effect.value);
-          console.log(`Applied ${effect.value} Weak to ${target.name}`);
-        }
-        break;
-
-      case 'APPLY_VULNERABLE':
-        if (target) {
-          target.vulnerable = Math.max(target.vulnerable, effect.value);
-          console.log(`Applied ${effect.value} Vulnerable to ${target.name}`);
-        }
-        break;
-
-      case 'GAIN_ARTIFACT':
-        // TODO: Implement artifact status effect
-        console.log(`Gained ${effect.value} Artifact (not yet implemented)`);
-        break;
-
-      case 'GAIN_PLATED_ARMOR':
-        // TODO: Implement plated armor status effect
-        console.log(`Gained ${effect.value} Plated Armor (not yet implemented)`);
-        break;
-
-      default:
-        console.warn(`Unknown potion effect type: ${effect.type}`);
-    }
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
   }
 
   /**
-   * Exhaust a card
+   * Restore the state from before the last card play or potion this turn
    */
-  private exhaustCard(card: Card): void {
-    this.exhaustPile.push(card);
+  undo(): boolean {
+    const entry = this.undoStack.pop();
+    if (!entry) return false;
+
+    this.state = entry.state;
+    this.player.potions = entry.potions;
+    this.syncEntities();
+    this.onStateChanged?.();
+    return true;
   }
 
   /**
-   * Shuffle discard pile into draw pile
+   * Get alive enemies
    */
-  private shuffleDiscardIntoDrawPile(): void {
-    console.log('Shuffling discard pile into draw pile');
-    this.drawPile = this.shuffleArray(this.discardPile);
-    this.discardPile = [];
-
-    // Track shuffles for relics
-    this.shufflesThisCombat++;
-    this.triggerRelics('onShuffle');
+  getAliveEnemies(): Enemy[] {
+    return this.enemies.filter((enemy) => enemy.isActive());
   }
 
   /**
-   * Shuffle array
+   * Get the underlying engine state
    */
-  private shuffleArray<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
+  getState(): CombatEngineState {
+    return this.state;
   }
 
   /**
-   * Check if combat has ended
+   * Build the engine state from the current entities
    */
-  private checkCombatEnd(): void {
-    console.log(`checkCombatEnd: ${this.enemies.length} enemies total`);
-
-    // Check if all enemies are dead
-    const aliveEnemies = this.enemies.filter(e => !e.isDead());
-    console.log(`Alive enemies: ${aliveEnemies.length}/${this.enemies.length}`);
-
-    const allEnemiesDead = this.enemies.every((enemy) => enemy.isDead());
-    if (allEnemiesDead) {
-      console.log('All enemies dead - Victory!');
-      this.endCombat(true);
-      return;
-    }
+  private createState(): CombatEngineState {
+    this.player.startCombat();
 
-    // Check if player is dead
-    if (this.player.isDead()) {
-      console.log('Player dead - Defeat!');
-      this.endCombat(false);
-    }
+    return CombatEngine.createState({
+      player: {
+        maxHp: this.player.maxHp,
+        currentHp: this.player.currentHp,
+        block: this.player.block,
+        energy: this.player.energy,
+        maxEnergy: this.player.maxEnergy,
+        statusEffects: this.player.getStatusEffects(),
+        relics: this.player.relics,
+        gold: this.player.gold,
+      },
+      enemies: this.enemies.map((enemy) => enemy.toData()),
+      deck: this.player.deck,
+      seeds: CombatEngine.seedsFromRun(),
+      ascension: this.ascension,
+    });
   }
 
   /**
-   * End combat
+   * Run an action through the engine, sync the entities and fire callbacks.
+   * Returns false if the engine rejected the action.
    */
-  private endCombat(victory: boolean): void {
-    this.combatEnded = true;
-    this.victory = victory;
+  private dispatch(action: CombatAction, onAccepted?: () => void): boolean {
+    const result = CombatEngine.apply(this.state, action);
+    const { state, events } = result;
 
-    // Trigger onCombatEnd relics (like Burning Blood for healing)
-    if (victory) {
-      this.triggerRelics('onCombatEnd', { victory });
+    const rejection = events.find((event) => event.type === 'ACTION_REJECTED');
+    if (rejection) {
+      console.log(`${action.type} rejected: ${rejection.reason}`);
+      return false;
     }
 
-    console.log(victory ? 'Victory!' : 'Defeat!');
-    this.onCombatEnd?.(victory);
-  }
+    // Anything that can't be undone also locks in the actions before it
+    if (CombatEngine.isUndoable(action, this.state, result)) {
+      this.undoStack.push({ state: this.state, potions: [...this.player.potions] });
+    } else {
+      this.undoStack = [];
+    }
 
-  /**
-   * Get alive enemies
-   */
-  getAliveEnemies(): Enemy[] {
-    return this.enemies.filter((enemy) => !enemy.isDead());
+    this.state = state;
+    onAccepted?.();
+    this.syncEntities();
+    events.forEach((event) => this.handleEvent(event));
+    this.onStateChanged?.();
+    return true;
   }
 
   /**
-   * Trigger relic effects
+   * Copy engine state back onto the entity objects the scenes render
    */
-  private triggerRelics(trigger: string, context?: any): void {
-    this.player.relics.forEach((relic) => {
-      const effects = relic.getEffectsForTrigger(trigger);
+  private syncEntities(): void {
+    const { state } = this;
+
+    this.drawPile = state.drawPile;
+    this.hand = state.hand;
+    this.discardPile = state.discardPile;
+    this.exhaustPile = state.exhaustPile;
+    this.powers = state.player.powers;
+    this.turn = state.turn;
+    this.isPlayerTurn = state.isPlayerTurn;
+    this.combatEnded = state.combatEnded;
+    this.victory = state.victory;
+
+    const { player } = state;
+    this.player.maxHp = player.maxHp;
+    this.player.currentHp = player.currentHp;
+    this.player.block = player.block;
+    this.player.energy = player.energy;
+    this.player.maxEnergy = player.maxEnergy;
+    this.player.statusEffects = { ...player.statusEffects };
+    this.player.gold = player.gold;
+    player.relics.forEach((relic, index) => {
+      if (this.player.relics[index]) {
+        this.player.relics[index].counter = relic.counter ?? 0;
+      }
+    });
 
-      effects.forEach((effect) => {
-        this.executeRelicEffect(relic, effect, context);
-      });
+    state.enemies.forEach((enemyState, index) => {
+      // Enemies spawned mid-combat get an entity the first time they're seen
+      if (!this.enemies[index]) {
+        this.enemies[index] = new Enemy(enemyState.id, enemyState.name, enemyState.type, enemyState.maxHp, enemyState.moves);
+      }
+      const enemy = this.enemies[index];
+      enemy.currentHp = enemyState.currentHp;
+      enemy.block = enemyState.block;
+      enemy.intent = enemyState.currentIntent;
+      enemy.statusEffects = { ...enemyState.statusEffects };
+      enemy.maxHp = enemyState.maxHp;
+      enemy.moves = enemyState.moves;
+      enemy.escaped = enemyState.escaped;
+      enemy.split = enemyState.split;
+      enemy.spawned = enemyState.spawned ?? false;
     });
   }
 
   /**
-   * Execute a single relic effect
+   * Forward engine events to the scene callbacks
    */
-  private executeRelicEffect(relic: Relic, effect: any, context?: any): void {
-    const action = effect.action;
-    const value = effect.value || 0;
-
-    switch (action) {
-      // Simple effects
-      case 'HEAL':
-        this.player.heal(value);
-        console.log(`${relic.name}: Healed ${value} HP`);
+  private handleEvent(event: CombatEvent): void {
+    switch (event.type) {
+      case 'CARD_PLAYED':
+        this.onCardPlayed?.(event.card, this.enemyAt(event.targetIndex));
         break;
-
-      case 'BLOCK':
-        this.player.addBlock(value);
-        console.log(`${relic.name}: Gained ${value} Block`);
-        break;
-
-      case 'DRAW':
-        this.drawCards(value);
-        console.log(`${relic.name}: Drew ${value} cards`);
-        break;
-
-      case 'GAIN_ENERGY':
-        this.player.gainEnergy(value);
-        console.log(`${relic.name}: Gained ${value} Energy`);
-        break;
-
-      case 'GAIN_DEXTERITY':
-        this.player.dexterity += value;
-        console.log(`${relic.name}: Gained ${value} Dexterity`);
+      case 'CARD_DRAWN':
+        this.onCardDrawn?.(event.card);
         break;
-
-      case 'BONUS_DAMAGE':
-        // Handled in damage calculation (Akabeko)
-        console.log(`${relic.name}: First attack bonus damage active`);
+      case 'CARD_DISCARDED':
+        this.onCardDiscarded?.(event.card);
         break;
-
-      case 'THORNS':
-        // Deal damage back when taking damage (Bronze Scales)
-        if (context) {
-          const aliveEnemies = this.getAliveEnemies();
-          if (aliveEnemies.length > 0) {
-            const randomEnemy = aliveEnemies[Math.floor(Math.random() * aliveEnemies.length)];
-            const damage = randomEnemy.takeDamage(value);
-            console.log(`${relic.name}: Dealt ${damage} thorns damage to ${randomEnemy.name}`);
-          }
-        }
+      case 'DAMAGE_DEALT':
+        console.log(`${this.nameOf(event.source)} → ${this.nameOf(event.target)}: ${formatCalculation(event.calculation)}`);
+        this.onDamageDealt?.(this.nameOf(event.source), this.nameOf(event.target), event.amount);
         break;
-
-      // Counter-based effects
-      case 'ENERGY_EVERY_N_TURNS':
-        // Happy Flower: Every 3 turns gain 1 energy
-        if (this.turn % value === 0) {
-          this.player.gainEnergy(1);
-          console.log(`${relic.name}: Gained 1 Energy (every ${value} turns)`);
-        }
+      case 'ENEMY_MOVE':
+        console.log(`${this.enemies[event.enemyIndex].name} uses ${event.move}`);
         break;
-
-      case 'DRAW_EVERY_N':
-        // Ink Bottle: Every 10 cards played, draw 1
-        relic.incrementCounter();
-        if (relic.counter >= value) {
-          this.drawCards(1);
-          relic.resetCounter();
-          console.log(`${relic.name}: Drew 1 card (every ${value} cards played)`);
-        }
+      case 'ENEMY_ESCAPED':
+        console.log(`${this.enemies[event.enemyIndex].name} escaped!`);
         break;
-
-      case 'DEXTERITY_EVERY_N':
-        // Kunai: Every 3 attacks, gain 1 dexterity
-        relic.incrementCounter();
-        if (relic.counter >= value) {
-          this.player.dexterity += 1;
-          relic.resetCounter();
-          console.log(`${relic.name}: Gained 1 Dexterity (every ${value} attacks)`);
-        }
-        break;
-
-      case 'STRENGTH_EVERY_N':
-        // Shuriken: Every 3 attacks, gain 1 strength
-        relic.incrementCounter();
-        if (relic.counter >= value) {
-          this.player.strength += 1;
-          relic.resetCounter();
-          console.log(`${relic.name}: Gained 1 Strength (every ${value} attacks)`);
-        }
+      case 'ENEMY_SPAWNED':
+        console.log(`${this.enemies[event.enemyIndex].name} joins the fight`);
+        this.onEnemySpawned?.(this.enemies[event.enemyIndex]);
         break;
-
-      case 'BLOCK_EVERY_N':
-        // Ornamental Fan: Every 3 attacks, gain 4 block
-        relic.incrementCounter();
-        if (relic.counter >= value) {
-          this.player.addBlock(4);
-          relic.resetCounter();
-          console.log(`${relic.name}: Gained 4 Block (every ${value} attacks)`);
-        }
+      case 'ENEMY_SPLIT':
+        console.log(`${this.enemies[event.enemyIndex].name} splits!`);
         break;
-
-      case 'DAMAGE_ALL_EVERY_N':
-        // Letter Opener: Every 3 skills, deal 5 damage to all
-        relic.incrementCounter();
-        if (relic.counter >= value) {
-          this.getAliveEnemies().forEach((enemy) => {
-            const damage = enemy.takeDamage(5);
-            console.log(`${relic.name}: Dealt ${damage} damage to ${enemy.name}`);
-          });
-          relic.resetCounter();
-        }
+      case 'ENEMY_TRANSFORMED':
+        console.log(`${this.enemies[event.enemyIndex].name} shifts into ${event.form} form`);
         break;
-
-      case 'ENERGY_EVERY_N':
-        // Sundial: Every 3 shuffles, gain 2 energy
-        relic.incrementCounter();
-        if (relic.counter >= value) {
-          this.player.gainEnergy(2);
-          relic.resetCounter();
-          console.log(`${relic.name}: Gained 2 Energy (every ${value} shuffles)`);
-        }
+      case 'GOLD_STOLEN':
+        console.log(`${this.enemies[event.enemyIndex].name} stole ${event.amount} gold`);
         break;
-
-      case 'ENERGY_NEXT_COMBAT':
-        // Ancient Tea Set: After rest, gain energy next combat
-        this.bonusEnergyNextCombat = value;
-        console.log(`${relic.name}: Will start next combat with +${value} Energy`);
+      case 'GOLD_RECOVERED':
+        console.log(`Recovered ${event.amount} gold from ${this.enemies[event.enemyIndex].name}`);
         break;
-
-      case 'ADD_RANDOM_CARD':
-        // Dead Branch: When exhausting, add random card to hand
-        if (this.hand.length < this.MAX_HAND_SIZE) {
-          const randomCard = DataLoader.getAllCards()[
-            Math.floor(Math.random() * DataLoader.getAllCards().length)
-          ];
-          if (randomCard) {
-            this.hand.push(randomCard);
-            this.onCardDrawn?.(randomCard);
-            console.log(`${relic.name}: Added ${randomCard.name} to hand`);
-          }
-        }
+      case 'CARD_CREATED':
+        console.log(`${event.card.name} added to ${event.pile.toLowerCase()} pile`);
         break;
-
-      case 'DAMAGE_RANDOM':
-        // Tingsha: When discarding, deal 3 damage to random enemy
-        const aliveEnemies = this.getAliveEnemies();
-        if (aliveEnemies.length > 0) {
-          const randomEnemy = aliveEnemies[Math.floor(Math.random() * aliveEnemies.length)];
-          const damage = randomEnemy.takeDamage(value);
-          console.log(`${relic.name}: Dealt ${damage} damage to ${randomEnemy.name}`);
-        }
+      case 'POTION_USED':
+        this.onPotionUsed?.(event.potion as Potion, this.enemyAt(event.targetIndex));
         break;
-
-      case 'DRAW_IF_ATTACKS':
-        // Pocketwatch: If 3+ attacks played this turn, draw 3 cards at end of turn
-        if (this.attacksPlayedThisTurn >= value) {
-          this.drawCards(value);
-          console.log(`${relic.name}: Drew ${value} cards (${this.attacksPlayedThisTurn} attacks played)`);
-        }
+      case 'COMBAT_ENDED':
+        console.log(event.victory ? 'Victory!' : 'Defeat!');
+        this.onCombatEnd?.(event.victory);
         break;
+    }
+  }
 
-      // Passive effects (handled elsewhere)
-      case 'ELITE_BONUS_RELIC':
-      case 'CURSES_PLAYABLE':
-      case 'VULNERABLE_BONUS':
-      case 'MORE_EVENT_OPTIONS':
-      case 'MERCHANT_BONUS':
-      case 'EXTRA_CARD_REWARD':
-      case 'REST_REMOVE_CARD':
-      case 'REST_DIG':
-      case 'REDUCE_SMALL_DAMAGE':
-      case 'RETAIN_ENERGY':
-      case 'EVENT_TO_TREASURE':
-      case 'INTANGIBLE_EVERY_N':
-      case 'REVIVE':
-      case 'AUTO_UPGRADE_SKILLS':
-      case 'AUTO_UPGRADE_POWERS':
-      case 'REDUCE_RANDOM_COST':
-      case 'DISCARD_DRAW':
-        // These are handled in other systems or have special logic
-        break;
+  private indexOf(enemy?: Enemy): number | null {
+    const index = enemy ? this.enemies.indexOf(enemy) : -1;
+    return index === -1 ? null : index;
+  }
 
-      // onObtain effects (handled when relic is obtained)
-      case 'MAX_HP':
-      case 'GAIN_GOLD':
-        // These execute immediately when relic is obtained
-        break;
+  private enemyAt(index: number | null): Enemy | undefined {
+    return index !== null ? this.enemies[index] : undefined;
+  }
 
-      default:
-        console.warn(`Unknown relic action: ${action}`);
-    }
+  private nameOf(ref: CombatantRef): string {
+    return ref === 'player' ? 'player' : this.enemies[ref].name;
   }
 }
@@ -0,0 +1,71 @@
+import { CharacterClass } from '@/types';
+import { Player } from '@/entities/Player';
+import { DataLoader } from '@/utils/DataLoader';
+import { GameStateManager } from './GameStateManager';
+
+/**
+ * Everything a custom run starts from. Cards, relics and modifiers are ids.
+ */
+export interface CustomRunConfig {
+  characterId: string;
+  /** Empty for a random seed */
+  seed: string;
+  deck: string[];
+  relics: string[];
+  maxHp: number;
+  gold: number;
+  modifiers: string[];
+}
+
+/**
+ * CustomRun sets up runs with a hand-picked start for testing builds. The
+ * run then plays like any other, but never counts toward stats or unlocks.
+ */
+export class CustomRun {
+  /**
+   * A config that starts like a normal run with the character
+   */
+  static fromCharacter(character: CharacterClass): CustomRunConfig {
+    return {
+      characterId: character.id,
+      seed: '',
+      deck: [...character.startingDeck],
+      relics: [character.startingRelic],
+      maxHp: character.maxHp,
+      gold: character.startingGold,
+      modifiers: [],
+    };
+  }
+
+  /**
+   * Set up a run from a config, ready to enter the map
+   */
+  static startRun(config: CustomRunConfig): GameStateManager {
+    const player = new Player(config.maxHp, config.gold);
+
+    config.deck.forEach((id) => {
+      const card = DataLoader.getCard(id) ?? DataLoader.getStatusCard(id);
+      if (!card) {
+        console.warn(`Custom run has unknown card: ${id}`);
+        return;
+      }
+      player.addCardToDeck({ ...card });
+    });
+
+    config.relics.forEach((id) => {
+      const relic = DataLoader.getRelic(id);
+      if (!relic) {
+        console.warn(`Custom run has unknown relic: ${id}`);
+        return;
+      }
+      player.addRelic(relic);
+    });
+
+    const gameState = new GameStateManager(player, config.seed || undefined);
+    gameState.characterId = config.characterId;
+    gameState.modifiers = [...config.modifiers];
+    gameState.custom = true;
+    gameState.startRun();
+    return gameState;
+  }
+}
@@ -0,0 +1,124 @@
+import { Player } from '@/entities/Player';
+import { DataLoader } from '@/utils/DataLoader';
+import { GameStateManager } from './GameStateManager';
+import { RNG, SeededRandom } from './RNG';
+import { DailyResult, UnlockSystem } from './UnlockSystem';
+
+/**
+ * A day's challenge. Everything is derived from the date, so every player
+ * gets the same run on the same day.
+ */
+export interface DailyChallengeInfo {
+  /** YYYY-MM-DD, UTC */
+  date: string;
+  seed: string;
+  characterId: string;
+  modifiers: string[];
+}
+
+/** Score per floor climbed, over the whole run */
+const FLOOR_SCORE = 10;
+/** Bonus for beating the final boss */
+const VICTORY_SCORE = 250;
+
+/**
+ * DailyChallenge builds the daily run and scores it when it ends
+ */
+export class DailyChallenge {
+  /**
+   * The challenge day of a date. Days are in UTC so the whole team shares one.
+   */
+  static getDateKey(date: Date = new Date()): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * The challenge for a day (today by default)
+   */
+  static getChallenge(date: string = this.getDateKey()): DailyChallengeInfo {
+    // Picked from its own generator, so the run's streams stay untouched
+    const rng = new SeededRandom(RNG.hashSeed(`daily:${date}`));
+
+    const characters = DataLoader.getAllCharacterClasses();
+    const characterId = rng.pick(characters)?.id ?? 'warrior';
+
+    // Two or three modifiers, at most one per kind of effect
+    const count = rng.nextRange(2, 3);
+    const modifiers: string[] = [];
+    const kinds = new Set<string>();
+    const pool = DataLoader.getAllModifiers().filter((modifier) => !modifier.customOnly);
+    rng.shuffle(pool).forEach((modifier) => {
+      const modifierKinds = modifier.effects.map((effect) => `${effect.type}:${effect.room ?? ''}`);
+      if (modifiers.length >= count || modifierKinds.some((kind) => kinds.has(kind))) return;
+      modifiers.push(modifier.id);
+      modifierKinds.forEach((kind) => kinds.add(kind));
+    });
+
+    return { date, seed: `daily-${date}`, characterId, modifiers };
+  }
+
+  /**
+   * Set up a run for a challenge, ready to enter the map
+   */
+  static startRun(challenge: DailyChallengeInfo): GameStateManager | null {
+    const character = DataLoader.getCharacterClass(challenge.characterId);
+    if (!character) {
+      console.warn(`Daily challenge has unknown character: ${challenge.characterId}`);
+      return null;
+    }
+
+    const player = Player.fromCharacterClass(character);
+    const gameState = new GameStateManager(player, challenge.seed);
+    gameState.daily = challenge.date;
+    gameState.characterId = character.id;
+    gameState.modifiers = challenge.modifiers;
+    gameState.startRun();
+    return gameState;
+  }
+
+  /**
+   * Floors climbed over the whole run, counting every act before this one
+   */
+  static getFloorReached(gameState: GameStateManager): number {
+    let floors = 0;
+    for (let act = 1; act < gameState.currentAct; act++) {
+      floors += DataLoader.getActConfig(act).map.floors;
+    }
+    return floors + (gameState.currentRoomIndex >= 0 ? gameState.currentFloor + 1 : 0);
+  }
+
+  /**
+   * Score a run: floors climbed, gold held, and on a win a bonus plus the HP left
+   */
+  static calculateScore(gameState: GameStateManager, victory: boolean): number {
+    const { player } = gameState;
+    let score = this.getFloorReached(gameState) * FLOOR_SCORE + Math.floor(player.gold / 10);
+    if (victory) score += VICTORY_SCORE + player.currentHp;
+    return score;
+  }
+
+  /**
+   * Record a finished daily run. Returns the result, the day's best after
+   * it and whether it is the new best.
+   */
+  static recordResult(
+    gameState: GameStateManager,
+    victory: boolean
+  ): { result: DailyResult; best: DailyResult; isNewBest: boolean } | null {
+    if (!gameState.daily) return null;
+
+    const result: DailyResult = {
+      date: gameState.daily,
+      characterId: gameState.characterId ?? '',
+      floor: this.getFloorReached(gameState),
+      act: gameState.currentAct,
+      score: this.calculateScore(gameState, victory),
+      victory,
+      finishedAt: Date.now(),
+    };
+    UnlockSystem.recordDailyResult(result);
+
+    const best = UnlockSystem.getDailyBest(result.date) ?? result;
+    return { result, best, isNewBest: best === result };
+  }
+}
@@ -0,0 +1,88 @@
+import { Encounter, EncounterKind, EncounterTable } from '@/types';
+import { Enemy } from '@/entities/Enemy';
+import { DataLoader } from '@/utils/DataLoader';
+import { RNG } from './RNG';
+
+/**
+ * EncounterSystem picks enemy groups from the per-act encounter tables
+ */
+export class EncounterSystem {
+  /**
+   * Pick an encounter for a floor of an act. `recent` holds the ids of the
+   * run's previous encounters, oldest first; the last few of the same kind
+   * are skipped as long as something else is left to fight.
+   */
+  static pickEncounter(act: number, kind: EncounterKind, floor: number, recent: string[] = []): Encounter | undefined {
+    const table = this.getTable(act);
+    if (!table) return undefined;
+
+    const pool = this.getPool(table, kind, floor);
+    const kindIds = new Set(this.getPool(table, kind).map((encounter) => encounter.id));
+    const limit = table.noRepeat[kind] ?? 0;
+    const blocked = limit > 0 ? recent.filter((id) => kindIds.has(id)).slice(-limit) : [];
+    const fresh = pool.filter((encounter) => !blocked.includes(encounter.id));
+
+    return this.rollByWeight(fresh.length > 0 ? fresh : pool);
+  }
+
+  /**
+   * Resolve an encounter's random slots into enemy ids
+   */
+  static rollEnemyIds(encounter: Encounter): string[] {
+    const rng = RNG.get('monsters');
+    return encounter.enemies.map((entry) => (typeof entry === 'string' ? entry : rng.pick(entry) ?? entry[0]));
+  }
+
+  /**
+   * Create the enemies for an encounter
+   */
+  static createEnemies(encounter: Encounter): Enemy[] {
+    return this.rollEnemyIds(encounter).flatMap((id) => {
+      const enemy = DataLoader.getEnemy(id);
+      if (!enemy) {
+        console.warn(`Encounter ${encounter.id} references unknown enemy: ${id}`);
+        return [];
+      }
+      return [enemy];
+    });
+  }
+
+  /**
+   * Acts without a table of their own use the closest earlier act's
+   */
+  private static getTable(act: number): EncounterTable | undefined {
+    for (let a = act; a >= 1; a--) {
+      const table = DataLoader.getEncounterTable(a);
+      if (table) return table;
+    }
+    console.warn(`No encounter table for act ${act}`);
+    return undefined;
+  }
+
+  /**
+   * Encounters of a kind; normal fights are split by floor when one is given
+   */
+  private static getPool(table: EncounterTable, kind: EncounterKind, floor?: number): Encounter[] {
+    switch (kind) {
+      case 'elite':
+        return table.elites;
+      case 'boss':
+        return table.bosses;
+      default:
+        if (floor === undefined) return [...table.easy, ...table.hard];
+        return floor < table.easyFloors ? table.easy : table.hard;
+    }
+  }
+
+  private static rollByWeight(encounters: Encounter[]): Encounter | undefined {
+    if (encounters.length === 0) return undefined;
+
+    const totalWeight = encounters.reduce((sum, encounter) => sum + encounter.weight, 0);
+    let roll = RNG.get('monsters').next() * totalWeight;
+    for (const encounter of encounters) {
+      roll -= encounter.weight;
+      if (roll <= 0) return encounter;
+    }
+    return encounters[0];
+  }
+}
@@ -1,6 +1,66 @@
-import { Room, RoomType } from '@/types';
+import { Card, CardRewardOdds, Encounter, EncounterKind, Room, RoomType, RunModifier, UnknownRoomOdds } from '@/types';
 import { Player } from '@/entities/Player';
+import { DataLoader } from '@/utils/DataLoader';
+import { CardRewardSystem } from './CardRewardSystem';
+import { EncounterSystem } from './EncounterSystem';
 import { MapGenerator } from './MapGenerator';
+import { ModifierSystem } from './ModifierSystem';
+import { RNG, RngStream } from './RNG';
+import { RoutePlanner } from './RoutePlanner';
+import { SaveSlot, SaveSystem } from './SaveSystem';
+import { UnknownRoomSystem } from './UnknownRoomSystem';
+
+/**
+ * A run in the shape it is saved in. Relics and potions are stored by id
+ * (plus relic counters) and rebuilt from the data files on load.
+ */
+export interface SerializedRun {
+  seed: string;
+  rng: Record<RngStream, number>;
+  currentAct: number;
+  currentFloor: number;
+  currentRoomIndex: number;
+  map: Room[];
+  recentEncounters: string[];
+  bossEncounter?: Encounter;
+  plannedRoute?: number[];
+  unknownRooms?: UnknownRoomOdds;
+  cardRewards?: CardRewardOdds;
+  characterId?: string;
+  modifiers?: string[];
+  ascension?: number;
+  daily?: string;
+  custom?: boolean;
+  player: {
+    maxHp: number;
+    currentHp: number;
+    gold: number;
+    maxEnergy: number;
+    maxPotions: number;
+    deck: Card[];
+    relics: { id: string; counter: number }[];
+    potions: string[];
+  };
+}
+
+/**
+ * The scene a saved run resumes in, with the data it was started with
+ */
+export interface SavedScene {
+  key: string;
+  data: Record<string, unknown>;
+}
+
+interface RunSave {
+  run: SerializedRun;
+  scene: SavedScene;
+}
+
+const RUN_SAVE: SaveSlot = {
+  key: 'thedescent_run',
+  version: 1,
+  migrations: {},
+};
 
 /**
  * GameStateManager tracks the player's progress through a run
@@ -9,37 +69,87 @@ export class GameStateManager {
   public player: Player;
   public currentAct: number = 1;
   public currentFloor: number = 0;
-  public currentRoomIndex: number = 0;
+  /** Index of the room the player is in; -1 before the first room of an act */
+  public currentRoomIndex: number = -1;
   public map: Room[] = [];
   public seed: string;
+  /** Ids of the encounters fought this run, oldest first */
+  public recentEncounters: string[] = [];
+  /** The current act's boss, picked when the act starts so the map can show it */
+  public bossEncounter?: Encounter;
+  /** Rooms of the route the player pinned on the map, next room first */
+  public plannedRoute: number[] = [];
+  /** Odds of what the next "?" room holds */
+  public unknownRooms: UnknownRoomOdds = UnknownRoomSystem.createOdds();
+  /** Odds of rare cards in card rewards */
+  public cardRewards: CardRewardOdds = CardRewardSystem.createOdds();
+  /** The character the run was started with */
+  public characterId?: string;
+  /** Ids of the run's modifiers (see modifiers.json) */
+  public modifiers: string[] = [];
+  /** Difficulty level; every ascension level up to it is in effect */
+  public ascension: number = 0;
+  /** The day of the daily challenge this run is, if it is one */
+  public daily?: string;
+  /** Custom runs don't count toward stats or unlocks */
+  public custom: boolean = false;
 
   private mapGenerator: MapGenerator;
 
   constructor(player: Player, seed?: string) {
     this.player = player;
-    this.seed = seed || this.generateSeed();
+    this.seed = RNG.normalizeSeed(seed);
     this.mapGenerator = new MapGenerator();
+
+    // Loading data builds enemy templates, which roll moves; do it before
+    // seeding so it can never eat into the run's streams
+    DataLoader.initialize();
+
+    // Every random stream in the run derives from this seed
+    RNG.initialize(this.seed);
   }
 
   /**
-   * Start a new run
+   * Start a new run, applying the run's modifiers to the starting player
    */
   startRun(): void {
+    const modifiers = this.getActiveModifiers();
+    ModifierSystem.setActive(modifiers);
+    ModifierSystem.applyToPlayer(this.player, modifiers);
+
     this.currentAct = 1;
     this.currentFloor = 0;
+    this.recentEncounters = [];
+    this.unknownRooms = UnknownRoomSystem.createOdds();
+    this.cardRewards = CardRewardSystem.createOdds();
     this.generateMapForAct(1);
 
-    // Start at first room
-    this.currentRoomIndex = 0;
-    this.map[this.currentRoomIndex].visited = true;
+    // Start below the map; the first move picks one of the starting rooms
+    this.currentRoomIndex = -1;
   }
 
   /**
    * Generate map for current act
    */
   generateMapForAct(act: number): void {
-    this.map = this.mapGenerator.generateMap(act);
-    console.log(`Generated map for Act ${act} with ${this.map.length} rooms`);
+    this.map = this.mapGenerator.generateMap(act, this.getActiveModifiers());
+    this.plannedRoute = [];
+    this.bossEncounter = EncounterSystem.pickEncounter(act, 'boss', 0, this.recentEncounters);
+    console.log(`Generated map for Act ${act} with ${this.map.length} rooms (boss: ${this.bossEncounter?.name})`);
+  }
+
+  /**
+   * The run's modifiers and the ascension levels it is played at
+   */
+  getActiveModifiers(): RunModifier[] {
+    return [...ModifierSystem.getModifiers(this.modifiers), ...DataLoader.getAscensionLevels(this.ascension)];
+  }
+
+  /**
+   * Add a card to the player's deck as the run's modifiers change it
+   */
+  addCardToDeck(card: Card): void {
+    this.player.addCardToDeck(ModifierSystem.applyToCard(card, this.getActiveModifiers()));
   }
 
   /**
@@ -55,94 +165,159 @@ export class GameStateManager {
     room.visited = true;
     this.currentRoomIndex = roomIndex;
     this.currentFloor = room.y;
+    this.plannedRoute = RoutePlanner.advance(this.plannedRoute, roomIndex);
 
     console.log(`Moved to ${room.type} at floor ${room.y}`);
   }
 
   /**
-   * Get current room
+   * What the player finds in a room they entered; "?" rooms are resolved
+   * by UnknownRoomSystem
    */
-  getCurrentRoom(): Room {
+  resolveRoom(roomIndex: number): RoomType {
+    return UnknownRoomSystem.enter(this.map[roomIndex], this.unknownRooms, this.player.relics);
+  }
+
+  /**
+   * Get current room (undefined before the first room of an act)
+   */
+  getCurrentRoom(): Room | undefined {
     return this.map[this.currentRoomIndex];
   }
 
+  /**
+   * Get the indices of the rooms the player can move to next
+   */
+  getAvailableRoomIndices(): number[] {
+    return RoutePlanner.getNextRooms(this.map, this.currentRoomIndex);
+  }
+
   /**
    * Get available next rooms
    */
   getAvailableRooms(): Room[] {
-    const currentRoom = this.getCurrentRoom();
-    return currentRoom.connections.map(index => this.map[index]);
+    return this.getAvailableRoomIndices().map(index => this.map[index]);
+  }
+
+  /**
+   * Pick the encounter for a fight on the current floor and remember it
+   */
+  rollEncounter(kind: EncounterKind): Encounter | undefined {
+    const encounter = kind === 'boss' && this.bossEncounter
+      ? this.bossEncounter
+      : EncounterSystem.pickEncounter(this.currentAct, kind, this.currentFloor, this.recentEncounters);
+    if (encounter) {
+      this.recentEncounters.push(encounter.id);
+    }
+    return encounter;
   }
 
   /**
    * Check if we're at the boss
    */
   isAtBoss(): boolean {
-    return this.getCurrentRoom().type === RoomType.BOSS;
+    return this.getCurrentRoom()?.type === 'BOSS';
+  }
+
+  /**
+   * Check if the current act is the run's last
+   */
+  isFinalAct(): boolean {
+    return this.currentAct >= DataLoader.getActCount();
   }
 
   /**
    * Complete current act and move to next
    */
   completeAct(): void {
-    if (this.currentAct < 3) {
+    if (!this.isFinalAct()) {
       this.currentAct++;
       this.currentFloor = 0;
+      UnknownRoomSystem.resetChances(this.unknownRooms);
       this.generateMapForAct(this.currentAct);
-      this.currentRoomIndex = 0;
-      this.map[this.currentRoomIndex].visited = true;
+      this.currentRoomIndex = -1;
       console.log(`Starting Act ${this.currentAct}`);
     } else {
       console.log('Run complete! You won!');
     }
   }
 
-  /**
-   * Generate a random seed
-   */
-  private generateSeed(): string {
-    return Math.random().toString(36).substring(2, 15);
-  }
-
   /**
    * Serialize game state for saving
    */
-  serialize(): string {
-    return JSON.stringify({
+  serialize(): SerializedRun {
+    return {
       seed: this.seed,
+      rng: RNG.getState(),
       currentAct: this.currentAct,
       currentFloor: this.currentFloor,
       currentRoomIndex: this.currentRoomIndex,
       map: this.map,
+      recentEncounters: this.recentEncounters,
+      bossEncounter: this.bossEncounter,
+      plannedRoute: this.plannedRoute,
+      unknownRooms: this.unknownRooms,
+      cardRewards: this.cardRewards,
+      characterId: this.characterId,
+      modifiers: this.modifiers,
+      ascension: this.ascension,
+      daily: this.daily,
+      custom: this.custom,
       player: {
         maxHp: this.player.maxHp,
         currentHp: this.player.currentHp,
         gold: this.player.gold,
+        maxEnergy: this.player.maxEnergy,
+        maxPotions: this.player.maxPotions,
         deck: this.player.deck,
-        relics: this.player.relics,
-        potions: this.player.potions,
+        relics: this.player.relics.map((relic) => ({ id: relic.id, counter: relic.counter })),
+        potions: this.player.potions.map((potion) => potion.id),
       },
-    });
+    };
   }
 
   /**
-   * Deserialize game state from save
+   * Deserialize game state from save, restoring the RNG streams
    */
-  static deserialize(data: string): GameStateManager | null {
+  static deserialize(state: SerializedRun): GameStateManager | null {
     try {
-      const state = JSON.parse(data);
-      const player = new Player(state.player.maxHp);
+      const player = new Player(state.player.maxHp, state.player.gold);
       player.currentHp = state.player.currentHp;
-      player.gold = state.player.gold;
+      player.maxEnergy = state.player.maxEnergy;
+      player.maxPotions = state.player.maxPotions;
       player.deck = state.player.deck;
-      player.relics = state.player.relics;
-      player.potions = state.player.potions;
+      player.relics = state.player.relics.flatMap(({ id, counter }) => {
+        const relic = DataLoader.getRelic(id);
+        if (!relic) {
+          console.warn(`Saved run has unknown relic: ${id}`);
+          return [];
+        }
+        relic.counter = counter;
+        return [relic];
+      });
+      player.potions = state.player.potions.flatMap((id) => {
+        const potion = DataLoader.getPotion(id);
+        if (!potion) console.warn(`Saved run has unknown potion: ${id}`);
+        return potion ? [potion] : [];
+      });
 
       const gameState = new GameStateManager(player, state.seed);
+      RNG.setState(state.seed, state.rng);
       gameState.currentAct = state.currentAct;
       gameState.currentFloor = state.currentFloor;
       gameState.currentRoomIndex = state.currentRoomIndex;
       gameState.map = state.map;
+      gameState.recentEncounters = state.recentEncounters;
+      gameState.bossEncounter = state.bossEncounter;
+      gameState.plannedRoute = state.plannedRoute ?? [];
+      gameState.unknownRooms = state.unknownRooms ?? UnknownRoomSystem.createOdds();
+      gameState.cardRewards = state.cardRewards ?? CardRewardSystem.createOdds();
+      gameState.characterId = state.characterId;
+      gameState.modifiers = state.modifiers ?? [];
+      gameState.ascension = state.ascension ?? 0;
+      gameState.daily = state.daily;
+      gameState.custom = state.custom ?? false;
+      ModifierSystem.setActive(gameState.getActiveModifiers());
 
       return gameState;
     } catch (error) {
@@ -150,4 +325,41 @@ export class GameStateManager {
       return null;
     }
   }
+
+  /**
+   * Save the run, to be resumed in the given scene. Scenes call this when
+   * they are entered, before they roll any rewards, so a resumed scene
+   * rolls the same ones.
+   */
+  save(sceneKey: string, sceneData: Record<string, unknown> = {}): void {
+    SaveSystem.write<RunSave>(RUN_SAVE, {
+      run: this.serialize(),
+      scene: { key: sceneKey, data: sceneData },
+    });
+  }
+
+  /**
+   * Load the saved run and the scene to resume it in
+   */
+  static loadSave(): { gameState: GameStateManager; scene: SavedScene } | null {
+    const save = SaveSystem.read<RunSave>(RUN_SAVE);
+    if (!save) return null;
+
+    const gameState = this.deserialize(save.run);
+    return gameState ? { gameState, scene: save.scene } : null;
+  }
+
+  /**
+   * Check if there is a run to continue
+   */
+  static hasSave(): boolean {
+    return SaveSystem.has(RUN_SAVE);
+  }
+
+  /**
+   * Delete the saved run (when it ends)
+   */
+  static clearSave(): void {
+    SaveSystem.clear(RUN_SAVE);
+  }
 }
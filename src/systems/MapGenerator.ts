@@ -1,254 +1,238 @@
-import { Room, RoomType } from '@/types';
+import { ActMapConfig, Room, RoomType, RunModifier } from '@/types';
+import { DataLoader } from '@/utils/DataLoader';
+import { ModifierSystem } from './ModifierSystem';
+import { RNG } from './RNG';
+import { TreasureSystem } from './TreasureSystem';
+
+/** Rooms that may not follow one of the same type on a path */
+const NO_REPEAT: RoomType[] = ['ELITE', 'REST', 'MERCHANT'];
+
+/** Rooms that may not appear on the act's early floors */
+const NOT_EARLY: RoomType[] = ['ELITE', 'REST'];
 
 /**
- * MapGenerator creates procedural maps for each act
+ * MapGenerator creates procedural maps for each act.
+ *
+ * Paths are carved upward through a grid of columns, one floor at a time.
+ * Each step goes up-left, up or up-right; paths may merge but never cross.
+ * The grid cells the paths touch become rooms, and room types are assigned
+ * floor by floor under the act's rules. Every top-floor room leads to the boss.
  */
 export class MapGenerator {
-  private readonly FLOORS_PER_ACT = 15;
+  private config!: ActMapConfig;
 
   /**
-   * Generate a complete map for an act
+   * Generate a complete map for an act, laid out by the act's map settings
+   * with the run's modifiers applied
    */
-  generateMap(_act: number): Room[] {
-    const rooms: Room[] = [];
-    const floors = this.FLOORS_PER_ACT;
-
-    // Generate rooms floor by floor
-    for (let floor = 0; floor < floors; floor++) {
-      const roomsOnFloor = this.getRoomsForFloor(floor, floors);
-
-      roomsOnFloor.forEach((room, index) => {
-        rooms.push({
-          type: room.type,
-          x: index,
-          y: floor,
-          connections: [],
-          visited: false,
-        });
-      });
-    }
+  generateMap(act: number, modifiers: RunModifier[] = []): Room[] {
+    this.config = ModifierSystem.applyToMapConfig(DataLoader.getActConfig(act).map, modifiers);
+
+    const edges = this.carvePaths();
+    const rooms = this.createRooms(edges);
+    this.assignRoomTypes(rooms);
+    TreasureSystem.assignChests(rooms);
 
-    // Create connections between floors
-    this.createConnections(rooms, floors);
+    const problems = MapGenerator.validate(rooms, this.config);
+    if (problems.length > 0) {
+      console.warn(`Map for act ${act} failed validation:\n${problems.join('\n')}`);
+    }
 
     return rooms;
   }
 
   /**
-   * Get rooms for a specific floor
+   * Check that a map is a DAG from the first floor to the boss that follows
+   * the room rules. Returns a description of every problem found.
    */
-  private getRoomsForFloor(floor: number, totalFloors: number): { type: RoomType }[] {
-    // First floor: 1-2 starting rooms
-    if (floor === 0) {
-      return [
-        { type: RoomType.COMBAT },
-      ];
-    }
+  static validate(rooms: Room[], config: ActMapConfig): string[] {
+    const problems: string[] = [];
+    const bossFloor = config.floors - 1;
+    const parents = rooms.map(() => [] as number[]);
+
+    rooms.forEach((room, index) => {
+      room.connections.forEach((target) => {
+        const next = rooms[target];
+        if (!next) {
+          problems.push(`Room ${index} connects to missing room ${target}`);
+        } else if (next.y !== room.y + 1) {
+          problems.push(`Room ${index} on floor ${room.y} connects to floor ${next.y}`);
+        } else {
+          parents[target].push(index);
+        }
+      });
+    });
 
-    // Last floor: Boss
-    if (floor === totalFloors - 1) {
-      return [
-        { type: RoomType.BOSS },
-      ];
+    const bosses = rooms.filter((room) => room.type === 'BOSS');
+    if (bosses.length !== 1 || bosses[0].y !== bossFloor) {
+      problems.push(`Expected one boss on floor ${bossFloor}`);
     }
 
-    // Rest sites appear every 5-6 floors
-    if (floor % 6 === 4 && floor < totalFloors - 2) {
-      return this.generateFloorRooms(2, true);
-    }
+    const treasureFloor = MapGenerator.getTreasureFloor(config);
+    rooms.forEach((room, index) => {
+      const where = `Room ${index} (${room.type}, floor ${room.y})`;
 
-    // Elite floors (roughly 3 per act)
-    if (this.isEliteFloor(floor, totalFloors)) {
-      return this.generateFloorRooms(3, false, 0.4);
-    }
+      if (room.y > 0 && parents[index].length === 0) problems.push(`${where} is unreachable`);
+      if (room.y < bossFloor && room.connections.length === 0) problems.push(`${where} is a dead end`);
 
-    // Treasure floors (1-2 per act)
-    if (floor === 7 || floor === 11) {
-      return this.generateFloorRooms(2, false, 0, 0.3);
-    }
-
-    // Normal floors with variety
-    return this.generateFloorRooms(3, false);
-  }
+      if (room.y === 0 && room.type !== 'COMBAT') problems.push(`${where} should be a fight`);
+      if (room.y === treasureFloor && room.type !== 'TREASURE') problems.push(`${where} should be treasure`);
+      if (room.y === bossFloor - 1 && MapGenerator.hasRestFloor(config) && room.type !== 'REST') {
+        problems.push(`${where} should be a rest site`);
+      }
+      if (room.type === 'REST' && config.roomWeights.REST === 0) problems.push(`${where} should not be a rest site`);
+      if (room.y < config.earlyFloors && NOT_EARLY.includes(room.type)) problems.push(`${where} is too early`);
 
-  /**
-   * Generate rooms for a normal floor
-   */
-  private generateFloorRooms(
-    count: number,
-    forceRest = false,
-    eliteChance = 0,
-    treasureChance = 0
-  ): { type: RoomType }[] {
-    const rooms: { type: RoomType }[] = [];
-
-    for (let i = 0; i < count; i++) {
-      if (forceRest && i === 0) {
-        rooms.push({ type: RoomType.REST });
-      } else {
-        rooms.push({ type: this.randomRoomType(eliteChance, treasureChance) });
+      if (NO_REPEAT.includes(room.type) && parents[index].some((parent) => rooms[parent].type === room.type)) {
+        problems.push(`${where} follows another ${room.type}`);
       }
-    }
+    });
 
-    return rooms;
+    return problems;
   }
 
   /**
-   * Determine if floor should have elite enemies
+   * The floor in the middle of the act that is all treasure
    */
-  private isEliteFloor(floor: number, totalFloors: number): boolean {
-    // Elites appear at floors 5, 10, and occasionally scattered
-    const fixedEliteFloors = [5, 10];
-    if (fixedEliteFloors.includes(floor)) return true;
-
-    // Random elite chance on other floors
-    return Math.random() < 0.15 && floor > 2 && floor < totalFloors - 3;
+  static getTreasureFloor(config: ActMapConfig): number {
+    return Math.floor((config.floors - 1) / 2);
   }
 
   /**
-   * Get a random room type based on weights
+   * Whether the floor before the boss is all rest sites. A weight of 0
+   * switches rest sites off entirely, and that floor is rolled like the others.
    */
-  private randomRoomType(
-    eliteChance = 0,
-    treasureChance = 0
-  ): RoomType {
-    const roll = Math.random();
-
-    if (roll < eliteChance) return RoomType.ELITE;
-    if (roll < eliteChance + treasureChance) return RoomType.TREASURE;
-
-    // Normal room distribution
-    const normalRoll = Math.random();
-
-    if (normalRoll < 0.55) return RoomType.COMBAT;
-    if (normalRoll < 0.75) return RoomType.MERCHANT;
-    if (normalRoll < 0.90) return RoomType.EVENT;
-    return RoomType.COMBAT;
+  static hasRestFloor(config: ActMapConfig): boolean {
+    return config.roomWeights.REST !== 0;
   }
 
   /**
-   * Create connections between rooms on adjacent floors
+   * Carve the paths. Returns, per floor, a map from column to the columns on
+   * the next floor it connects to. The boss floor isn't part of the grid.
    */
-  private createConnections(rooms: Room[], totalFloors: number): void {
-    for (let floor = 0; floor < totalFloors - 1; floor++) {
-      const currentFloorRooms = rooms.filter(r => r.y === floor);
-      const nextFloorRooms = rooms.filter(r => r.y === floor + 1);
-
-      currentFloorRooms.forEach((currentRoom, currentIndex) => {
-        // Each room connects to 1-3 rooms on the next floor
-        const numConnections = this.getConnectionCount(floor, totalFloors);
-        const connections = this.selectConnections(
-          currentIndex,
-          currentFloorRooms.length,
-          nextFloorRooms.length,
-          numConnections
-        );
-
-        connections.forEach(targetX => {
-          const targetRoom = nextFloorRooms.find(r => r.x === targetX);
-          if (targetRoom) {
-            const targetIndex = rooms.indexOf(targetRoom);
-            if (targetIndex !== -1 && !currentRoom.connections.includes(targetIndex)) {
-              currentRoom.connections.push(targetIndex);
-            }
-          }
-        });
-      });
+  private carvePaths(): Map<number, Set<number>>[] {
+    const { columns, paths } = this.config;
+    const pathFloors = this.config.floors - 1;
+    const rng = RNG.get('map');
+    const edges = Array.from({ length: pathFloors }, () => new Map<number, Set<number>>());
+    let firstStart = -1;
+
+    for (let path = 0; path < paths; path++) {
+      let x = rng.nextInt(columns);
+      // The first two paths start apart so there is always a choice
+      while (path === 1 && x === firstStart && columns > 1) {
+        x = rng.nextInt(columns);
+      }
+      if (path === 0) firstStart = x;
 
-      // Ensure all next floor rooms are reachable
-      this.ensureAllReachable(currentFloorRooms, nextFloorRooms, rooms);
+      for (let floor = 0; floor < pathFloors - 1; floor++) {
+        const next = rng.pick(this.getSteps(edges[floor], x)) ?? x;
+        this.link(edges[floor], x, next);
+        x = next;
+      }
+      // Top floor rooms lead to the boss; they still need a cell of their own
+      this.link(edges[pathFloors - 1], x);
     }
+
+    return edges;
   }
 
   /**
-   * Determine how many connections a room should have
+   * Columns a path at column x may step to without crossing an existing edge
    */
-  private getConnectionCount(floor: number, totalFloors: number): number {
-    // First floor: always 2+ paths
-    if (floor === 0) return 2;
-
-    // Near boss: funnel to single path
-    if (floor === totalFloors - 2) return 1;
+  private getSteps(floorEdges: Map<number, Set<number>>, x: number): number[] {
+    return [x - 1, x, x + 1].filter((next) => {
+      if (next < 0 || next >= this.config.columns) return false;
+      // Stepping left crosses the neighbour's edge up-right into our column, and vice versa
+      if (next === x - 1) return !floorEdges.get(x - 1)?.has(x);
+      if (next === x + 1) return !floorEdges.get(x + 1)?.has(x);
+      return true;
+    });
+  }
 
-    // Normal floors: 1-2 connections
-    return Math.random() < 0.6 ? 2 : 1;
+  private link(floorEdges: Map<number, Set<number>>, x: number, next?: number): void {
+    if (!floorEdges.has(x)) floorEdges.set(x, new Set());
+    if (next !== undefined) floorEdges.get(x)!.add(next);
   }
 
   /**
-   * Select which rooms on next floor to connect to
+   * Turn the carved grid into rooms, ordered by floor and column
    */
-  private selectConnections(
-    currentX: number,
-    currentFloorSize: number,
-    nextFloorSize: number,
-    count: number
-  ): number[] {
-    const connections: number[] = [];
-
-    // Prefer connecting to nearby rooms
-    const nearbyRooms: number[] = [];
-
-    // Calculate which rooms are "nearby" based on relative position
-    const relativePos = currentFloorSize > 1 ? currentX / (currentFloorSize - 1) : 0.5;
-    const targetPos = Math.floor(relativePos * (nextFloorSize - 1));
-
-    // Add target and adjacent rooms as candidates
-    for (let i = Math.max(0, targetPos - 1); i <= Math.min(nextFloorSize - 1, targetPos + 1); i++) {
-      nearbyRooms.push(i);
-    }
+  private createRooms(edges: Map<number, Set<number>>[]): Room[] {
+    const rooms: Room[] = [];
+    const indexOf = new Map<string, number>();
 
-    // Shuffle and pick
-    const shuffled = this.shuffleArray([...nearbyRooms]);
-    for (let i = 0; i < Math.min(count, shuffled.length); i++) {
-      connections.push(shuffled[i]);
-    }
+    edges.forEach((floorEdges, floor) => {
+      [...floorEdges.keys()].sort((a, b) => a - b).forEach((x) => {
+        indexOf.set(`${x},${floor}`, rooms.length);
+        rooms.push({ type: 'COMBAT', x, y: floor, connections: [], visited: false });
+      });
+    });
 
-    // If we need more connections, add random ones
-    while (connections.length < count && connections.length < nextFloorSize) {
-      const random = Math.floor(Math.random() * nextFloorSize);
-      if (!connections.includes(random)) {
-        connections.push(random);
-      }
-    }
+    const bossIndex = rooms.length;
+    rooms.push({
+      type: 'BOSS',
+      x: (this.config.columns - 1) / 2,
+      y: edges.length,
+      connections: [],
+      visited: false,
+    });
 
-    return connections;
+    rooms.forEach((room, index) => {
+      if (index === bossIndex) return;
+      const next = edges[room.y].get(room.x)!;
+      room.connections = next.size > 0
+        ? [...next].sort((a, b) => a - b).map((x) => indexOf.get(`${x},${room.y + 1}`)!)
+        : [bossIndex];
+    });
+
+    return rooms;
   }
 
   /**
-   * Ensure all rooms on next floor are reachable
+   * Assign room types floor by floor. The first floor is all fights, the
+   * middle floor all treasure and the floor before the boss all rest sites
+   * (unless rest sites are off);
+   * every other room is rolled from the act's weights, skipping types the
+   * rules forbid there.
    */
-  private ensureAllReachable(
-    currentFloorRooms: Room[],
-    nextFloorRooms: Room[],
-    allRooms: Room[]
-  ): void {
-    nextFloorRooms.forEach(nextRoom => {
-      const nextRoomIndex = allRooms.indexOf(nextRoom);
-
-      // Check if this room is connected from any current floor room
-      const isConnected = currentFloorRooms.some(currentRoom =>
-        currentRoom.connections.includes(nextRoomIndex)
-      );
-
-      // If not connected, connect from a random current floor room
-      if (!isConnected && currentFloorRooms.length > 0) {
-        const randomCurrentRoom = currentFloorRooms[
-          Math.floor(Math.random() * currentFloorRooms.length)
-        ];
-        randomCurrentRoom.connections.push(nextRoomIndex);
-      }
+  private assignRoomTypes(rooms: Room[]): void {
+    const bossFloor = this.config.floors - 1;
+    const treasureFloor = MapGenerator.getTreasureFloor(this.config);
+    const restFloor = MapGenerator.hasRestFloor(this.config) ? bossFloor - 1 : -1;
+    const parents = rooms.map(() => [] as Room[]);
+    rooms.forEach((room) => room.connections.forEach((target) => parents[target].push(room)));
+
+    // Fixed floors first, so the rolled rooms below them can respect them
+    rooms.forEach((room) => {
+      if (room.y === treasureFloor) room.type = 'TREASURE';
+      if (room.y === restFloor) room.type = 'REST';
+    });
+
+    rooms.forEach((room, index) => {
+      if (room.y === 0 || room.y === treasureFloor || room.y === restFloor || room.y === bossFloor) return;
+
+      const neighbours = [...parents[index], ...room.connections.map((target) => rooms[target])];
+      room.type = this.rollRoomType((type) => {
+        if (room.y < this.config.earlyFloors && NOT_EARLY.includes(type)) return false;
+        return !NO_REPEAT.includes(type) || !neighbours.some((neighbour) => neighbour.type === type);
+      });
     });
   }
 
   /**
-   * Shuffle array (Fisher-Yates)
+   * Roll a room type from the act's weights among the allowed types
    */
-  private shuffleArray<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  private rollRoomType(allowed: (type: RoomType) => boolean): RoomType {
+    const weights = (Object.entries(this.config.roomWeights) as [RoomType, number][])
+      .filter(([type]) => allowed(type));
+    const totalWeight = weights.reduce((sum, [, weight]) => sum + weight, 0);
+    let roll = RNG.random('map') * totalWeight;
+
+    for (const [type, weight] of weights) {
+      roll -= weight;
+      if (roll < 0) return type;
     }
-    return shuffled;
+    return 'COMBAT';
   }
 }
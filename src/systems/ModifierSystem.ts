@@ -0,0 +1,118 @@
+import { ActMapConfig, Card, RunModifier } from '@/types';
+import { Player } from '@/entities/Player';
+import { DataLoader } from '@/utils/DataLoader';
+
+/**
+ * ModifierSystem applies a run's modifiers (see modifiers.json and
+ * ascension.json). Modifiers are stored on the run by id; the player is
+ * changed once when the run starts and each act's map settings whenever a
+ * map is generated. Effects read outside of a run's scenes (enemy stats)
+ * come from the modifiers set active for the current run.
+ */
+export class ModifierSystem {
+  private static active: RunModifier[] = [];
+
+  /**
+   * Look up modifiers by id, skipping unknown ones
+   */
+  static getModifiers(ids: string[]): RunModifier[] {
+    return ids.flatMap((id) => {
+      const modifier = DataLoader.getModifier(id);
+      if (!modifier) console.warn(`Unknown run modifier: ${id}`);
+      return modifier ? [modifier] : [];
+    });
+  }
+
+  /**
+   * Set the modifiers in effect for the current run
+   */
+  static setActive(modifiers: RunModifier[]): void {
+    this.active = modifiers;
+  }
+
+  /**
+   * Sum of the values of one kind of effect over some modifiers
+   */
+  static getTotal(modifiers: RunModifier[], type: string): number {
+    return modifiers
+      .flatMap((modifier) => modifier.effects)
+      .filter((effect) => effect.type === type)
+      .reduce((sum, effect) => sum + effect.value, 0);
+  }
+
+  /**
+   * Sum of the values of one kind of effect over the current run's modifiers
+   */
+  static getActiveTotal(type: string): number {
+    return this.getTotal(this.active, type);
+  }
+
+  /**
+   * Apply the modifiers that change the starting player
+   */
+  static applyToPlayer(player: Player, modifiers: RunModifier[]): void {
+    modifiers.forEach((modifier) => {
+      modifier.effects.forEach((effect) => {
+        switch (effect.type) {
+          case 'MAX_HP_PERCENT':
+            player.maxHp = Math.max(1, Math.round(player.maxHp * (1 + effect.value / 100)));
+            player.currentHp = player.maxHp;
+            break;
+          case 'GOLD':
+            player.gold = Math.max(0, player.gold + effect.value);
+            break;
+          case 'ADD_CARD':
+            for (let i = 0; i < effect.value; i++) {
+              const card = DataLoader.getCard(effect.cardId ?? '') ?? DataLoader.getStatusCard(effect.cardId ?? '');
+              if (!card) {
+                console.warn(`Modifier ${modifier.id} adds unknown card: ${effect.cardId}`);
+                break;
+              }
+              player.addCardToDeck({ ...card });
+            }
+            break;
+          case 'POTION_SLOTS':
+            player.maxPotions += effect.value;
+            break;
+        }
+      });
+    });
+
+    // Cards are upgraded last, so cards added above are upgraded too
+    player.deck = player.deck.map((card) => this.applyToCard(card, modifiers));
+  }
+
+  /**
+   * A card as it enters the deck under the modifiers (upgraded by
+   * UPGRADE_CARDS). Status cards and curses are left alone.
+   */
+  static applyToCard(card: Card, modifiers: RunModifier[]): Card {
+    const upgradable = !card.upgraded && card.type !== 'STATUS' && card.type !== 'CURSE';
+    if (!upgradable || this.getTotal(modifiers, 'UPGRADE_CARDS') <= 0) return card;
+
+    return {
+      ...card,
+      ...(card.upgradedStats || {}),
+      upgraded: true,
+      name: `${card.name}+`,
+    };
+  }
+
+  /**
+   * An act's map settings with the modifiers' room weights applied
+   */
+  static applyToMapConfig(config: ActMapConfig, modifiers: RunModifier[]): ActMapConfig {
+    const roomWeights = { ...config.roomWeights };
+    modifiers.forEach((modifier) => {
+      modifier.effects.forEach((effect) => {
+        if (!effect.room) return;
+        if (effect.type === 'ROOM_WEIGHT') {
+          roomWeights[effect.room] = (roomWeights[effect.room] ?? 0) * effect.value;
+        } else if (effect.type === 'EXTRA_ROOM_WEIGHT') {
+          roomWeights[effect.room] = (roomWeights[effect.room] ?? 0) + effect.value;
+        }
+      });
+    });
+    return { ...config, roomWeights };
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Named random streams used throughout a run. Each stream is seeded
+ * independently from the run seed, so consuming one never shifts another.
+ */
+export type RngStream =
+  | 'map'
+  | 'cards'
+  | 'relics'
+  | 'potions'
+  | 'monsters'
+  | 'shuffle'
+  | 'events'
+  | 'treasure';
+
+export const RNG_STREAMS: RngStream[] = [
+  'map',
+  'cards',
+  'relics',
+  'potions',
+  'monsters',
+  'shuffle',
+  'events',
+  'treasure',
+];
+
+/**
+ * SeededRandom is a small deterministic PRNG (mulberry32) with a
+ * single 32-bit state, which makes it trivial to save and restore
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Next integer in [0, max)
+   */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Next integer in [min, max] (inclusive)
+   */
+  nextRange(min: number, max: number): number {
+    return min + this.nextInt(max - min + 1);
+  }
+
+  /**
+   * Returns true with the given probability
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick a random element from an array
+   */
+  pick<T>(array: T[]): T | undefined {
+    if (array.length === 0) return undefined;
+    return array[this.nextInt(array.length)];
+  }
+
+  /**
+   * Return a shuffled copy of an array (Fisher-Yates)
+   */
+  shuffle<T>(array: T[]): T[] {
+    const shuffled = [...array];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+/**
+ * RNG is the central random service for a run. All gameplay randomness
+ * should go through one of its named streams instead of Math.random,
+ * so the same seed always produces the same run.
+ */
+export class RNG {
+  private static seed: string = '';
+  private static streams: Map<RngStream, SeededRandom> = new Map();
+
+  /**
+   * Seed all streams from a run seed
+   */
+  static initialize(seed: string): void {
+    this.seed = seed;
+    this.streams.clear();
+
+    RNG_STREAMS.forEach((stream) => {
+      this.streams.set(stream, new SeededRandom(this.hashSeed(`${seed}:${stream}`)));
+    });
+
+    console.log(`RNG initialized with seed "${seed}"`);
+  }
+
+  /**
+   * A fresh random run seed
+   */
+  static generateSeed(): string {
+    return Math.random().toString(36).substring(2, 15);
+  }
+
+  /**
+   * Clean up a seed typed by a player: trimmed and lower-cased, so a
+   * shared seed works however it was typed. Empty input gives a fresh seed.
+   */
+  static normalizeSeed(input?: string): string {
+    const seed = (input ?? '').trim().toLowerCase();
+    return seed || this.generateSeed();
+  }
+
+  /**
+   * Get the seed the streams were derived from
+   */
+  static getSeed(): string {
+    return this.seed;
+  }
+
+  /**
+   * Get a named stream. Falls back to a time-seeded stream if no run
+   * seed has been set (e.g. combat test mode).
+   */
+  static get(stream: RngStream): SeededRandom {
+    let rng = this.streams.get(stream);
+    if (!rng) {
+      rng = new SeededRandom(this.hashSeed(`${Date.now()}:${stream}`));
+      this.streams.set(stream, rng);
+    }
+    return rng;
+  }
+
+  /**
+   * Shorthand for RNG.get(stream).next()
+   */
+  static random(stream: RngStream): number {
+    return this.get(stream).next();
+  }
+
+  /**
+   * Snapshot the state of every stream
+   */
+  static getState(): Record<RngStream, number> {
+    const state = {} as Record<RngStream, number>;
+    RNG_STREAMS.forEach((stream) => {
+      state[stream] = this.get(stream).getState();
+    });
+    return state;
+  }
+
+  /**
+   * Restore stream states from a snapshot
+   */
+  static setState(seed: string, state: Partial<Record<RngStream, number>>): void {
+    this.initialize(seed);
+    RNG_STREAMS.forEach((stream) => {
+      const value = state[stream];
+      if (value !== undefined) {
+        this.get(stream).setState(value);
+      }
+    });
+  }
+
+  /**
+   * Hash a string into a 32-bit seed (FNV-1a)
+   */
+  static hashSeed(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
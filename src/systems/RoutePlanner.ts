@@ -0,0 +1,105 @@
+import { Room, RoomType } from '@/types';
+
+export type RouteCriterion = 'MOST_ELITES' | 'MOST_RESTS' | 'MOST_MERCHANTS' | 'FEWEST_FIGHTS';
+
+/** Criteria in display order, with their labels */
+export const ROUTE_CRITERIA: { id: RouteCriterion; label: string }[] = [
+  { id: 'MOST_ELITES', label: 'Most Elites' },
+  { id: 'MOST_RESTS', label: 'Most Rests' },
+  { id: 'MOST_MERCHANTS', label: 'Most Shops' },
+  { id: 'FEWEST_FIGHTS', label: 'Fewest Fights' },
+];
+
+/**
+ * A way from the current position to the boss
+ */
+export interface Route {
+  /** Room indices in the order they're entered, ending with the boss */
+  rooms: number[];
+  counts: Record<RoomType, number>;
+}
+
+const ROOM_TYPES: RoomType[] = ['COMBAT', 'ELITE', 'BOSS', 'REST', 'MERCHANT', 'TREASURE', 'EVENT'];
+
+/**
+ * RoutePlanner finds the paths through an act's map
+ */
+export class RoutePlanner {
+  /**
+   * Every route to the boss from a room (-1 for the start of the act)
+   */
+  static getRoutes(map: Room[], fromIndex: number): Route[] {
+    const routes: Route[] = [];
+    const walk = (index: number, path: number[]) => {
+      const next = [...path, index];
+      const { connections } = map[index];
+      if (connections.length === 0) {
+        routes.push({ rooms: next, counts: this.countRooms(map, next) });
+        return;
+      }
+      connections.forEach((target) => walk(target, next));
+    };
+
+    this.getNextRooms(map, fromIndex).forEach((index) => walk(index, []));
+    return routes;
+  }
+
+  /**
+   * The route that best fits a criterion; the first found wins ties
+   */
+  static getBestRoute(map: Room[], fromIndex: number, criterion: RouteCriterion): Route | undefined {
+    let best: Route | undefined;
+    let bestScore = -Infinity;
+
+    this.getRoutes(map, fromIndex).forEach((route) => {
+      const score = this.score(route, criterion);
+      if (score > bestScore) {
+        best = route;
+        bestScore = score;
+      }
+    });
+    return best;
+  }
+
+  /**
+   * Higher is better for every criterion
+   */
+  static score(route: Route, criterion: RouteCriterion): number {
+    const { counts } = route;
+    switch (criterion) {
+      case 'MOST_ELITES':
+        return counts.ELITE;
+      case 'MOST_RESTS':
+        return counts.REST;
+      case 'MOST_MERCHANTS':
+        return counts.MERCHANT;
+      case 'FEWEST_FIGHTS':
+        return -(counts.COMBAT + counts.ELITE);
+    }
+  }
+
+  /**
+   * What is left of a planned route after entering a room. A room off the
+   * route abandons the plan.
+   */
+  static advance(route: number[], roomIndex: number): number[] {
+    return route[0] === roomIndex ? route.slice(1) : [];
+  }
+
+  /**
+   * Rooms that can be entered next from a room (-1 for the start of the act)
+   */
+  static getNextRooms(map: Room[], fromIndex: number): number[] {
+    const room = map[fromIndex];
+    if (!room) {
+      return map.flatMap((candidate, index) => (candidate.y === 0 ? [index] : []));
+    }
+    return room.connections;
+  }
+
+  static countRooms(map: Room[], rooms: number[]): Record<RoomType, number> {
+    const counts = Object.fromEntries(ROOM_TYPES.map((type) => [type, 0])) as Record<RoomType, number>;
+    rooms.forEach((index) => counts[map[index].type]++);
+    return counts;
+  }
+}
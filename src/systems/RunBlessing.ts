@@ -0,0 +1,52 @@
+import { Blessing, GameEvent } from '@/types';
+import { DataLoader } from '@/utils/DataLoader';
+import { GameStateManager } from './GameStateManager';
+import { RNG, SeededRandom } from './RNG';
+import { UnlockSystem } from './UnlockSystem';
+
+/** Blessings offered in the opening room */
+const BLESSING_CHOICES = 3;
+
+/**
+ * RunBlessing builds the optional opening room of a run: a choice of
+ * blessings (see blessings.json) played out as an event in EventScene.
+ */
+export class RunBlessing {
+  /**
+   * The blessings offered to a run. Picked from the run seed with a
+   * generator of their own, so taking a blessing or not never shifts the
+   * run's streams. With big blessings unlocked one of the three is big.
+   */
+  static getChoices(seed: string, big: boolean = UnlockSystem.getReachedBossLastRun()): Blessing[] {
+    const rng = new SeededRandom(RNG.hashSeed(`${seed}:blessing`));
+    const blessings = DataLoader.getAllBlessings();
+    const small = rng.shuffle(blessings.filter((blessing) => !blessing.big));
+    if (!big) return small.slice(0, BLESSING_CHOICES);
+
+    const bigBlessings = rng.shuffle(blessings.filter((blessing) => blessing.big));
+    const rest = rng.shuffle([...small, ...bigBlessings.slice(1)]);
+    return [...bigBlessings.slice(0, 1), ...rest].slice(0, BLESSING_CHOICES);
+  }
+
+  /**
+   * The opening room as an event, with a way to walk past it
+   */
+  static getEvent(gameState: GameStateManager): GameEvent {
+    return {
+      id: 'blessing',
+      name: 'A Quiet Altar',
+      description: 'Before the descent, a voice offers a gift for the road ahead.',
+      choices: [
+        ...this.getChoices(gameState.seed),
+        { text: 'Walk on', outcomes: [{ type: 'NOTHING', text: 'You leave the altar untouched.' }] },
+      ],
+    };
+  }
+
+  /**
+   * Whether a run got to a boss: it is in a boss room or past the first act
+   */
+  static reachedBoss(gameState: GameStateManager): boolean {
+    return gameState.currentAct > 1 || gameState.map[gameState.currentRoomIndex]?.type === 'BOSS';
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * A versioned localStorage entry. When the shape of a save changes, bump
+ * `version` and add a migration keyed by the old version that turns a save
+ * of that version into one of the next.
+ */
+export interface SaveSlot {
+  key: string;
+  version: number;
+  migrations: Record<number, (data: unknown) => unknown>;
+}
+
+interface SaveEnvelope {
+  version: number;
+  savedAt: number;
+  data: unknown;
+}
+
+/**
+ * SaveSystem reads and writes versioned saves, migrating old ones on load
+ */
+export class SaveSystem {
+  /**
+   * Write data to a slot at the slot's current version
+   */
+  static write<T>(slot: SaveSlot, data: T): void {
+    const envelope: SaveEnvelope = { version: slot.version, savedAt: Date.now(), data };
+    try {
+      this.storage()?.setItem(slot.key, JSON.stringify(envelope));
+    } catch (e) {
+      console.error(`Failed to write save ${slot.key}`, e);
+    }
+  }
+
+  /**
+   * Read a slot, migrating it to the current version. Returns null when the
+   * slot is empty, unreadable or can't be migrated.
+   */
+  static read<T>(slot: SaveSlot): T | null {
+    const saved = this.storage()?.getItem(slot.key);
+    if (!saved) return null;
+
+    let envelope: SaveEnvelope;
+    try {
+      envelope = JSON.parse(saved);
+    } catch (e) {
+      console.error(`Failed to parse save ${slot.key}`, e);
+      return null;
+    }
+
+    if (envelope.version > slot.version) {
+      console.warn(`Save ${slot.key} is from a newer version (${envelope.version} > ${slot.version})`);
+      return null;
+    }
+
+    let data = envelope.data;
+    for (let version = envelope.version; version < slot.version; version++) {
+      const migrate = slot.migrations[version];
+      if (!migrate) {
+        console.warn(`No migration for save ${slot.key} from version ${version}`);
+        return null;
+      }
+      data = migrate(data);
+    }
+
+    return data as T;
+  }
+
+  /**
+   * Check if a slot holds a save
+   */
+  static has(slot: SaveSlot): boolean {
+    return !!this.storage()?.getItem(slot.key);
+  }
+
+  /**
+   * Delete a slot's save
+   */
+  static clear(slot: SaveSlot): void {
+    this.storage()?.removeItem(slot.key);
+  }
+
+  /**
+   * localStorage, or null where it doesn't exist (the simulator)
+   */
+  private static storage(): Storage | null {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  }
+}
@@ -0,0 +1,124 @@
+import { Card, CardRewardRarity, ChestConfig, ChestSize, Relic as RelicData, Room } from '@/types';
+import { Relic } from '@/entities/Relic';
+import { findRelicEffects } from '@/engine/relicEffects';
+import { DataLoader } from '@/utils/DataLoader';
+import { RNG } from './RNG';
+import { RoutePlanner } from './RoutePlanner';
+
+/** Relic rarities a chest can hold, in the order the odds are rolled */
+const CHEST_RARITIES: CardRewardRarity[] = ['COMMON', 'UNCOMMON', 'RARE'];
+
+/** The curse taken for the extra relic of a CHEST_CURSE_TRADE relic */
+const TRADE_CURSE = 'injury';
+
+/**
+ * What a chest held when it was opened
+ */
+export interface ChestContents {
+  chest: ChestConfig;
+  gold: number;
+  relics: Relic[];
+  /** CHEST_CURSE_TRADE: a relic the player may take along with the curse */
+  trade?: { relic: Relic; curse: Card };
+}
+
+/**
+ * TreasureSystem rolls the chests of treasure rooms (see chests.json) and
+ * what they hold. Everything is drawn from the run's treasure stream.
+ */
+export class TreasureSystem {
+  /**
+   * Roll a chest size by the chests' weights
+   */
+  static rollChestSize(): ChestSize {
+    const chests = DataLoader.getAllChests();
+    const totalWeight = chests.reduce((sum, chest) => sum + chest.weight, 0);
+    let roll = RNG.get('treasure').next() * totalWeight;
+    for (const chest of chests) {
+      roll -= chest.weight;
+      if (roll <= 0) return chest.size;
+    }
+    return chests[0].size;
+  }
+
+  /**
+   * Give every treasure room on a map without a chest one
+   */
+  static assignChests(rooms: Room[]): void {
+    rooms.forEach((room) => {
+      if (room.type === 'TREASURE' && !room.chest) {
+        room.chest = this.rollChestSize();
+      }
+    });
+  }
+
+  /**
+   * Whether a room's chest shows on the map: the room has been visited or
+   * is one of the next rooms
+   */
+  static isScouted(map: Room[], currentRoomIndex: number, roomIndex: number): boolean {
+    return map[roomIndex]?.visited || RoutePlanner.getNextRooms(map, currentRoomIndex).includes(roomIndex);
+  }
+
+  /**
+   * The map icon of a room's chest, once it is scouted
+   */
+  static getChestIcon(map: Room[], currentRoomIndex: number, roomIndex: number): string | undefined {
+    const size = map[roomIndex]?.chest;
+    if (!size || !this.isScouted(map, currentRoomIndex, roomIndex)) return undefined;
+    return DataLoader.getChest(size).icon;
+  }
+
+  /**
+   * Open a chest. Relics the player owns are never found; chest relics
+   * (CHEST_EXTRA_RELIC, CHEST_CURSE_TRADE) add to what is inside.
+   */
+  static openChest(size: ChestSize, playerRelics: RelicData[]): ChestContents {
+    const chest = DataLoader.getChest(size);
+    const rng = RNG.get('treasure');
+    const owned = new Set(playerRelics.map((relic) => relic.id));
+
+    const gold = rng.chance(chest.goldChance / 100) ? chest.gold : 0;
+
+    const relicCount = 1 + findRelicEffects(playerRelics, 'passive', 'CHEST_EXTRA_RELIC')
+      .reduce((sum, effect) => sum + (effect.value ?? 1), 0);
+    const relics: Relic[] = [];
+    for (let i = 0; i < relicCount; i++) {
+      const relic = this.rollRelic(chest, owned);
+      if (!relic) break;
+      relics.push(relic);
+      owned.add(relic.id);
+    }
+
+    const contents: ChestContents = { chest, gold, relics };
+    if (findRelicEffects(playerRelics, 'passive', 'CHEST_CURSE_TRADE').length > 0) {
+      const relic = this.rollRelic(chest, owned);
+      const curse = DataLoader.getStatusCard(TRADE_CURSE);
+      if (relic && curse) {
+        contents.trade = { relic, curse };
+      }
+    }
+    return contents;
+  }
+
+  /**
+   * Roll a relic the player doesn't own by the chest's rarity odds. When
+   * every relic of the rolled rarity is owned, another rarity stands in.
+   */
+  private static rollRelic(chest: ChestConfig, owned: Set<string>): Relic | undefined {
+    const rng = RNG.get('treasure');
+    const totalWeight = CHEST_RARITIES.reduce((sum, rarity) => sum + chest.relicOdds[rarity], 0);
+    let roll = rng.next() * totalWeight;
+    const rolled = CHEST_RARITIES.find((rarity) => {
+      roll -= chest.relicOdds[rarity];
+      return roll < 0;
+    }) ?? 'COMMON';
+
+    const available = (rarity: CardRewardRarity) =>
+      DataLoader.getRelicsByRarity(rarity).filter((relic) => !owned.has(relic.id));
+    const pool = [rolled, ...CHEST_RARITIES.filter((rarity) => rarity !== rolled)]
+      .map(available)
+      .find((relics) => relics.length > 0);
+    return pool ? rng.pick(pool) : undefined;
+  }
+}
@@ -0,0 +1,88 @@
+import { Relic, Room, RoomType, UnknownRoomOdds, UnknownRoomOutcome } from '@/types';
+import { findRelicEffects } from '@/engine/relicEffects';
+import { RNG } from './RNG';
+import { TreasureSystem } from './TreasureSystem';
+
+/**
+ * Starting percent chance of each outcome and how much it rises each time
+ * it isn't rolled. Outcomes are rolled in this order.
+ */
+const UNKNOWN_ROOM_ODDS: Record<UnknownRoomOutcome, { base: number; increase: number }> = {
+  COMBAT: { base: 10, increase: 10 },
+  MERCHANT: { base: 3, increase: 3 },
+  TREASURE: { base: 2, increase: 2 },
+};
+
+/** EVENT_TO_TREASURE: every this many "?" rooms is a treasure room, unless the relic says otherwise */
+const EVENT_TO_TREASURE_EVERY = 4;
+
+/**
+ * UnknownRoomSystem decides what a "?" room holds when it is entered. The
+ * odds belong to the run and carry over from room to room; relics can
+ * bend them (EVENT_TO_TREASURE, UNKNOWN_NO_COMBAT).
+ */
+export class UnknownRoomSystem {
+  /**
+   * Odds at the start of a run
+   */
+  static createOdds(): UnknownRoomOdds {
+    const odds: UnknownRoomOdds = { chances: { COMBAT: 0, MERCHANT: 0, TREASURE: 0 }, entered: 0 };
+    this.resetChances(odds);
+    return odds;
+  }
+
+  /**
+   * Put every chance back to its starting value (at the start of an act)
+   */
+  static resetChances(odds: UnknownRoomOdds): void {
+    (Object.keys(UNKNOWN_ROOM_ODDS) as UnknownRoomOutcome[]).forEach((outcome) => {
+      odds.chances[outcome] = UNKNOWN_ROOM_ODDS[outcome].base;
+    });
+  }
+
+  /**
+   * Enter a "?" room: resolve what it holds, updating the odds, and record
+   * it on the room. A room resolves once; other rooms are what they show.
+   */
+  static enter(room: Room, odds: UnknownRoomOdds, relics: Relic[]): RoomType {
+    if (room.type !== 'EVENT') return room.type;
+    if (!room.resolved) {
+      room.resolved = this.resolve(odds, relics);
+      if (room.resolved === 'TREASURE') {
+        room.chest ??= TreasureSystem.rollChestSize();
+      }
+    }
+    return room.resolved;
+  }
+
+  /**
+   * Roll what the next "?" room holds
+   */
+  static resolve(odds: UnknownRoomOdds, relics: Relic[]): RoomType {
+    odds.entered++;
+
+    // Tiny Chest turns every Nth "?" room into treasure without a roll
+    const everyNth = findRelicEffects(relics, 'passive', 'EVENT_TO_TREASURE')[0];
+    if (everyNth && odds.entered % (everyNth.value ?? EVENT_TO_TREASURE_EVERY) === 0) {
+      return 'TREASURE';
+    }
+
+    let roll = RNG.get('events').next() * 100;
+    const outcomes = Object.keys(UNKNOWN_ROOM_ODDS) as UnknownRoomOutcome[];
+    const rolled = outcomes.find((outcome) => {
+      roll -= odds.chances[outcome];
+      return roll < 0;
+    });
+
+    outcomes.forEach((outcome) => {
+      odds.chances[outcome] = outcome === rolled
+        ? UNKNOWN_ROOM_ODDS[outcome].base
+        : odds.chances[outcome] + UNKNOWN_ROOM_ODDS[outcome].increase;
+    });
+
+    if (rolled === 'COMBAT' && findRelicEffects(relics, 'passive', 'UNKNOWN_NO_COMBAT').length > 0) {
+      return 'EVENT';
+    }
+    return rolled ?? 'EVENT';
+  }
+}
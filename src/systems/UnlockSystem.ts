@@ -1,3 +1,17 @@
+/**
+ * A finished daily challenge run
+ */
+export interface DailyResult {
+  /** The challenge's day (YYYY-MM-DD, UTC) */
+  date: string;
+  characterId: string;
+  floor: number;
+  act: number;
+  score: number;
+  victory: boolean;
+  finishedAt: number;
+}
+
 /**
  * UnlockSystem - Manages progression and unlockable content
  */
@@ -18,6 +32,12 @@ export interface UnlockData {
     floorsCleared: number;
     highestFloor: number;
   };
+  /** Every daily challenge run, oldest first */
+  dailyHistory: DailyResult[];
+  /** Highest ascension level unlocked per character id (0 when missing) */
+  ascension: Record<string, number>;
+  /** Whether the last finished run got to a boss; unlocks bigger blessings */
+  reachedBossLastRun: boolean;
 }
 
 export class UnlockSystem {
@@ -36,6 +56,10 @@ export class UnlockSystem {
     if (saved) {
       try {
         this.data = JSON.parse(saved);
+        // Saves from before daily challenges, ascension and blessings lack these
+        this.data!.dailyHistory ??= [];
+        this.data!.ascension ??= {};
+        this.data!.reachedBossLastRun ??= false;
         console.log('Loaded unlock data from localStorage');
         return this.data!;
       } catch (e) {
@@ -61,6 +85,9 @@ export class UnlockSystem {
         floorsCleared: 0,
         highestFloor: 0,
       },
+      dailyHistory: [],
+      ascension: {},
+      reachedBossLastRun: false,
     };
 
     this.save();
@@ -242,6 +269,76 @@ export class UnlockSystem {
     }
   }
 
+  /**
+   * Record a finished daily challenge run
+   */
+  static recordDailyResult(result: DailyResult): void {
+    if (!this.data) this.initialize();
+
+    this.data!.dailyHistory.push(result);
+    this.save();
+  }
+
+  /**
+   * Get the daily challenge runs, newest first
+   */
+  static getDailyHistory(): DailyResult[] {
+    if (!this.data) this.initialize();
+    return [...this.data!.dailyHistory].reverse();
+  }
+
+  /**
+   * Get the best run of a day's challenge (the first to reach the top score)
+   */
+  static getDailyBest(date: string): DailyResult | undefined {
+    if (!this.data) this.initialize();
+    return this.data!.dailyHistory
+      .filter((result) => result.date === date)
+      .reduce<DailyResult | undefined>((best, result) => (!best || result.score > best.score ? result : best), undefined);
+  }
+
+  /**
+   * Get the highest ascension level unlocked for a character
+   */
+  static getMaxAscension(characterId: string): number {
+    if (!this.data) this.initialize();
+    return this.data!.ascension[characterId] ?? 0;
+  }
+
+  /**
+   * Record a win at an ascension level, unlocking the next level for the
+   * character (up to maxLevel). Returns true if a new level was unlocked.
+   */
+  static recordAscensionWin(characterId: string, level: number, maxLevel: number): boolean {
+    if (!this.data) this.initialize();
+
+    const next = Math.min(level + 1, maxLevel);
+    if (next <= this.getMaxAscension(characterId)) return false;
+
+    this.data!.ascension[characterId] = next;
+    this.save();
+    console.log(`Unlocked ascension ${next} for ${characterId}`);
+    return true;
+  }
+
+  /**
+   * Record how far a finished run got, for the next run's blessings
+   */
+  static recordRunEnd(reachedBoss: boolean): void {
+    if (!this.data) this.initialize();
+
+    this.data!.reachedBossLastRun = reachedBoss;
+    this.save();
+  }
+
+  /**
+   * Whether the last finished run got to a boss
+   */
+  static getReachedBossLastRun(): boolean {
+    if (!this.data) this.initialize();
+    return this.data!.reachedBossLastRun;
+  }
+
   /**
    * Record enemy defeat
    */
@@ -1,7 +1,7 @@
 // Core game types
 
 export type CardType = 'ATTACK' | 'SKILL' | 'POWER' | 'STATUS' | 'CURSE';
-export type CardRarity = 'STARTER' | 'COMMON' | 'UNCOMMON' | 'RARE' | 'SPECIAL';
+export type CardRarity = 'STARTER' | 'COMMON' | 'UNCOMMON' | 'RARE' | 'SPECIAL' | 'BOSS';
 export type TargetType = 'SELF' | 'SINGLE_ENEMY' | 'ALL_ENEMIES' | 'RANDOM_ENEMY';
 
 export interface CardEffect {
@@ -24,10 +24,15 @@ export interface Card {
   retain?: boolean;
   innate?: boolean;
   ethereal?: boolean;
+  unplayable?: boolean;
   isXCost?: boolean;
   upgradedStats?: Partial<Card>;
 }
 
+/**
+ * Stacks of each status, keyed by status id. The named fields are the
+ * built-in statuses; any status defined in statuses.json can be stored here.
+ */
 export interface StatusEffects {
   strength: number;
   dexterity: number;
@@ -40,7 +45,23 @@ export interface StatusEffects {
   thorns: number;
   ritual: number;
   intangible: number;
-  block: number;
+  [status: string]: number;
+}
+
+export type StatusType = 'buff' | 'debuff' | 'neutral';
+/** How new stacks combine with existing ones */
+export type StatusStacking = 'ADD' | 'MAX';
+/** When a status loses a stack */
+export type StatusDecay = 'TURN_START' | 'TURN_END' | 'ON_HIT' | 'NEVER';
+
+export interface StatusDefinition {
+  id: string;
+  name: string;
+  icon: string;
+  type: StatusType;
+  description: string;
+  stacking: StatusStacking;
+  decay: StatusDecay;
 }
 
 export interface RelicEffect {
@@ -55,6 +76,8 @@ export interface Relic {
   description: string;
   rarity: CardRarity;
   effects: RelicEffect[];
+  /** Relative chance of being offered among relics of its rarity (defaults to 1) */
+  weight?: number;
   counter?: number;
 }
 
@@ -68,14 +91,30 @@ export interface Potion {
 }
 
 export interface EnemyIntent {
-  type: 'ATTACK' | 'DEFEND' | 'BUFF' | 'DEBUFF' | 'UNKNOWN' | 'STUN';
+  type: 'ATTACK' | 'DEFEND' | 'BUFF' | 'DEBUFF' | 'UNKNOWN' | 'STUN' | 'ESCAPE' | 'SLEEP';
   value?: number;
   times?: number;
 }
 
+/** Who an enemy action affects. Enemy actions default to PLAYER for debuffs and SELF otherwise. */
+export type EnemyActionTarget = 'PLAYER' | 'SELF' | 'ALLIES' | 'ALL_ENEMIES';
+
 export interface EnemyAction {
   type: string;
   value: number;
+  /** DAMAGE: number of hits (defaults to the move intent's times) */
+  times?: number;
+  /** APPLY_STATUS: status id from statuses.json */
+  status?: string;
+  target?: EnemyActionTarget;
+  /** ADD_CARD: status card id (wound, dazed, slimed) */
+  card?: string;
+  /** ADD_CARD: where the cards go (defaults to DISCARD) */
+  pile?: 'DRAW' | 'DISCARD' | 'HAND';
+  /** SPAWN / SPLIT: enemy ids to bring into combat */
+  enemies?: string[];
+  /** TRANSFORM: form to switch into ('base' for the enemy's original moves) */
+  form?: string;
 }
 
 export interface EnemyMove {
@@ -85,19 +124,128 @@ export interface EnemyMove {
   actions: EnemyAction[];
 }
 
+/**
+ * A condition on the combat when an enemy picks its next move. Every field
+ * that is set must hold. Turns count the enemy's own moves, starting at 1.
+ */
+export interface EnemyAICondition {
+  turn?: number;
+  minTurn?: number;
+  maxTurn?: number;
+  /** Enemy HP is below this percentage of its max HP */
+  hpBelowPercent?: number;
+  /** Enemy has (true) or has not (false) lost HP this combat */
+  damaged?: boolean;
+  lastMove?: string;
+  selfHasStatus?: string;
+  playerHasStatus?: string;
+  playerLacksStatus?: string;
+  /** Chance (0-1) that the rule applies even when everything else holds */
+  chance?: number;
+}
+
+export interface EnemyAIRule {
+  move: string;
+  when: EnemyAICondition;
+}
+
+/**
+ * Scripted move selection. Checked in order: opening, rules, sequence, and
+ * finally a weighted roll over the moves with a weight above 0.
+ */
+export interface EnemyAIPattern {
+  /** Moves used in order on the first turns */
+  opening?: string[];
+  /** The first rule whose condition holds picks the move */
+  rules?: EnemyAIRule[];
+  /** Strict rotation used instead of the weighted roll */
+  sequence?: string[];
+  /** Start the sequence at the enemy's slot, so a group (like Sentries) alternates out of step */
+  staggered?: boolean;
+  /** Times in a row a move may be used; moves not listed may not repeat */
+  maxConsecutive?: Record<string, number>;
+}
+
+export interface EnemyAI extends EnemyAIPattern {
+  /** Overrides merged over the base pattern from this ascension level up */
+  ascension?: { level: number; ai: EnemyAIPattern }[];
+}
+
+/**
+ * An alternate move set, e.g. The Guardian's Defensive Mode
+ */
+export interface EnemyForm {
+  moves: EnemyMove[];
+  ai?: EnemyAI;
+}
+
+/**
+ * A threshold checked whenever the enemy loses HP. Crossing it switches the
+ * enemy's form and/or replaces its intent with a move.
+ */
+export interface EnemyPhase {
+  /** HP at or below this percentage of max HP (triggers once) */
+  hpPercent?: number;
+  /** HP lost since the last form change reaches this amount (triggers every time) */
+  damageTaken?: number;
+  /** Added to damageTaken after each trigger */
+  damageTakenIncrease?: number;
+  /** Only checked in this form ('base' for the original moves) */
+  form?: string;
+  transform?: string;
+  move?: string;
+}
+
 export interface EnemyData {
   id: string;
   name: string;
   maxHp: number;
   type: 'normal' | 'elite' | 'boss';
   moves: EnemyMove[];
+  ai?: EnemyAI;
+  forms?: Record<string, EnemyForm>;
+  phases?: EnemyPhase[];
 }
 
+/** The parts of EnemyData that drive an enemy's behavior beyond its moves */
+export type EnemyBehavior = Pick<EnemyData, 'ai' | 'forms' | 'phases'>;
+
 export interface Enemy extends EnemyData {
   currentHp: number;
   block: number;
   statusEffects: StatusEffects;
   currentIntent: EnemyIntent;
+  /** Fled combat (e.g. a Looter after stealing gold) */
+  escaped?: boolean;
+  /** Replaced by the enemies it split into */
+  split?: boolean;
+  /** Joined mid-combat (a summon or a split-off), so it pays no gold */
+  spawned?: boolean;
+}
+
+export type EncounterKind = 'normal' | 'elite' | 'boss';
+
+/**
+ * A named group of enemies fought together. Each entry is an enemy id, or a
+ * list of ids one of which is picked at random.
+ */
+export interface Encounter {
+  id: string;
+  name: string;
+  enemies: (string | string[])[];
+  weight: number;
+}
+
+export interface EncounterTable {
+  act: number;
+  /** Normal fights on floors below this come from the easy pool */
+  easyFloors: number;
+  /** How many of the most recent encounters of a kind may not come up again */
+  noRepeat: Partial<Record<EncounterKind, number>>;
+  easy: Encounter[];
+  hard: Encounter[];
+  elites: Encounter[];
+  bosses: Encounter[];
 }
 
 export interface Player {
@@ -122,6 +270,121 @@ export interface Room {
   y: number;
   connections: number[];
   visited: boolean;
+  /** TREASURE: the size of the room's chest */
+  chest?: ChestSize;
+  /** EVENT: what the "?" room turned out to be once entered */
+  resolved?: RoomType;
+}
+
+/** What a "?" room can hold besides an event */
+export type UnknownRoomOutcome = 'COMBAT' | 'MERCHANT' | 'TREASURE';
+
+/**
+ * The run's odds for "?" rooms. An outcome's chance rises each time it
+ * isn't rolled and resets when it is; the rest of the time it's an event.
+ */
+export interface UnknownRoomOdds {
+  /** Percent chance of each outcome */
+  chances: Record<UnknownRoomOutcome, number>;
+  /** "?" rooms entered this run */
+  entered: number;
+}
+
+/** The kind of fight a card reward comes from, each with its own odds */
+export type CardRewardFight = 'NORMAL' | 'ELITE' | 'BOSS';
+
+/**
+ * The run's card reward odds. The rare chance creeps up with every common
+ * offered and resets when a rare is offered.
+ */
+export interface CardRewardOdds {
+  /** Percent added to every fight's base rare chance */
+  rareOffset: number;
+}
+
+export type ChestSize = 'SMALL' | 'MEDIUM' | 'LARGE';
+
+/**
+ * A treasure chest (see chests.json). Chest sizes are rolled by weight.
+ */
+export interface ChestConfig {
+  size: ChestSize;
+  name: string;
+  icon: string;
+  weight: number;
+  /** Relative chance of each relic rarity */
+  relicOdds: Record<CardRewardRarity, number>;
+  /** Percent chance the chest also holds gold */
+  goldChance: number;
+  gold: number;
+}
+
+/**
+ * Map layout for an act. Floors are numbered from 0; the first floor is
+ * all fights, the middle floor all treasure, the floor before the boss all
+ * rest sites and the last floor the boss.
+ */
+export interface ActMapConfig {
+  floors: number;
+  /** Width of the grid the paths are carved through */
+  columns: number;
+  /** Paths carved from the first floor to the boss; they may merge */
+  paths: number;
+  /** Elites and rest sites can't appear on this many first floors */
+  earlyFloors: number;
+  /** Relative weights of the rooms rolled on the other floors */
+  roomWeights: Partial<Record<RoomType, number>>;
+}
+
+/**
+ * A change to how a run plays, e.g. a daily challenge's rules
+ */
+export interface RunModifierEffect {
+  /**
+   * ROOM_WEIGHT, EXTRA_ROOM_WEIGHT, MAX_HP_PERCENT, GOLD, ADD_CARD,
+   * POTION_SLOTS, UPGRADE_CARDS, ENEMY_HP_PERCENT, ENEMY_DAMAGE_PERCENT
+   * or REST_HEAL_PERCENT
+   */
+  type: string;
+  value: number;
+  /**
+   * ROOM_WEIGHT: the room whose weight is multiplied by value (0 removes
+   * the room, including a fixed floor of it). EXTRA_ROOM_WEIGHT: the room
+   * whose weight value is added to.
+   */
+  room?: RoomType;
+  /** ADD_CARD: card id (status cards included), added value times */
+  cardId?: string;
+}
+
+export interface RunModifier {
+  id: string;
+  name: string;
+  description: string;
+  effects: RunModifierEffect[];
+  /** Only offered for custom runs, never picked for a daily challenge */
+  customOnly?: boolean;
+}
+
+/**
+ * A difficulty level. A run at a level has every level up to it in effect.
+ */
+export interface AscensionLevel extends RunModifier {
+  level: number;
+}
+
+export type CardRewardRarity = 'COMMON' | 'UNCOMMON' | 'RARE';
+
+export interface ActConfig {
+  act: number;
+  name: string;
+  map: ActMapConfig;
+  /** Multiplies gold from fights */
+  goldMultiplier: number;
+  /** Chance of each rarity for shop cards */
+  cardRarity: Record<CardRewardRarity, number>;
+  /** Chance (0-1) of each card in a card reward being upgraded */
+  cardUpgradeChance: number;
 }
 
 export interface EventChoice {
@@ -140,11 +403,23 @@ export interface EventOutcome {
   weight?: number;
 }
 
+/**
+ * A run-start blessing (see blessings.json), offered as a choice of the
+ * opening room and resolved like an event choice
+ */
+export interface Blessing extends EventChoice {
+  id: string;
+  /** Only offered after the previous run reached a boss */
+  big?: boolean;
+}
+
 export interface GameEvent {
   id: string;
   name: string;
   description: string;
   image?: string;
+  /** Acts the event can appear in (every act when omitted) */
+  acts?: number[];
   choices: EventChoice[];
 }
 
@@ -168,16 +443,31 @@ export type GameScreen =
   | 'REST'
   | 'MERCHANT'
   | 'EVENT'
+  | 'TREASURE'
   | 'CARD_SELECT'
   | 'VICTORY'
   | 'DEFEAT';
 
+/**
+ * A Power card that has been played and stays in effect for the rest of combat
+ */
+export interface ActivePower {
+  id: string;
+  name: string;
+  description: string;
+  /** Times this power has been played */
+  stacks: number;
+  /** Ongoing effects, accumulated across every copy played */
+  effects: CardEffect[];
+}
+
 export interface CombatState {
   enemies: Enemy[];
   hand: Card[];
   drawPile: Card[];
   discardPile: Card[];
   exhaustPile: Card[];
+  powers: ActivePower[];
   turn: number;
   isPlayerTurn: boolean;
   selectedCard: Card | null;
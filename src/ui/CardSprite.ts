@@ -142,6 +142,7 @@ export class CardSprite extends Phaser.GameObjects.Container {
    */
   private getKeywords(): string[] {
     const keywords: string[] = [];
+    if (this.card.unplayable) keywords.push('Unplayable');
     if (this.card.exhaust) keywords.push('Exhaust');
     if (this.card.retain) keywords.push('Retain');
     if (this.card.ethereal) keywords.push('Ethereal');
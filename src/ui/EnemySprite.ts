@@ -1,5 +1,6 @@
 import Phaser from 'phaser';
 import { Enemy } from '@/entities/Enemy';
+import { getActiveStatuses } from '@/engine/statusEffects';
 
 /**
  * Visual representation of an enemy in Phaser
@@ -149,6 +150,10 @@ export class EnemySprite extends Phaser.GameObjects.Container {
         return '⬇️';
       case 'UNKNOWN':
         return '❓';
+      case 'ESCAPE':
+        return '💨';
+      case 'SLEEP':
+        return '💤';
       default:
         return '?';
     }
@@ -162,7 +167,7 @@ export class EnemySprite extends Phaser.GameObjects.Container {
     this.setInteractive({ useHandCursor: true });
 
     this.on('pointerover', () => {
-      if (!this.enemy.isDead()) {
+      if (this.enemy.isActive()) {
         this.background.setStrokeStyle(4, 0xffff00);
       }
     });
@@ -186,7 +191,8 @@ export class EnemySprite extends Phaser.GameObjects.Container {
     // Update intent
     this.intentIcon.setText(this.getIntentIcon());
     const intentValue = this.enemy.getIntentValue();
-    this.intentText.setText(intentValue > 0 ? intentValue.toString() : '');
+    const hits = this.enemy.intent.times ?? 1;
+    this.intentText.setText(intentValue > 0 ? `${intentValue}${hits > 1 ? `x${hits}` : ''}` : '');
 
     // Update block
     this.updateBlock();
@@ -194,10 +200,17 @@ export class EnemySprite extends Phaser.GameObjects.Container {
     // Update status effects
     this.updateStatusEffects();
 
-    // Gray out if dead
-    if (this.enemy.isDead()) {
+    // Gray out if dead, hide if escaped or split
+    if (this.enemy.isGone()) {
+      this.setVisible(false);
+      this.disableInteractive();
+    } else if (this.enemy.isDead()) {
       this.setAlpha(0.5);
       this.disableInteractive();
+    } else if (this.alpha < 1) {
+      // Back from the dead after an undo
+      this.setAlpha(1);
+      this.setInteractive();
     }
   }
 
@@ -231,19 +244,9 @@ export class EnemySprite extends Phaser.GameObjects.Container {
     // TODO: Create a more sophisticated status effect display
     // For now, just show them as text
 
-    const statuses: string[] = [];
-    if (this.enemy.strength !== 0) {
-      statuses.push(`STR:${this.enemy.strength > 0 ? '+' : ''}${this.enemy.strength}`);
-    }
-    if (this.enemy.weak > 0) {
-      statuses.push(`WEAK:${this.enemy.weak}`);
-    }
-    if (this.enemy.vulnerable > 0) {
-      statuses.push(`VULN:${this.enemy.vulnerable}`);
-    }
-    if (this.enemy.poison > 0) {
-      statuses.push(`POISON:${this.enemy.poison}`);
-    }
+    const statuses = getActiveStatuses(this.enemy.statusEffects).map(
+      ({ definition, stacks }) => `${definition.name}:${stacks}`
+    );
 
     // Display status effects (placeholder - could be improved with icons)
     if (statuses.length > 0) {
@@ -78,6 +78,8 @@ export class RelicSprite extends Phaser.GameObjects.Container {
         return 0x4169e1; // Royal blue
       case 'RARE':
         return 0x9932cc; // Dark orchid
+      case 'BOSS':
+        return 0x8b0000; // Dark red
       default:
         return 0x333333;
     }
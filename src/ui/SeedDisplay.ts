@@ -0,0 +1,74 @@
+import Phaser from 'phaser';
+import { Theme } from './theme';
+
+export interface SeedDisplayConfig {
+  scene: Phaser.Scene;
+  x: number;
+  y: number;
+  seed: string;
+  /** Which end of the line sits at x */
+  align?: 'left' | 'center' | 'right';
+}
+
+/**
+ * SeedDisplay - The run's seed with a button that copies it, so a run can
+ * be shared and replayed
+ */
+export class SeedDisplay extends Phaser.GameObjects.Container {
+  private copyText: Phaser.GameObjects.Text;
+  private seed: string;
+
+  constructor(config: SeedDisplayConfig) {
+    super(config.scene, config.x, config.y);
+    this.seed = config.seed;
+    this.scene.add.existing(this);
+
+    const seedText = this.scene.add.text(0, 0, `🌱 Seed: ${config.seed}`, {
+      ...Theme.typography.styles.body,
+      color: Theme.colors.textSecondary,
+    }).setOrigin(0, 0.5);
+
+    this.copyText = this.scene.add.text(seedText.width + Theme.spacing.md, 0, '📋 Copy', {
+      ...Theme.typography.styles.body,
+      color: Theme.colors.info,
+    }).setOrigin(0, 0.5);
+    this.copyText.setInteractive({ useHandCursor: true });
+    this.copyText.on('pointerover', () => this.copyText.setAlpha(0.7));
+    this.copyText.on('pointerout', () => this.copyText.setAlpha(1));
+    this.copyText.on('pointerdown', () => this.copy());
+
+    this.add([seedText, this.copyText]);
+
+    // Shift the line so the requested end sits at x
+    const width = this.copyText.x + this.copyText.width;
+    const offset = config.align === 'right' ? -width : config.align === 'center' ? -width / 2 : 0;
+    seedText.x += offset;
+    this.copyText.x += offset;
+
+    this.setDepth(Theme.layers.ui);
+  }
+
+  private copy(): void {
+    const clipboard = typeof navigator !== 'undefined' ? navigator.clipboard : undefined;
+    if (!clipboard) {
+      console.warn('Clipboard not available; seed is', this.seed);
+      return;
+    }
+
+    clipboard.writeText(this.seed).then(
+      () => this.flash('✓ Copied', Theme.colors.success),
+      () => this.flash('✖ Copy failed', Theme.colors.danger)
+    );
+  }
+
+  /**
+   * Show feedback on the copy button, then put it back
+   */
+  private flash(text: string, color: string): void {
+    this.copyText.setText(text).setColor(color);
+    this.scene.time.delayedCall(1500, () => {
+      if (!this.active) return;
+      this.copyText.setText('📋 Copy').setColor(Theme.colors.info);
+    });
+  }
+}
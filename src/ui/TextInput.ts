@@ -0,0 +1,122 @@
+import Phaser from 'phaser';
+import { Theme } from './theme';
+
+export interface TextInputConfig {
+  scene: Phaser.Scene;
+  x: number;
+  y: number;
+  width?: number;
+  value?: string;
+  /** Shown while the field is empty and not focused */
+  placeholder?: string;
+  maxLength?: number;
+  /** Matches a single character that may be typed */
+  allowed?: RegExp;
+  onChange?: (value: string) => void;
+}
+
+/**
+ * TextInput - Single-line text field typed into with the keyboard.
+ * Click to focus; Enter, Escape or a click elsewhere unfocuses it.
+ */
+export class TextInput extends Phaser.GameObjects.Container {
+  private background: Phaser.GameObjects.Graphics;
+  private text: Phaser.GameObjects.Text;
+  private config: TextInputConfig;
+  private value: string;
+  private focused: boolean = false;
+
+  constructor(config: TextInputConfig) {
+    super(config.scene, config.x, config.y);
+    this.config = config;
+    this.value = config.value ?? '';
+    this.scene.add.existing(this);
+
+    const width = config.width ?? Theme.dimensions.button.minWidth;
+    const height = Theme.dimensions.button.height;
+
+    this.background = this.scene.add.graphics();
+    this.add(this.background);
+
+    this.text = this.scene.add.text(-width / 2 + Theme.spacing.md, 0, '', Theme.typography.styles.body);
+    this.text.setOrigin(0, 0.5);
+    this.add(this.text);
+
+    this.setSize(width, height);
+    this.setInteractive(
+      new Phaser.Geom.Rectangle(-width / 2, -height / 2, width, height),
+      Phaser.Geom.Rectangle.Contains
+    );
+    this.input!.cursor = 'text';
+
+    this.on('pointerdown', () => this.setFocused(true));
+    this.scene.input.on('pointerdown', this.onScenePointerDown, this);
+    this.scene.input.keyboard?.on('keydown', this.onKeyDown, this);
+    this.once(Phaser.GameObjects.Events.DESTROY, () => {
+      this.scene.input.off('pointerdown', this.onScenePointerDown, this);
+      this.scene.input.keyboard?.off('keydown', this.onKeyDown, this);
+    });
+
+    this.redraw();
+    this.setDepth(Theme.layers.ui);
+  }
+
+  getValue(): string {
+    return this.value;
+  }
+
+  setValue(value: string): void {
+    this.value = value.slice(0, this.config.maxLength ?? Infinity);
+    this.redraw();
+  }
+
+  private setFocused(focused: boolean): void {
+    this.focused = focused;
+    this.redraw();
+  }
+
+  private onScenePointerDown(_pointer: Phaser.Input.Pointer, targets: Phaser.GameObjects.GameObject[]): void {
+    if (!targets.includes(this)) this.setFocused(false);
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    if (!this.focused) return;
+
+    if (event.key === 'Enter' || event.key === 'Escape') {
+      this.setFocused(false);
+      return;
+    }
+
+    let value = this.value;
+    if (event.key === 'Backspace') {
+      value = value.slice(0, -1);
+    } else if (event.key.length === 1 && (!this.config.allowed || this.config.allowed.test(event.key))) {
+      value += event.key;
+    } else {
+      return;
+    }
+
+    this.setValue(value);
+    this.config.onChange?.(this.value);
+  }
+
+  private redraw(): void {
+    const width = this.config.width ?? Theme.dimensions.button.minWidth;
+    const height = Theme.dimensions.button.height;
+    const borderColor = this.focused ? Theme.colors.hover : Theme.colors.border;
+
+    this.background.clear();
+    this.background.fillStyle(Theme.helpers.hexToColor(Theme.colors.background), 0.9);
+    this.background.lineStyle(Theme.dimensions.button.borderWidth, Theme.helpers.hexToColor(borderColor));
+    this.background.fillRoundedRect(-width / 2, -height / 2, width, height, Theme.dimensions.button.cornerRadius);
+    this.background.strokeRoundedRect(-width / 2, -height / 2, width, height, Theme.dimensions.button.cornerRadius);
+
+    if (!this.value && !this.focused) {
+      this.text.setText(this.config.placeholder ?? '');
+      this.text.setColor(Theme.colors.textMuted);
+    } else {
+      this.text.setText(this.focused ? `${this.value}_` : this.value);
+      this.text.setColor(Theme.colors.text);
+    }
+  }
+}
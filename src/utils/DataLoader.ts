@@ -1,25 +1,60 @@
-import { Card, CharacterClass, GameEvent } from '@/types';
+import {
+  ActConfig,
+  AscensionLevel,
+  Blessing,
+  Card,
+  CardRewardRarity,
+  CharacterClass,
+  ChestConfig,
+  ChestSize,
+  EncounterTable,
+  EnemyData,
+  EnemyMove,
+  GameEvent,
+  RunModifier,
+} from '@/types';
 import { Enemy } from '@/entities/Enemy';
 import { Relic } from '@/entities/Relic';
 import { Potion } from '@/entities/Potion';
+import { ModifierSystem } from '@/systems/ModifierSystem';
+import { RNG } from '@/systems/RNG';
 import starterCards from '@/data/cards/starter.json';
 import advancedCards from '@/data/cards/advanced.json';
+import statusCards from '@/data/cards/status.json';
 import act1Enemies from '@/data/enemies/act1.json';
+import act2Enemies from '@/data/enemies/act2.json';
+import act3Enemies from '@/data/enemies/act3.json';
+import act1Encounters from '@/data/encounters/act1.json';
+import act2Encounters from '@/data/encounters/act2.json';
+import act3Encounters from '@/data/encounters/act3.json';
+import actsData from '@/data/acts.json';
 import relicsData from '@/data/relics/relics.json';
 import potionsData from '@/data/potions/potions.json';
 import eventsData from '@/data/events/events.json';
 import charactersData from '@/data/characters.json';
+import modifiersData from '@/data/modifiers/modifiers.json';
+import ascensionData from '@/data/ascension.json';
+import blessingsData from '@/data/blessings.json';
+import chestsData from '@/data/chests.json';
 
 /**
  * DataLoader handles loading and caching game data from JSON files
  */
 export class DataLoader {
   private static cardCache: Map<string, Card> = new Map();
+  private static statusCardCache: Map<string, Card> = new Map();
   private static enemyCache: Map<string, Enemy> = new Map();
+  private static enemyActs: Map<string, number> = new Map();
+  private static encounterCache: Map<number, EncounterTable> = new Map();
+  private static actCache: Map<number, ActConfig> = new Map();
   private static relicCache: Map<string, Relic> = new Map();
   private static potionCache: Map<string, Potion> = new Map();
   private static eventCache: Map<string, GameEvent> = new Map();
   private static characterCache: Map<string, CharacterClass> = new Map();
+  private static modifierCache: Map<string, RunModifier> = new Map();
+  private static ascensionLevels: AscensionLevel[] = [];
+  private static blessings: Blessing[] = [];
+  private static chestCache: Map<ChestSize, ChestConfig> = new Map();
   private static initialized = false;
 
   /**
@@ -40,10 +75,30 @@ export class DataLoader {
       this.cardCache.set(card.id, card);
     });
 
-    // Load enemies
-    act1Enemies.enemies.forEach((enemyData) => {
-      const enemy = this.parseEnemy(enemyData);
-      this.enemyCache.set(enemy.id, enemy);
+    // Load status cards (kept out of the card pools)
+    statusCards.cards.forEach((cardData) => {
+      const card = this.parseCard(cardData);
+      this.statusCardCache.set(card.id, card);
+    });
+
+    // Load enemies, remembering the act each one belongs to
+    const enemyFiles = [act1Enemies, act2Enemies, act3Enemies] as { enemies: EnemyData[] }[];
+    enemyFiles.forEach((file, index) => {
+      file.enemies.forEach((enemyData) => {
+        const enemy = this.parseEnemy(enemyData);
+        this.enemyCache.set(enemy.id, enemy);
+        this.enemyActs.set(enemy.id, index + 1);
+      });
+    });
+
+    // Load encounter tables
+    [act1Encounters, act2Encounters, act3Encounters].forEach((table) => {
+      this.encounterCache.set(table.act, table as EncounterTable);
+    });
+
+    // Load act settings
+    actsData.acts.forEach((actData) => {
+      this.actCache.set(actData.act, actData as ActConfig);
     });
 
     // Load relics
@@ -69,6 +124,22 @@ export class DataLoader {
       this.characterCache.set(charData.id, charData as CharacterClass);
     });
 
+    // Load run modifiers
+    modifiersData.modifiers.forEach((modifierData) => {
+      this.modifierCache.set(modifierData.id, modifierData as RunModifier);
+    });
+
+    // Load ascension levels
+    this.ascensionLevels = (ascensionData.levels as AscensionLevel[]).sort((a, b) => a.level - b.level);
+
+    // Load run-start blessings
+    this.blessings = blessingsData.blessings as Blessing[];
+
+    // Load treasure chests
+    (chestsData.chests as ChestConfig[]).forEach((chest) => {
+      this.chestCache.set(chest.size, chest);
+    });
+
     this.initialized = true;
     console.log(
       `Loaded ${this.cardCache.size} cards, ${this.enemyCache.size} enemies, ` +
@@ -85,6 +156,15 @@ export class DataLoader {
     return this.cardCache.get(id);
   }
 
+  /**
+   * Get a status card (Wound, Dazed, Slimed) by ID
+   */
+  static getStatusCard(id: string): Card | undefined {
+    if (!this.initialized) this.initialize();
+    const template = this.statusCardCache.get(id);
+    return template ? { ...template } : undefined;
+  }
+
   /**
    * Get all cards
    */
@@ -104,34 +184,33 @@ export class DataLoader {
   }
 
   /**
-   * Get a random card with rarity weighting
-   * COMMON: 60%, UNCOMMON: 30%, RARE: 10%
+   * Roll a card rarity using the act's weights (see acts.json)
    */
-  static getRandomWeightedCard(): Card | undefined {
-    if (!this.initialized) this.initialize();
-
-    const roll = Math.random();
-    let targetRarity: string;
+  static rollCardRarity(act = 1): CardRewardRarity {
+    const weights = this.getActConfig(act).cardRarity;
+    let roll = RNG.get('cards').next();
 
-    if (roll < 0.6) {
-      targetRarity = 'COMMON';
-    } else if (roll < 0.9) {
-      targetRarity = 'UNCOMMON';
-    } else {
-      targetRarity = 'RARE';
+    for (const rarity of ['COMMON', 'UNCOMMON'] as const) {
+      roll -= weights[rarity];
+      if (roll < 0) return rarity;
     }
+    return 'RARE';
+  }
+
+  /**
+   * Get a random card with the act's rarity weighting
+   */
+  static getRandomWeightedCard(act = 1): Card | undefined {
+    if (!this.initialized) this.initialize();
 
-    const filtered = this.getCardsByRarity(targetRarity);
+    const rng = RNG.get('cards');
+    const filtered = this.getCardsByRarity(this.rollCardRarity(act));
     if (filtered.length === 0) {
       // Fallback to any card
-      const allCards = this.getAllCards();
-      if (allCards.length === 0) return undefined;
-      const randomIndex = Math.floor(Math.random() * allCards.length);
-      return allCards[randomIndex];
+      return rng.pick(this.getAllCards());
     }
 
-    const randomIndex = Math.floor(Math.random() * filtered.length);
-    return filtered[randomIndex];
+    return rng.pick(filtered);
   }
 
   /**
@@ -146,6 +225,27 @@ export class DataLoader {
     return this.createEnemyInstance(template);
   }
 
+  /**
+   * Get an enemy's data without HP variance (for enemies spawned mid-combat).
+   * The run's enemy HP and damage modifiers are applied.
+   */
+  static getEnemyData(id: string): EnemyData | undefined {
+    if (!this.initialized) this.initialize();
+    const template = this.enemyCache.get(id);
+    if (!template) return undefined;
+
+    return {
+      id: template.id,
+      name: template.name,
+      type: template.type as EnemyData['type'],
+      maxHp: this.scaleEnemyHp(template.maxHp),
+      moves: this.scaleEnemyMoves(template.moves),
+      ai: template.ai,
+      forms: this.scaleEnemyForms(template.forms),
+      phases: template.phases,
+    };
+  }
+
   /**
    * Get all enemy templates
    */
@@ -155,27 +255,61 @@ export class DataLoader {
   }
 
   /**
-   * Get enemies by type (normal, elite, boss)
+   * Get enemies by type (normal, elite, boss), optionally only from one act
+   */
+  static getEnemiesByType(type: string, act?: number): Enemy[] {
+    if (!this.initialized) this.initialize();
+    return Array.from(this.enemyCache.values()).filter(
+      (enemy) => enemy.type === type && (act === undefined || this.enemyActs.get(enemy.id) === act)
+    );
+  }
+
+  /**
+   * Get the enemies introduced in an act
    */
-  static getEnemiesByType(type: string): Enemy[] {
+  static getEnemiesByAct(act: number): Enemy[] {
     if (!this.initialized) this.initialize();
     return Array.from(this.enemyCache.values()).filter(
-      (enemy) => enemy.type === type
+      (enemy) => this.enemyActs.get(enemy.id) === act
     );
   }
 
   /**
    * Get a random enemy of a specific type
    */
-  static getRandomEnemyByType(type: string): Enemy | undefined {
+  static getRandomEnemyByType(type: string, act?: number): Enemy | undefined {
     if (!this.initialized) this.initialize();
-    const enemies = this.getEnemiesByType(type);
+    const enemies = this.getEnemiesByType(type, act);
     if (enemies.length === 0) return undefined;
 
-    const randomIndex = Math.floor(Math.random() * enemies.length);
+    const randomIndex = RNG.get('monsters').nextInt(enemies.length);
     return this.getEnemy(enemies[randomIndex].id);
   }
 
+  /**
+   * Get the encounter table for an act
+   */
+  static getEncounterTable(act: number): EncounterTable | undefined {
+    if (!this.initialized) this.initialize();
+    return this.encounterCache.get(act);
+  }
+
+  /**
+   * Get an act's settings. Acts past the last one use the last act's.
+   */
+  static getActConfig(act: number): ActConfig {
+    if (!this.initialized) this.initialize();
+    return this.actCache.get(Math.min(Math.max(act, 1), this.actCache.size))!;
+  }
+
+  /**
+   * Number of acts in a run
+   */
+  static getActCount(): number {
+    if (!this.initialized) this.initialize();
+    return this.actCache.size;
+  }
+
   /**
    * Get a relic by ID
    */
@@ -204,17 +338,43 @@ export class DataLoader {
   }
 
   /**
-   * Get a random relic
+   * Get a random relic (boss relics are only offered after bosses)
    */
   static getRandomRelic(): Relic | undefined {
     if (!this.initialized) this.initialize();
-    const relics = Array.from(this.relicCache.values());
+    const relics = Array.from(this.relicCache.values()).filter((relic) => relic.rarity !== 'BOSS');
     if (relics.length === 0) return undefined;
 
-    const randomIndex = Math.floor(Math.random() * relics.length);
+    const randomIndex = RNG.get('relics').nextInt(relics.length);
     return relics[randomIndex].clone();
   }
 
+  /**
+   * Get a random boss relic the player doesn't own
+   */
+  static getRandomBossRelic(owned: string[] = []): Relic | undefined {
+    return this.getBossRelicChoices(1, owned)[0];
+  }
+
+  /**
+   * Pick distinct boss relics the player doesn't own, by their weights.
+   * Fewer come back when the pool runs dry.
+   */
+  static getBossRelicChoices(count: number, owned: string[] = []): Relic[] {
+    if (!this.initialized) this.initialize();
+    const rng = RNG.get('relics');
+    const pool = this.getRelicsByRarity('BOSS').filter((relic) => !owned.includes(relic.id));
+    const choices: Relic[] = [];
+
+    while (choices.length < count && pool.length > 0) {
+      const totalWeight = pool.reduce((sum, relic) => sum + (relic.weight ?? 1), 0);
+      let roll = rng.next() * totalWeight;
+      const index = Math.max(0, pool.findIndex((relic) => (roll -= relic.weight ?? 1) < 0));
+      choices.push(...pool.splice(index, 1));
+    }
+    return choices;
+  }
+
   /**
    * Get a random relic with rarity weighting
    * COMMON: 60%, UNCOMMON: 30%, RARE: 10%
@@ -222,7 +382,8 @@ export class DataLoader {
   static getRandomWeightedRelic(): Relic | undefined {
     if (!this.initialized) this.initialize();
 
-    const roll = Math.random();
+    const rng = RNG.get('relics');
+    const roll = rng.next();
     let targetRarity: string;
 
     if (roll < 0.6) {
@@ -239,8 +400,7 @@ export class DataLoader {
       return this.getRandomRelic();
     }
 
-    const randomIndex = Math.floor(Math.random() * filtered.length);
-    return filtered[randomIndex];
+    return rng.pick(filtered);
   }
 
   /**
@@ -278,7 +438,7 @@ export class DataLoader {
     const potions = Array.from(this.potionCache.values());
     if (potions.length === 0) return undefined;
 
-    const randomIndex = Math.floor(Math.random() * potions.length);
+    const randomIndex = RNG.get('potions').nextInt(potions.length);
     return potions[randomIndex].clone();
   }
 
@@ -289,7 +449,8 @@ export class DataLoader {
   static getRandomWeightedPotion(): Potion | undefined {
     if (!this.initialized) this.initialize();
 
-    const roll = Math.random();
+    const rng = RNG.get('potions');
+    const roll = rng.next();
     let targetRarity: string;
 
     if (roll < 0.7) {
@@ -306,8 +467,7 @@ export class DataLoader {
       return this.getRandomPotion();
     }
 
-    const randomIndex = Math.floor(Math.random() * filtered.length);
-    return filtered[randomIndex];
+    return rng.pick(filtered);
   }
 
   /**
@@ -327,14 +487,16 @@ export class DataLoader {
   }
 
   /**
-   * Get a random event
+   * Get a random event, optionally from one act's pool
    */
-  static getRandomEvent(): GameEvent | undefined {
+  static getRandomEvent(act?: number): GameEvent | undefined {
     if (!this.initialized) this.initialize();
-    const events = Array.from(this.eventCache.values());
+    const events = Array.from(this.eventCache.values()).filter(
+      (event) => act === undefined || !event.acts || event.acts.includes(act)
+    );
     if (events.length === 0) return undefined;
 
-    const randomIndex = Math.floor(Math.random() * events.length);
+    const randomIndex = RNG.get('events').nextInt(events.length);
     return events[randomIndex];
   }
 
@@ -417,16 +579,20 @@ export class DataLoader {
       upgraded: data.upgraded || false,
       targetType: data.targetType,
       effects: data.effects,
+      exhaust: data.exhaust,
+      ethereal: data.ethereal,
+      unplayable: data.unplayable,
     };
   }
 
-  private static parseEnemy(data: any): Enemy {
+  private static parseEnemy(data: EnemyData): Enemy {
     return new Enemy(
       data.id,
       data.name,
       data.type, // Add type field!
       data.maxHp,
-      data.moves
+      data.moves,
+      { ai: data.ai, forms: data.forms, phases: data.phases }
     );
   }
 
@@ -435,14 +601,48 @@ export class DataLoader {
     const variance = 0.1;
     const minHp = Math.floor(template.maxHp * (1 - variance));
     const maxHp = Math.floor(template.maxHp * (1 + variance));
-    const randomHp = Math.floor(Math.random() * (maxHp - minHp + 1)) + minHp;
+    const randomHp = RNG.get('monsters').nextRange(minHp, maxHp);
 
     return new Enemy(
       template.id,
       template.name,
       template.type, // Add type field!
-      randomHp,
-      [...template.moves]
+      this.scaleEnemyHp(randomHp),
+      this.scaleEnemyMoves(template.moves),
+      { ai: template.ai, forms: this.scaleEnemyForms(template.forms), phases: template.phases }
+    );
+  }
+
+  /**
+   * Enemy max HP with the run's ENEMY_HP_PERCENT modifiers
+   */
+  private static scaleEnemyHp(maxHp: number): number {
+    const percent = ModifierSystem.getActiveTotal('ENEMY_HP_PERCENT');
+    return Math.max(1, Math.round(maxHp * (1 + percent / 100)));
+  }
+
+  /**
+   * Enemy moves with the run's ENEMY_DAMAGE_PERCENT modifiers applied to
+   * their damage and attack intents
+   */
+  private static scaleEnemyMoves(moves: EnemyMove[]): EnemyMove[] {
+    const percent = ModifierSystem.getActiveTotal('ENEMY_DAMAGE_PERCENT');
+    if (percent === 0) return [...moves];
+
+    const scale = (value: number) => Math.max(0, Math.round(value * (1 + percent / 100)));
+    return moves.map((move) => ({
+      ...move,
+      intent: move.intent.type === 'ATTACK' && move.intent.value !== undefined
+        ? { ...move.intent, value: scale(move.intent.value) }
+        : move.intent,
+      actions: move.actions.map((action) => (action.type === 'DAMAGE' ? { ...action, value: scale(action.value) } : action)),
+    }));
+  }
+
+  private static scaleEnemyForms(forms: EnemyData['forms']): EnemyData['forms'] {
+    if (!forms) return forms;
+    return Object.fromEntries(
+      Object.entries(forms).map(([name, form]) => [name, { ...form, moves: this.scaleEnemyMoves(form.moves) }])
     );
   }
 
@@ -453,6 +653,7 @@ export class DataLoader {
       description: data.description,
       rarity: data.rarity,
       effects: data.effects,
+      weight: data.weight,
     });
   }
 
@@ -473,6 +674,7 @@ export class DataLoader {
       name: data.name,
       description: data.description,
       image: data.image,
+      acts: data.acts,
       choices: data.choices,
     };
   }
@@ -492,4 +694,60 @@ export class DataLoader {
     if (!this.initialized) this.initialize();
     return Array.from(this.characterCache.values());
   }
+
+  /**
+   * Get a run modifier by ID
+   */
+  static getModifier(id: string): RunModifier | undefined {
+    if (!this.initialized) this.initialize();
+    return this.modifierCache.get(id);
+  }
+
+  /**
+   * Get all run modifiers
+   */
+  static getAllModifiers(): RunModifier[] {
+    if (!this.initialized) this.initialize();
+    return Array.from(this.modifierCache.values());
+  }
+
+  /**
+   * Get the ascension levels up to a level (all of them by default), lowest first
+   */
+  static getAscensionLevels(upTo: number = Infinity): AscensionLevel[] {
+    if (!this.initialized) this.initialize();
+    return this.ascensionLevels.filter((level) => level.level <= upTo);
+  }
+
+  /**
+   * The highest ascension level
+   */
+  static getMaxAscension(): number {
+    if (!this.initialized) this.initialize();
+    return this.ascensionLevels.length > 0 ? this.ascensionLevels[this.ascensionLevels.length - 1].level : 0;
+  }
+
+  /**
+   * Get all run-start blessings
+   */
+  static getAllBlessings(): Blessing[] {
+    if (!this.initialized) this.initialize();
+    return [...this.blessings];
+  }
+
+  /**
+   * Get a treasure chest by size
+   */
+  static getChest(size: ChestSize): ChestConfig {
+    if (!this.initialized) this.initialize();
+    return this.chestCache.get(size)!;
+  }
+
+  /**
+   * Get all treasure chests, smallest first
+   */
+  static getAllChests(): ChestConfig[] {
+    if (!this.initialized) this.initialize();
+    return Array.from(this.chestCache.values());
+  }
 }